@@ -25,18 +25,23 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import GooglePayIcon from "../../../assets/images/google-pay-mark_800.svg";
 import CampaignCard from "../../../components/CampaignCard";
+import DataIssueBanner from "../../../components/DataIssueBanner";
 import DonationErrorModal, { DonationError } from "../../../components/DonationErrorModal";
 import DonationSuccessModal from "../../../components/DonationSuccessModal";
 import EmptyState from "../../../components/EmptyState";
 import GeneralDonationCard from "../../../components/GeneralDonationCard";
 import { useTheme } from "../../../contexts/ThemeContext";
-import { Campaign, useCampaigns } from "../../../hooks/useCampaigns";
+import { useCampaigns } from "../../../hooks/useCampaigns";
 import { useDonation } from "../../../hooks/useDonation";
 import { useFirebaseData } from "../../../hooks/useFirebaseData";
 import { useResponsive } from "../../../hooks/useResponsive";
+import { Campaign } from "../../../types";
 import { DonationFormData } from "../../../types/donation";
+import { DataSource } from "../../../utils/dataIssues";
 type ThemeFromHook = ReturnType<typeof useTheme>;
 
+const DONATION_DATA_SOURCES: readonly DataSource[] = ["campaigns", "donationSettings"];
+
 
 export default function GiveTab(): React.JSX.Element | null {
   const theme = useTheme();
@@ -406,6 +411,8 @@ export default function GiveTab(): React.JSX.Element | null {
         >
           {/* Content */}
           <View style={styles.contentContainer}>
+            <DataIssueBanner sources={DONATION_DATA_SOURCES} />
+
             {/* Show Campaigns View */}
             {shouldShowCampaigns && (
               <>
@@ -14,11 +14,14 @@ import {
 } from "react-native";
 import DonationAnalyticsCard from "../../../components/DonationAnalyticsCard";
 import PillToggle from "../../../components/ui/PillToggle";
+import { useDisplayPreferences } from "../../../contexts/DisplayPreferencesContext";
 import { useTheme, AppTheme } from "../../../contexts/ThemeContext";
 import { regionalFunctions } from "../../../firebase";
 import { useFirebaseData } from "../../../hooks/useFirebaseData";
 import { useResponsive } from "../../../hooks/useResponsive";
 import { Donation } from "../../../types/donation";
+import { getMosqueTimezone } from "../../../utils/prayerCalculation";
+import { getZonedToday } from "../../../utils/time";
 
 type DonationType = "one-time" | "recurring";
 
@@ -36,7 +39,8 @@ export default function HistoryTab(): React.JSX.Element {
   const [hasLoaded, setHasLoaded] = useState(false);
   const [activeTab, setActiveTab] = useState<DonationType>("one-time");
   const { mosqueSettings } = useFirebaseData();
-  const MOSQUE_TZ = mosqueSettings?.timezone || 'Australia/Sydney';
+  const MOSQUE_TZ = getMosqueTimezone(mosqueSettings);
+  const { formatDate: formatDisplayDate, formatInstantTime } = useDisplayPreferences();
 
   const loadDonations = async () => {
     if (!email.trim() || !email.includes("@")) {
@@ -99,15 +103,8 @@ export default function HistoryTab(): React.JSX.Element {
       }
 
       // Format in mosque timezone to show correct local date/time
-      return date.toLocaleString("en-AU", {
-        day: "numeric",
-        month: "short",
-        year: "numeric",
-        hour: "numeric",
-        minute: "2-digit",
-        hour12: true,
-        timeZone: MOSQUE_TZ,
-      });
+      const day = formatDisplayDate(getZonedToday(MOSQUE_TZ, date), { weekday: false });
+      return `${day}, ${formatInstantTime(date, MOSQUE_TZ)}`;
     } catch (error) {
       console.error("Error formatting date:", error, timestamp);
       return "N/A";
@@ -1,38 +1,103 @@
 import { Ionicons } from '@expo/vector-icons';
 import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useCallback, useMemo, useState } from 'react';
-import { Image, ScrollView, SectionList, StatusBar, StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+import { Href, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Image, ScrollView, SectionList, StatusBar, StyleSheet, Text, TextInput, TouchableOpacity, View, useWindowDimensions } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import IslamicCalendarList from '../../components/IslamicCalendarList';
+import DataIssueBanner from '../../components/DataIssueBanner';
+import DateRangeModal from '../../components/DateRangeModal';
+import EventMonthGrid, { GridMonth } from '../../components/EventMonthGrid';
+import EventReminderModal from '../../components/EventReminderModal';
 import PatternOverlay from '../../components/PatternOverlay';
 import Badge from '../../components/ui/Badge';
 import Card from '../../components/ui/Card';
 import PillButton from '../../components/ui/PillButton';
+import PillToggle from '../../components/ui/PillToggle';
 import SectionHeader from '../../components/ui/SectionHeader';
+import { useDisplayPreferences } from '../../contexts/DisplayPreferencesContext';
 import { AppTheme, useTheme } from '../../contexts/ThemeContext';
 import { useResponsive } from '../../hooks/useResponsive';
 
 // Import custom hooks
 import { useEventCategories } from '../../hooks/useEventCategories';
-import { useEvents } from '../../hooks/useEvents';
+import { useEventReminders } from '../../hooks/useEventReminders';
+import { expandEventSeries, useEvents } from '../../hooks/useEvents';
 import { useFirebaseData } from '../../hooks/useFirebaseData';
+import { usePastEvents } from '../../hooks/usePastEvents';
+import CalendarExportService from '../../services/CalendarExportService';
+import EventReminderScheduler from '../../services/EventReminderScheduler';
+import { Event } from '../../types';
+import { DataSource } from '../../utils/dataIssues';
+import { getEventPath } from '../../utils/deepLinks';
+import {
+  EMPTY_EVENT_FILTERS,
+  EventDateRangeKind,
+  EventFilters,
+  filterEvents,
+  getDateRangeBounds,
+  hasActiveEventFilters,
+} from '../../utils/eventSearch';
+import { formatHijriDate, getHijriOffsetDays, gregorianToHijri } from '../../utils/hijri';
+import { getMosqueTimezone } from '../../utils/prayerCalculation';
+import { CalendarDay, addDays, daysBetween, formatDayKey, getDaysInMonth, getZonedToday, zonedTimeToDate } from '../../utils/time';
+
+const EVENT_DATA_SOURCES: readonly DataSource[] = ['events', 'eventCategories'];
+
+type EventsSegment = 'upcoming' | 'past';
+type EventsViewMode = 'list' | 'month';
+
+const DATE_RANGE_OPTIONS: { kind: EventDateRangeKind; label: string }[] = [
+  { kind: 'any', label: 'Any time' },
+  { kind: 'this-week', label: 'This week' },
+  { kind: 'this-month', label: 'This month' },
+  { kind: 'custom', label: 'Custom…' },
+];
 
 export default function EventsScreen(): React.JSX.Element {
   const theme = useTheme();
+  const router = useRouter();
+  const { formatTime, formatDate, orderDates } = useDisplayPreferences();
   const { ms } = useResponsive(); // Get responsive scaling function
   const { fontScale } = useWindowDimensions(); // Get accessibility font scaling
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  // Search, categories and date range combine; the Islamic Dates chip swaps the list for the Islamic calendar
+  const [filters, setFilters] = useState<EventFilters>(EMPTY_EVENT_FILTERS);
+  const [showIslamicDates, setShowIslamicDates] = useState(false);
+  const [showDateFilters, setShowDateFilters] = useState(false);
+  const [showCustomRange, setShowCustomRange] = useState(false);
+  const [segment, setSegment] = useState<EventsSegment>('upcoming');
+  const showPast = segment === 'past';
+  const [viewMode, setViewMode] = useState<EventsViewMode>('list');
+  const showMonth = viewMode === 'month';
   
   // Memoize styles based on theme and responsive scale
   const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
   
   // Load events and categories from Firebase
-  const { upcomingEvents, loading: eventsLoading } = useEvents();
-  const { categories, loading: categoriesLoading, hasRealData } = useEventCategories();
+  const { categories, hasRealData } = useEventCategories();
   const { mosqueSettings } = useFirebaseData();
 
   // Helpers for prominent date display and relative badges
-  const MOSQUE_TZ = mosqueSettings?.timezone || 'Australia/Sydney';
+  const MOSQUE_TZ = getMosqueTimezone(mosqueSettings);
+  const { upcomingEvents, series, loading: upcomingLoading } = useEvents(MOSQUE_TZ);
+  const [gridMonth, setGridMonth] = useState<GridMonth>(() => {
+    const today = getZonedToday(MOSQUE_TZ);
+    return { year: today.year, month: today.month };
+  });
+  // The archive is only fetched once the Past segment or the month view is first opened
+  const {
+    pastEvents,
+    loading: pastLoading,
+    loadingMore: pastLoadingMore,
+    hasMore: hasMorePastEvents,
+    error: pastError,
+    loadMore: loadMorePastEvents,
+  } = usePastEvents(showPast || showMonth, MOSQUE_TZ);
+  const { getReminderForEvent } = useEventReminders();
+  const [reminderEvent, setReminderEvent] = useState<Event | null>(null);
+  const listEvents = showPast ? pastEvents : upcomingEvents;
+  const eventsLoading = showPast ? pastLoading && pastEvents.length === 0 : upcomingLoading;
 
   const getDateParts = (timestamp: FirebaseFirestoreTypes.Timestamp) => {
     const d = timestamp.toDate();
@@ -42,32 +107,17 @@ export default function EventsScreen(): React.JSX.Element {
     return { weekday, month, day };
   };
 
-  const startOfDay = useCallback((d: Date) => {
-    // Get the date parts in mosque timezone
-    const parts = d.toLocaleString('en-US', {
-      timeZone: MOSQUE_TZ,
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour12: false
-    }).split(/[,\s:]+/);
-    const [m, day, y] = parts[0].split('/');
-    return new Date(parseInt(y), parseInt(m) - 1, parseInt(day), 0, 0, 0);
-  }, [MOSQUE_TZ]);
-
   const getRelativeBadge = useCallback((timestamp: FirebaseFirestoreTypes.Timestamp): { label: string; bg: string; text: string } | null => {
     try {
-      const eventDate = startOfDay(timestamp.toDate());
-      const today = startOfDay(new Date());
-      const msInDay = 24 * 60 * 60 * 1000;
-      const diffDays = Math.round((eventDate.getTime() - today.getTime()) / msInDay);
+      // Compare calendar days in the mosque timezone
+      const diffDays = daysBetween(getZonedToday(MOSQUE_TZ), getZonedToday(MOSQUE_TZ, timestamp.toDate()));
       if (diffDays === 0) return { label: 'Today', bg: '#f59e0b', text: '#0b1020' }; // amber
       if (diffDays === 1) return { label: 'Tomorrow', bg: '#22c55e', text: '#062012' }; // green
       return null;
     } catch {
       return null;
     }
-  }, [startOfDay]);
+  }, [MOSQUE_TZ]);
 
   // ✅ NEW: Get category colors dynamically
   const getCategoryColor = (categoryId: string) => {
@@ -85,59 +135,116 @@ export default function EventsScreen(): React.JSX.Element {
     return category?.label || 'Unknown'; // Show meaningful fallback
   };
 
-  // Filter events by category
+  // Filter the loaded (or cached) list, so search also works offline
+  const filtersActive = hasActiveEventFilters(filters);
   const filteredEvents = useMemo(() => {
-    const list = selectedCategory === 'all'
-      ? upcomingEvents
-      : upcomingEvents.filter(event => event.category === selectedCategory);
-    // Optional: sort by date ascending
-    return [...list].sort((a, b) => a.date.toDate().getTime() - b.date.toDate().getTime());
-  }, [selectedCategory, upcomingEvents]);
+    const list = filterEvents(listEvents, filters, MOSQUE_TZ);
+    // Upcoming soonest first, past most recent first
+    const direction = showPast ? -1 : 1;
+    return [...list].sort((a, b) => direction * (a.date.toDate().getTime() - b.date.toDate().getTime()));
+  }, [filters, listEvents, showPast, MOSQUE_TZ]);
+
+  // The month view shows upcoming and past events together, with the same filters.
+  // Series are expanded across the whole month shown, which may lie beyond the upcoming list's window.
+  const gridEvents = useMemo(() => {
+    const from = { year: gridMonth.year, month: gridMonth.month, day: 1 };
+    const to = { ...from, day: getDaysInMonth(gridMonth.year, gridMonth.month) };
+    const monthOccurrences = expandEventSeries(series, MOSQUE_TZ, from, to);
+    const byId = new Map([...pastEvents, ...upcomingEvents, ...monthOccurrences].map((event) => [event.id, event]));
+    return filterEvents(Array.from(byId.values()), filters, MOSQUE_TZ);
+  }, [pastEvents, upcomingEvents, series, gridMonth, filters, MOSQUE_TZ]);
+
+  // Page back through the archive until the month shown is covered
+  const oldestPastEvent = pastEvents[pastEvents.length - 1];
+  const gridMonthStart = zonedTimeToDate({ year: gridMonth.year, month: gridMonth.month, day: 1 }, 0, MOSQUE_TZ);
+  const needsOlderEvents = showMonth && hasMorePastEvents
+    && (!oldestPastEvent || oldestPastEvent.date.toDate() > gridMonthStart);
+  useEffect(() => {
+    if (needsOlderEvents && !pastLoading && !pastLoadingMore && !pastError) loadMorePastEvents();
+  }, [needsOlderEvents, pastLoading, pastLoadingMore, pastError, loadMorePastEvents]);
 
   // ✅ NEW: Build category filter dynamically from Firestore
-  const categoryFilters = [
-    { id: 'all', label: 'All' },
-    ...categories.map(cat => ({ id: cat.id, label: cat.label }))
-  ];
+  const categoryFilters = hasRealData ? categories.map(cat => ({ id: cat.id, label: cat.label })) : [];
+
+  const toggleCategory = (categoryId: string) => {
+    setShowIslamicDates(false);
+    setFilters((current) => ({
+      ...current,
+      categories: current.categories.includes(categoryId)
+        ? current.categories.filter((id) => id !== categoryId)
+        : [...current.categories, categoryId],
+    }));
+  };
+
+  const selectDateRange = (kind: EventDateRangeKind) => {
+    if (kind === 'custom') {
+      setShowCustomRange(true);
+      return;
+    }
+    setFilters((current) => ({ ...current, dateRange: { kind } }));
+  };
+
+  // Label for the custom chip once dates are chosen, e.g. "3 Mar – 20 Mar"
+  const customRangeLabel = useMemo(() => {
+    if (filters.dateRange.kind !== 'custom') return null;
+    const bounds = getDateRangeBounds(filters.dateRange, getZonedToday(MOSQUE_TZ));
+    if (!bounds) return null;
+    const short = (day: CalendarDay) => new Date(Date.UTC(day.year, day.month - 1, day.day))
+      .toLocaleDateString('en-AU', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+    return `${short(bounds.from)} – ${short(bounds.to)}`;
+  }, [filters.dateRange, MOSQUE_TZ]);
+
+  // The custom range sheet starts from the current range, or the next (or last) 30 days
+  const customRangeDefaults = useMemo(() => {
+    const today = getZonedToday(MOSQUE_TZ);
+    if (filters.dateRange.kind === 'custom' && filters.dateRange.from && filters.dateRange.to) {
+      return { from: filters.dateRange.from, to: filters.dateRange.to };
+    }
+    return showPast
+      ? { from: formatDayKey(addDays(today, -30)), to: formatDayKey(today) }
+      : { from: formatDayKey(today), to: formatDayKey(addDays(today, 30)) };
+  }, [filters.dateRange, MOSQUE_TZ, showPast]);
 
   // Group events by day (section headers) using `event.date` only to avoid drift
   const sections = useMemo(() => {
-    const map = new Map<string, { date: Date; timestamp: FirebaseFirestoreTypes.Timestamp; items: any[] }>();
+    const map = new Map<string, { day: CalendarDay; timestamp: FirebaseFirestoreTypes.Timestamp; items: any[] }>();
     filteredEvents.forEach((ev: any) => {
       const baseTs = ev.date as FirebaseFirestoreTypes.Timestamp;
-      const d = baseTs.toDate();
       // Build a grouping key using the mosque timezone calendar day
-      const parts = d.toLocaleString('en-US', {
-        timeZone: MOSQUE_TZ,
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour12: false
-      }).split(/[\,\s:]+/);
-      const [m, day, y] = parts[0].split('/');
-      const keyDate = new Date(parseInt(y, 10), parseInt(m, 10) - 1, parseInt(day, 10), 0, 0, 0);
-      const key = `${y}-${m}-${day}`;
-      if (!map.has(key)) map.set(key, { date: keyDate, timestamp: baseTs, items: [] });
+      const day = getZonedToday(MOSQUE_TZ, baseTs.toDate());
+      const key = formatDayKey(day);
+      if (!map.has(key)) map.set(key, { day, timestamp: baseTs, items: [] });
       map.get(key)!.items.push(ev);
     });
-    const arr = Array.from(map.values()).sort(
-      (a, b) => a.date.getTime() - b.date.getTime()
-    );
+    const direction = showPast ? -1 : 1;
+    const arr = Array.from(map.entries())
+      .sort(([a], [b]) => direction * a.localeCompare(b))
+      .map(([, section]) => section);
     return arr;
-  }, [filteredEvents, MOSQUE_TZ]);
+  }, [filteredEvents, MOSQUE_TZ, showPast]);
+
+  // All upcoming events (not just the selected category) as one .ics file, leaving out cancelled sessions
+  const handleExportAll = useCallback(async () => {
+    try {
+      await CalendarExportService.shareEvents(upcomingEvents.filter((event) => !event.is_cancelled), mosqueSettings);
+    } catch (err) {
+      Alert.alert("Couldn't export events", err instanceof Error ? err.message : 'Please try again.');
+    }
+  }, [upcomingEvents, mosqueSettings]);
 
   // Build data for SectionList (sticky headers)
   const sectionListData = useMemo(() => {
+    const hijriOffset = getHijriOffsetDays(mosqueSettings);
     return sections.map((s) => ({
-      title: s.date.toLocaleDateString('en-US', {
-        weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
-        timeZone: MOSQUE_TZ,
-      }),
-      date: s.date,
+      title: orderDates(
+        formatDate(s.day),
+        formatHijriDate(gregorianToHijri(s.day, hijriOffset), { withYear: false })
+      ).join(' · '),
+      day: s.day,
       relBadge: getRelativeBadge(s.timestamp),
       data: s.items,
     }));
-  }, [sections, MOSQUE_TZ, getRelativeBadge]);
+  }, [sections, mosqueSettings, getRelativeBadge, formatDate, orderDates]);
 
   return (
     <View style={styles.container}>
@@ -158,45 +265,193 @@ export default function EventsScreen(): React.JSX.Element {
           color="rgba(255,255,255,0.7)"
         />
         <SafeAreaView edges={['top']}>
+          <View style={styles.headerTop}>
+            {!showIslamicDates && (
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => setViewMode(showMonth ? 'list' : 'month')}
+                accessibilityRole="button"
+                accessibilityLabel={showMonth ? 'Show list' : 'Show month'}
+              >
+                <Ionicons name={showMonth ? 'list-outline' : 'grid-outline'} size={24} color={theme.colors.text.header} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => router.push('/event-reminders' as Href)}
+              accessibilityRole="button"
+              accessibilityLabel="My reminders"
+            >
+              <Ionicons name="notifications-outline" size={24} color={theme.colors.text.header} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => router.push('/my-rsvps' as Href)}
+              accessibilityRole="button"
+              accessibilityLabel="My RSVPs"
+            >
+              <Ionicons name="people-outline" size={24} color={theme.colors.text.header} />
+            </TouchableOpacity>
+          </View>
           <View style={styles.headerContent}>
             <Text style={styles.headerTitle}>
               {mosqueSettings?.name || 'Al Ansar Masjid Yagoona'}
             </Text>
             <View style={styles.headerSubtitleRow}>
               <Ionicons name="calendar" size={16} color={theme.colors.text.header} style={{ marginRight: 6 }} />
-              <Text style={styles.headerSubtitle}>Upcoming Events</Text>
+              <Text style={styles.headerSubtitle}>
+                {showIslamicDates ? 'Islamic Calendar' : showMonth ? 'Month View' : showPast ? 'Past Events' : 'Upcoming Events'}
+              </Text>
             </View>
           </View>
         </SafeAreaView>
       </LinearGradient>
 
-      {/* Category Filter - Only show if we have real category data */}
-      {hasRealData && (
-        <View style={styles.categoryFilterWrapper}>
-          <ScrollView 
-            horizontal 
-            showsHorizontalScrollIndicator={false} 
-            contentContainerStyle={styles.categoryFilterContent}
-          >
-            {categoriesLoading ? (
-              <Text style={styles.categoryButtonText}>Loading categories...</Text>
-            ) : (
-              categoryFilters.map(cat => (
+      <PillToggle
+        options={[
+          { key: 'upcoming', label: 'Upcoming' },
+          { key: 'past', label: 'Past' },
+        ]}
+        value={segment}
+        onChange={(key) => {
+          setSegment(key as EventsSegment);
+          // Leave the Islamic calendar and month view to show the chosen list
+          setShowIslamicDates(false);
+          setViewMode('list');
+        }}
+        style={styles.segmentToggle}
+      />
+
+      {/* Category Filter - categories only show if we have real category data */}
+      <View style={styles.categoryFilterWrapper}>
+        <ScrollView 
+          horizontal 
+          showsHorizontalScrollIndicator={false} 
+          contentContainerStyle={styles.categoryFilterContent}
+        >
+          <PillButton
+            label="All"
+            selected={!showIslamicDates && filters.categories.length === 0}
+            onPress={() => {
+              setShowIslamicDates(false);
+              setFilters((current) => ({ ...current, categories: [] }));
+            }}
+          />
+          {categoryFilters.map(cat => (
+            <PillButton
+              key={cat.id}
+              label={cat.label}
+              selected={!showIslamicDates && filters.categories.includes(cat.id)}
+              onPress={() => toggleCategory(cat.id)}
+            />
+          ))}
+          <PillButton
+            label="Islamic Dates"
+            selected={showIslamicDates}
+            onPress={() => setShowIslamicDates(true)}
+          />
+        </ScrollView>
+      </View>
+
+      {/* Search and date range */}
+      {!showIslamicDates && (
+        <View style={styles.searchSection}>
+          <View style={styles.searchRow}>
+            <View style={styles.searchBox}>
+              <Ionicons name="search" size={18} color={theme.colors.text.muted} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search title, speaker, location…"
+                placeholderTextColor={theme.colors.text.muted}
+                value={filters.query}
+                onChangeText={(query) => setFilters((current) => ({ ...current, query }))}
+                autoCorrect={false}
+                returnKeyType="search"
+                clearButtonMode="while-editing"
+                numberOfLines={1}
+                accessibilityLabel="Search events"
+              />
+              {filters.query !== '' && (
+                <TouchableOpacity
+                  onPress={() => setFilters((current) => ({ ...current, query: '' }))}
+                  accessibilityRole="button"
+                  accessibilityLabel="Clear search"
+                >
+                  <Ionicons name="close-circle" size={18} color={theme.colors.text.muted} />
+                </TouchableOpacity>
+              )}
+            </View>
+            <TouchableOpacity
+              style={[styles.dateFilterButton, filters.dateRange.kind !== 'any' && styles.dateFilterButtonActive]}
+              onPress={() => setShowDateFilters((visible) => !visible)}
+              accessibilityRole="button"
+              accessibilityLabel="Filter by date"
+              accessibilityState={{ expanded: showDateFilters }}
+            >
+              <Ionicons
+                name="calendar-outline"
+                size={20}
+                color={filters.dateRange.kind !== 'any' ? theme.colors.text.header : theme.colors.brand.navy[700]}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {(showDateFilters || filters.dateRange.kind !== 'any') && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.dateFilterContent}
+            >
+              {DATE_RANGE_OPTIONS.map((option) => (
                 <PillButton
-                  key={cat.id}
-                  label={cat.label}
-                  selected={selectedCategory === cat.id}
-                  onPress={() => setSelectedCategory(cat.id)}
+                  key={option.kind}
+                  label={option.kind === 'custom' && customRangeLabel ? customRangeLabel : option.label}
+                  selected={filters.dateRange.kind === option.kind}
+                  onPress={() => selectDateRange(option.kind)}
                 />
-              ))
-            )}
-          </ScrollView>
+              ))}
+            </ScrollView>
+          )}
+
+          {filtersActive && (
+            <View style={styles.resultsRow}>
+              <Text style={styles.resultsText}>
+                {filteredEvents.length} {filteredEvents.length === 1 ? 'event' : 'events'}
+                {showPast && hasMorePastEvents ? ' in loaded past events' : ''}
+              </Text>
+              <TouchableOpacity onPress={() => setFilters(EMPTY_EVENT_FILTERS)} accessibilityRole="button">
+                <Text style={styles.exportButtonText}>Clear filters</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       )}
 
       {/* Events List */}
       <View style={styles.eventsContainer}>
-        {eventsLoading ? (
+        {showIslamicDates ? (
+          <IslamicCalendarList mosqueSettings={mosqueSettings} />
+        ) : showMonth ? (
+          <EventMonthGrid
+            events={gridEvents}
+            categories={categories}
+            mosqueSettings={mosqueSettings}
+            month={gridMonth}
+            onChangeMonth={setGridMonth}
+            onPressEvent={(event) => router.push(getEventPath(event.id) as Href)}
+            footer={needsOlderEvents && pastError ? (
+              <TouchableOpacity
+                style={[styles.exportButton, styles.loadOlderButton]}
+                onPress={loadMorePastEvents}
+                accessibilityRole="button"
+              >
+                <Text style={styles.exportButtonText}>{"Couldn't load older events. Try again"}</Text>
+              </TouchableOpacity>
+            ) : needsOlderEvents || (upcomingLoading && upcomingEvents.length === 0) ? (
+              <ActivityIndicator color={theme.colors.accent.blue} style={styles.gridLoading} />
+            ) : null}
+          />
+        ) : eventsLoading ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyStateText}>Loading events...</Text>
           </View>
@@ -206,6 +461,21 @@ export default function EventsScreen(): React.JSX.Element {
             keyExtractor={(item: any) => item.id}
             contentContainerStyle={styles.eventsScrollContent}
             stickySectionHeadersEnabled
+            ListHeaderComponent={
+              <>
+                <DataIssueBanner sources={EVENT_DATA_SOURCES} />
+                {!showPast && upcomingEvents.length > 0 && (
+                  <TouchableOpacity
+                    style={styles.exportButton}
+                    onPress={handleExportAll}
+                    accessibilityRole="button"
+                  >
+                    <Ionicons name="calendar-outline" size={16} color={theme.colors.accent.blue} />
+                    <Text style={styles.exportButtonText}>Export all upcoming</Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            }
             renderSectionHeader={({ section }: any) => (
               <SectionHeader
                 title={section.title}
@@ -219,90 +489,198 @@ export default function EventsScreen(): React.JSX.Element {
               const parts = getDateParts(event.date);
               const relEvent = getRelativeBadge(event.date);
               const showPerEventBadge = !section.relBadge && relEvent;
+              const hasReminder = !!getReminderForEvent(event.id);
               return (
-                <Card style={styles.eventCard}>
-                  {/* Event Image (if provided) */}
-                  {event.image_url && (
-                    <Image
-                      source={{ uri: event.image_url }}
-                      style={styles.eventImage}
-                      resizeMode="cover"
-                    />
-                  )}
-                  <View style={styles.cardRow}>
-                    {/* Date badge */}
-                    <View style={[styles.dateBadge, relEvent ? styles.dateBadgeHighlight : undefined]}>
-                      <Text style={styles.dateWeekday}>{parts.weekday.toUpperCase()}</Text>
-                      <Text style={styles.dateDay}>{parts.day}</Text>
-                      <Text style={styles.dateMonth}>{parts.month.toUpperCase()}</Text>
-                    </View>
-                    {/* Content */}
-                    <View style={styles.cardContent}>
-                      <View style={styles.titleRow}>
-                        <Text style={styles.eventTitle} numberOfLines={2}>{event.title}</Text>
-                        <Badge
-                          label={getCategoryLabel(event.category)}
-                          bgColor={categoryColors.bg}
-                          textColor={categoryColors.text}
-                        />
-                      </View>
-                      {/* Prominent time row */}
-                      <View style={styles.timeRow}>
-                        <View style={{ flex: 1 }} />
-                        <View style={styles.timeBadge}>
-                          <Ionicons name="time-outline" size={16} color={theme.colors.accent.blue} />
-                          <Text style={styles.timeBadgeText}>{event.time}</Text>
-                        </View>
+                <TouchableOpacity
+                  activeOpacity={0.8}
+                  onPress={() => router.push(getEventPath(event.id) as Href)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${event.title}, ${formatTime(event.time)}`}
+                >
+                  <Card style={styles.eventCard}>
+                    {/* Event Image (if provided) */}
+                    {event.image_url && (
+                      <Image
+                        source={{ uri: event.image_url }}
+                        style={styles.eventImage}
+                        resizeMode="cover"
+                      />
+                    )}
+                    <View style={styles.cardRow}>
+                      {/* Date badge */}
+                      <View style={[styles.dateBadge, relEvent ? styles.dateBadgeHighlight : undefined]}>
+                        <Text style={styles.dateWeekday}>{parts.weekday.toUpperCase()}</Text>
+                        <Text style={styles.dateDay}>{parts.day}</Text>
+                        <Text style={styles.dateMonth}>{parts.month.toUpperCase()}</Text>
                       </View>
-                      {showPerEventBadge && (
-                        <View style={styles.metaRow}>
-                          <Badge label={relEvent.label} bgColor={relEvent.bg} textColor={relEvent.text} />
-                        </View>
-                      )}
-                      {event.location && (
-                        <View style={styles.metaItem}>
-                          <Ionicons name="location-outline" size={16} color={theme.colors.text.muted} />
-                          <Text style={styles.metaText}>{event.location}</Text>
+                      {/* Content */}
+                      <View style={styles.cardContent}>
+                        <View style={styles.titleRow}>
+                          <Text style={[styles.eventTitle, event.is_cancelled && styles.cancelledTitle]} numberOfLines={2}>
+                            {event.title}
+                          </Text>
+                          <Badge
+                            label={getCategoryLabel(event.category)}
+                            bgColor={categoryColors.bg}
+                            textColor={categoryColors.text}
+                          />
                         </View>
-                      )}
-                      {event.speaker && (
-                        <View style={styles.metaItem}>
-                          <Ionicons name="person-outline" size={16} color={theme.colors.text.muted} />
-                          <Text style={styles.metaText}>Speaker: {event.speaker}</Text>
+                        {/* Prominent time row */}
+                        <View style={styles.timeRow}>
+                          <View style={{ flex: 1 }}>
+                            {/* Occurrences of a series: flag cancelled sessions, otherwise note that it repeats */}
+                            {event.is_cancelled ? (
+                              <Badge
+                                label="Cancelled"
+                                bgColor={theme.colors.error[100]}
+                                textColor={theme.colors.error[500]}
+                                style={styles.cancelledBadge}
+                              />
+                            ) : event.series_id ? (
+                              <View style={styles.metaItem}>
+                                <Ionicons name="repeat-outline" size={16} color={theme.colors.text.muted} />
+                                <Text style={styles.metaText}>Repeats</Text>
+                              </View>
+                            ) : null}
+                          </View>
+                          {!showPast && EventReminderScheduler.canRemind(event, MOSQUE_TZ) && (
+                            <TouchableOpacity
+                              style={styles.reminderButton}
+                              onPress={() => setReminderEvent(event)}
+                              hitSlop={8}
+                              accessibilityRole="button"
+                              accessibilityLabel={hasReminder ? 'Edit reminder' : 'Remind me'}
+                            >
+                              <Ionicons
+                                name={hasReminder ? 'notifications' : 'notifications-outline'}
+                                size={18}
+                                color={theme.colors.accent.blue}
+                              />
+                            </TouchableOpacity>
+                          )}
+                          <View style={styles.timeBadge}>
+                            <Ionicons name="time-outline" size={16} color={theme.colors.accent.blue} />
+                            <Text style={styles.timeBadgeText}>{formatTime(event.time)}</Text>
+                          </View>
                         </View>
-                      )}
-                      {event.rsvp_enabled && (
-                        <View style={styles.metaItem}>
-                          <Ionicons name="people-outline" size={16} color={theme.colors.text.muted} />
-                          <Text style={styles.metaText}>
-                            {event.rsvp_count || 0} / {event.rsvp_limit || 'Unlimited'} RSVPs
+                        {showPerEventBadge && (
+                          <View style={styles.metaRow}>
+                            <Badge label={relEvent.label} bgColor={relEvent.bg} textColor={relEvent.text} />
+                          </View>
+                        )}
+                        {event.location && (
+                          <View style={styles.metaItem}>
+                            <Ionicons name="location-outline" size={16} color={theme.colors.text.muted} />
+                            <Text style={styles.metaText}>{event.location}</Text>
+                          </View>
+                        )}
+                        {event.speaker && (
+                          <View style={styles.metaItem}>
+                            <Ionicons name="person-outline" size={16} color={theme.colors.text.muted} />
+                            <Text style={styles.metaText}>Speaker: {event.speaker}</Text>
+                          </View>
+                        )}
+                        {event.rsvp_enabled && (
+                          <View style={styles.metaItem}>
+                            <Ionicons name="people-outline" size={16} color={theme.colors.text.muted} />
+                            <Text style={styles.metaText}>
+                              {event.rsvp_count || 0} / {event.rsvp_limit || 'Unlimited'} RSVPs
+                            </Text>
+                          </View>
+                        )}
+                        {event.description ? (
+                          <Text style={styles.eventDescription} numberOfLines={3}>
+                            {event.description}
                           </Text>
-                        </View>
-                      )}
-                      {event.description ? (
-                        <Text style={styles.eventDescription} numberOfLines={3}>
-                          {event.description}
-                        </Text>
-                      ) : null}
+                        ) : null}
+                      </View>
                     </View>
-                  </View>
-                </Card>
+                  </Card>
+                </TouchableOpacity>
               );
             }}
-            ListEmptyComponent={
+            onEndReached={showPast ? loadMorePastEvents : undefined}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={showPast && pastEvents.length > 0 ? (
+              <View style={styles.listFooter}>
+                {pastLoadingMore ? (
+                  <ActivityIndicator color={theme.colors.accent.blue} />
+                ) : hasMorePastEvents ? (
+                  <TouchableOpacity
+                    style={[styles.exportButton, styles.loadOlderButton]}
+                    onPress={loadMorePastEvents}
+                    accessibilityRole="button"
+                  >
+                    <Ionicons name="time-outline" size={16} color={theme.colors.accent.blue} />
+                    <Text style={styles.exportButtonText}>
+                      {pastError ? "Couldn't load more. Try again" : 'Load older events'}
+                    </Text>
+                  </TouchableOpacity>
+                ) : (
+                  <Text style={styles.emptyStateText}>No older events</Text>
+                )}
+              </View>
+            ) : null}
+            ListEmptyComponent={filtersActive && listEvents.length > 0 ? (
               <View style={styles.emptyState}>
-                <Ionicons name="calendar-outline" size={64} color={theme.colors.accent.blue} />
-                <Text style={styles.emptyStateTitle}>No Upcoming Events</Text>
+                <Ionicons name="search-outline" size={64} color={theme.colors.accent.blue} />
+                <Text style={styles.emptyStateTitle}>No Matching Events</Text>
                 <Text style={styles.emptyStateText}>
-                  {selectedCategory === 'all'
-                    ? 'Check back soon for new events!'
-                    : `No upcoming ${getCategoryLabel(selectedCategory)} events`}
+                  {showPast && hasMorePastEvents
+                    ? 'Nothing in the past events loaded so far. Load older events to search further back.'
+                    : 'Try a different search, category or date range.'}
                 </Text>
+                {showPast && hasMorePastEvents && (
+                  <TouchableOpacity
+                    style={[styles.exportButton, styles.loadOlderButton]}
+                    onPress={loadMorePastEvents}
+                    disabled={pastLoadingMore}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.exportButtonText}>{pastLoadingMore ? 'Loading…' : 'Load older events'}</Text>
+                  </TouchableOpacity>
+                )}
               </View>
-            }
+            ) : showPast ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="time-outline" size={64} color={theme.colors.accent.blue} />
+                <Text style={styles.emptyStateTitle}>No Past Events</Text>
+                <Text style={styles.emptyStateText}>
+                  {pastError
+                    ? 'Past events couldn\'t be loaded. Please check your internet connection.'
+                    : 'Events will appear here once they have taken place.'}
+                </Text>
+              </View>
+            ) : (
+              <View style={styles.emptyState}>
+                <Ionicons name="calendar-outline" size={64} color={theme.colors.accent.blue} />
+                <Text style={styles.emptyStateTitle}>No Upcoming Events</Text>
+                <Text style={styles.emptyStateText}>Check back soon for new events!</Text>
+              </View>
+            )}
           />
         )}
       </View>
+
+      <DateRangeModal
+        visible={showCustomRange}
+        initialFrom={customRangeDefaults.from}
+        initialTo={customRangeDefaults.to}
+        onApply={(from, to) => {
+          setFilters((current) => ({ ...current, dateRange: { kind: 'custom', from, to } }));
+          setShowCustomRange(false);
+        }}
+        onClose={() => setShowCustomRange(false)}
+      />
+      {reminderEvent && (
+        <EventReminderModal
+          visible
+          event={reminderEvent}
+          timeZone={MOSQUE_TZ}
+          reminder={getReminderForEvent(reminderEvent.id)}
+          onClose={() => setReminderEvent(null)}
+        />
+      )}
     </View>
   );
 }
@@ -325,6 +703,18 @@ const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => nu
     top: 0,
     bottom: 0,
   },
+  headerTop: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: ms(8, 0.1),
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.sm,
+  },
+  headerButton: {
+    padding: ms(6, 0.1),
+    borderRadius: theme.spacing.lg,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
   headerContent: {
     alignItems: 'center',
     paddingHorizontal: theme.spacing.lg,
@@ -348,12 +738,67 @@ const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => nu
     alignItems: 'center',
     justifyContent: 'center',
   },
+  searchSection: {
+    marginHorizontal: theme.spacing.lg,
+    marginBottom: ms(8, 0.1),
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(8, 0.1),
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(8, 0.1),
+    backgroundColor: theme.colors.surface.card,
+    borderRadius: theme.radius.pill,
+    paddingHorizontal: theme.spacing.md,
+    minHeight: ms(44, 0.1),
+    ...theme.shadow.soft,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: ms(15, 0.2) * fontScale,
+    color: theme.colors.text.strong,
+    paddingVertical: ms(8, 0.1),
+  },
+  dateFilterButton: {
+    width: ms(44, 0.1),
+    height: ms(44, 0.1),
+    borderRadius: ms(22, 0.1),
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.surface.card,
+    ...theme.shadow.soft,
+  },
+  dateFilterButtonActive: {
+    backgroundColor: theme.colors.brand.navy[700],
+  },
+  dateFilterContent: {
+    gap: ms(6, 0.1),
+    paddingTop: ms(8, 0.1),
+  },
+  resultsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: ms(8, 0.1),
+  },
+  resultsText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+  },
+  segmentToggle: {
+    marginTop: ms(-12, 0.1),
+    marginBottom: ms(10, 0.1),
+  },
   categoryFilterWrapper: {
     backgroundColor: theme.colors.surface.card,
     marginHorizontal: theme.spacing.lg,
     borderRadius: theme.radius.pill,
     padding: ms(3, 0.1),
-    marginTop: ms(-12, 0.1),
     marginBottom: ms(12, 0.1),
     ...theme.shadow.soft,
   },
@@ -400,6 +845,29 @@ const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => nu
     color: theme.colors.text.muted,
     textAlign: 'center',
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: ms(6, 0.1),
+    paddingVertical: ms(4, 0.1),
+  },
+  loadOlderButton: {
+    alignSelf: 'center',
+    marginTop: ms(12, 0.1),
+  },
+  gridLoading: {
+    marginBottom: ms(12, 0.1),
+  },
+  listFooter: {
+    alignItems: 'center',
+    paddingVertical: ms(16, 0.1),
+  },
+  exportButtonText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.accent.blue,
+  },
   sectionHeader: {
     marginTop: ms(8, 0.1),
     marginBottom: ms(6, 0.1),
@@ -475,6 +943,13 @@ const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => nu
     color: theme.colors.text.strong,
     marginRight: ms(8, 0.1),
   },
+  cancelledTitle: {
+    textDecorationLine: 'line-through',
+    color: theme.colors.text.muted,
+  },
+  cancelledBadge: {
+    alignSelf: 'flex-start',
+  },
   metaRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -487,6 +962,10 @@ const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => nu
     justifyContent: 'flex-end',
     marginBottom: ms(6, 0.1),
   },
+  reminderButton: {
+    padding: ms(6, 0.1),
+    marginRight: ms(6, 0.1),
+  },
   timeBadge: {
     flexDirection: 'row',
     alignItems: 'center',
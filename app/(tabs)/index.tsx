@@ -14,7 +14,11 @@ import {
     useWindowDimensions,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import CurrentPrayerCard from "../../components/CurrentPrayerCard";
 import PatternOverlay from "../../components/PatternOverlay";
+import RamadanCard from "../../components/RamadanCard";
+import TravelModeBanner from "../../components/TravelModeBanner";
+import DataIssueBanner from "../../components/DataIssueBanner";
 import NextBanner from "../../components/ui/NextBanner";
 import PillToggle from "../../components/ui/PillToggle";
 import UpdatingBanner from "../../components/ui/UpdatingBanner";
@@ -24,17 +28,36 @@ import EmptyState from "../../components/EmptyState";
 import LoadingScreen from "../../components/LoadingScreen";
 
 // Import theme context
+import { useDisplayPreferences } from "../../contexts/DisplayPreferencesContext";
 import { useTheme } from "../../contexts/ThemeContext";
 
 // Import custom hooks
+import { useCurrentPrayerKey } from "../../hooks/useCurrentPrayer";
 import { useFirebaseData } from "../../hooks/useFirebaseData";
+import { useResolvedPrayerTimes } from "../../hooks/useResolvedPrayerTimes";
 import { useResponsive } from "../../hooks/useResponsive";
+import { useTravelMode } from "../../hooks/useTravelMode";
 
 // Import types and utility
-import { Prayer, calculateIqamaTime } from "../../types";
+import { Prayer, PrayerKey } from "../../types";
+import { DataSource } from "../../utils/dataIssues";
+import { AdhanSource, MakruhKey, TimeWindow, getMosqueTimezone } from "../../utils/prayerCalculation";
+import { formatHijriDate, getHijriDate, getHijriOffsetDays } from "../../utils/hijri";
+import { getRamadanDay } from "../../utils/ramadan";
+import { formatDayKey, getMinutesUntil, getZonedNow, getZonedToday, parseTimeToMinutes } from "../../utils/time";
 
 type ViewType = "prayer" | "jumuah";
 
+// Documents whose validation issues are shown on each view
+const PRAYER_DATA_SOURCES: readonly DataSource[] = ["prayerTimes", "mosqueSettings"];
+const JUMUAH_DATA_SOURCES: readonly DataSource[] = ["jumuahTimes"];
+
+const MAKRUH_LABELS: Record<MakruhKey, string> = {
+  sunrise: "Sunrise",
+  zawal: "Zawal",
+  sunset: "Sunset",
+};
+
 const getOrdinalSuffix = (num: number): string => {
   const j = num % 10;
   const k = num % 100;
@@ -46,6 +69,7 @@ const getOrdinalSuffix = (num: number): string => {
 
 export default function HomeScreen(): React.JSX.Element {
   const theme = useTheme();
+  const { formatTime, formatInstantTime, formatDate, orderDates } = useDisplayPreferences();
   const { ms, width, height } = useResponsive(); // Get responsive scaling function
   const { fontScale } = useWindowDimensions(); // Get accessibility font scaling
   const [currentTime, setCurrentTime] = useState<Date>(new Date());
@@ -53,6 +77,17 @@ export default function HomeScreen(): React.JSX.Element {
 
   // Load data from Firebase using custom hooks
   const { prayerTimes, jumuahTimes, mosqueSettings, loading, updating, error } = useFirebaseData();
+  // Travel mode swaps the masjid for the device location; its times are calculated only
+  const travel = useTravelMode(mosqueSettings);
+  const travelActive = !!travel.travelSettings;
+  const displaySettings = travel.travelSettings ?? mosqueSettings;
+  const displayPrayerTimes = travelActive ? null : prayerTimes;
+  // Today's adhan calculated on device, with admin overrides layered on top
+  const { today: todayTimes, sunTimes, upcomingIqamaChange, isComputed } = useResolvedPrayerTimes(displayPrayerTimes, displaySettings);
+  // Ramadan mode switches on by the Hijri month of today's date
+  const ramadan = useMemo(() => getRamadanDay(displaySettings, todayTimes), [displaySettings, todayTimes]);
+  // Prayer between adhan and the end of its congregation window; the countdown ticks inside CurrentPrayerCard
+  const currentPrayer = useCurrentPrayerKey(todayTimes, displaySettings);
   
   // Debug: Log screen dimensions and scaling
   useEffect(() => {
@@ -69,7 +104,9 @@ export default function HomeScreen(): React.JSX.Element {
   const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
 
 
-  // Format timestamp with both date and time for better context
+  const MOSQUE_TZ = getMosqueTimezone(displaySettings);
+
+  // Format timestamp with both date and time (in the mosque timezone) for better context
   const formatDateTimeDisplay = (timestamp?: FirebaseFirestoreTypes.Timestamp): string | null => {
     if (!timestamp) return null;
     try {
@@ -92,25 +129,15 @@ export default function HomeScreen(): React.JSX.Element {
         return null;
       }
       
-      const d = String(date.getDate()).padStart(2, '0');
-      const m = String(date.getMonth() + 1).padStart(2, '0');
-      const y = date.getFullYear();
-      const hours = date.getHours();
-      const minutes = String(date.getMinutes()).padStart(2, '0');
-      const ampm = hours >= 12 ? 'PM' : 'AM';
-      const displayHours = hours % 12 || 12;
-      return `${d}-${m}-${y} at ${displayHours}:${minutes} ${ampm}`;
+      return `${formatDate(getZonedToday(MOSQUE_TZ, date), { weekday: false })} at ${formatInstantTime(date, MOSQUE_TZ)}`;
     } catch {
       return null;
     }
   };
 
-  // Helper to get start of day for accurate date-only comparisons
-  const getStartOfDay = (date: Date): Date => {
-    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
-  };
-
   const isStale = (() => {
+    // Calculated times are always for today; only published times can go stale
+    if (isComputed) return false;
     const last = prayerTimes?.last_updated || mosqueSettings?.last_updated;
     if (!last) return false;
     
@@ -137,14 +164,9 @@ export default function HomeScreen(): React.JSX.Element {
         return false;
       }
       
-      // Only consider stale if last_updated is before today (not just different)
-      const today = new Date();
-      
-      // Set both to start of day for accurate day comparison
-      const lastDateStartOfDay = getStartOfDay(lastDate);
-      const todayStartOfDay = getStartOfDay(today);
-      
-      return lastDateStartOfDay.getTime() < todayStartOfDay.getTime();
+      // Only consider stale if last_updated is before today (not just different),
+      // comparing calendar days in the mosque timezone
+      return formatDayKey(getZonedToday(MOSQUE_TZ, lastDate)) < formatDayKey(getZonedToday(MOSQUE_TZ));
     } catch (error) {
       console.error('Error checking staleness:', error);
       return false;
@@ -163,70 +185,16 @@ export default function HomeScreen(): React.JSX.Element {
     return () => clearInterval(timer);
   }, []);
 
-  // Format date
-  const formatDate = (date: Date): string => {
-    return date.toLocaleDateString("en-US", {
-      weekday: "long",
-      day: "2-digit",
-      month: "long",
-      year: "numeric",
-      timeZone: (mosqueSettings as any)?.timezone || "Australia/Sydney",
-    });
-  };
-
-  // Calculate Islamic (Hijri) date
+  // Calculate Islamic (Hijri) date, corrected for the masjid's moon sighting
   const getIslamicDate = (date: Date): string => {
-    try {
-      const islamicDate = new Intl.DateTimeFormat("en-US-u-ca-islamic", {
-        day: "numeric",
-        month: "long",
-        year: "numeric",
-        timeZone: (mosqueSettings as any)?.timezone || "Australia/Sydney",
-      }).format(date);
-
-      return islamicDate;
-    } catch (error) {
-      console.error("Error formatting Islamic date:", error);
-      return "";
-    }
-  };
-
-  // ====== Timezone-aware helpers (uses mosqueSettings.timezone when available) ======
-  const MOSQUE_TZ: string = (mosqueSettings as any)?.timezone || "Australia/Sydney";
-
-  // Get current wall-clock components using Intl parts
-  const getSydneyNowParts = (): { year: number; month: number; day: number; hour: number; minute: number } => {
-    const parts = new Intl.DateTimeFormat("en-AU", {
-      timeZone: MOSQUE_TZ,
-      year: "numeric",
-      month: "numeric",
-      day: "numeric",
-      hour: "numeric",
-      minute: "numeric",
-      hour12: false,
-    }).formatToParts(new Date());
-
-    const map: Record<string, number> = {} as any;
-    for (const p of parts) {
-      if (p.type === "year" || p.type === "month" || p.type === "day" || p.type === "hour" || p.type === "minute") {
-        map[p.type] = parseInt(p.value, 10);
-      }
-    }
-    return { year: map.year, month: map.month, day: map.day, hour: map.hour, minute: map.minute };
+    return formatHijriDate(getHijriDate(date, MOSQUE_TZ, getHijriOffsetDays(mosqueSettings)));
   };
 
-  // Parse a 12-hour time string like "5:30 PM" into minutes since midnight
-  const parseTimeToMinutes = (timeString: string | undefined): number | null => {
-    if (!timeString) return null;
-    const match = timeString.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
-    if (!match) return null;
-    let hours = parseInt(match[1], 10);
-    const minutes = parseInt(match[2], 10);
-    const period = match[3].toUpperCase();
-    if (period === "PM" && hours !== 12) hours += 12;
-    if (period === "AM" && hours === 12) hours = 0;
-    return hours * 60 + minutes;
-  };
+  // Gregorian and Hijri dates for the header, in the user's preferred order
+  const [primaryDate, secondaryDate] = orderDates(
+    formatDate(getZonedToday(MOSQUE_TZ, currentTime)),
+    getIslamicDate(currentTime)
+  );
 
   // Format a difference in minutes to "X Hours Y Minutes"
   const formatMinuteDiff = (diffMins: number): string => {
@@ -239,46 +207,82 @@ export default function HomeScreen(): React.JSX.Element {
   };
 
   // Get the displayed iqama time
-  const getDisplayedIqamaTime = (prayer: string): string => {
-    if (!prayerTimes) return "--:--";
+  const getDisplayedIqamaTime = (prayer: PrayerKey): string | undefined => {
+    return todayTimes?.iqama[prayer];
+  };
+
+  // Countdowns run to iqama at the masjid, or to adhan when travelling (there's no iqama)
+  const getCountdownTime = (prayer: PrayerKey): string | undefined => {
+    return travelActive ? todayTimes?.adhan[prayer] : getDisplayedIqamaTime(prayer);
+  };
 
-    const adhanTime = (prayerTimes as any)[`${prayer}_adhan`];
-    const iqamaType = (prayerTimes as any)[`${prayer}_iqama_type`] || "fixed";
-    const fixedIqama = (prayerTimes as any)[`${prayer}_iqama`];
-    const offset = (prayerTimes as any)[`${prayer}_iqama_offset`];
+  // Find the makruh window the current time falls in, if any
+  const getActiveMakruhWindow = (): (TimeWindow & { label: string }) | null => {
+    if (!sunTimes) return null;
+    const nowMinutes = getZonedNow(MOSQUE_TZ).minutes;
 
-    return calculateIqamaTime(adhanTime, iqamaType, fixedIqama, offset);
+    for (const key of Object.keys(MAKRUH_LABELS) as MakruhKey[]) {
+      const window = sunTimes.makruh[key];
+      const start = parseTimeToMinutes(window.start);
+      const end = parseTimeToMinutes(window.end);
+      if (start !== null && end !== null && nowMinutes >= start && nowMinutes < end) {
+        return { ...window, label: MAKRUH_LABELS[key] };
+      }
+    }
+    return null;
   };
 
-  // Calculate next prayer using Sydney timezone wall-clock
+  // Calculate next prayer using the mosque timezone wall-clock.
+  // Sunrise (end of Fajr) and the start of Duha count as upcoming times too.
   const getNextPrayer = (): { name: string; timeRemaining: string } | null => {
-    const { hour, minute } = getSydneyNowParts();
-    const nowMinutes = hour * 60 + minute;
+    const nowMinutes = getZonedNow(MOSQUE_TZ).minutes;
 
     const prayerKeys = ["fajr", "dhuhr", "asr", "maghrib", "isha"] as const;
-    const schedule = prayerKeys.map((key) => ({
-      name: key.charAt(0).toUpperCase() + key.slice(1),
-      minutes: parseTimeToMinutes(getDisplayedIqamaTime(key)),
-    })).filter((p) => p.minutes !== null) as { name: string; minutes: number }[];
+    const schedule = [
+      ...prayerKeys.map((key) => ({
+        name: key.charAt(0).toUpperCase() + key.slice(1),
+        minutes: parseTimeToMinutes(getCountdownTime(key)),
+      })),
+      { name: "Sunrise", minutes: parseTimeToMinutes(sunTimes?.sunrise) },
+      { name: "Duha", minutes: parseTimeToMinutes(sunTimes?.duha) },
+    ]
+      .filter((p) => p.minutes !== null)
+      .sort((a, b) => (a.minutes as number) - (b.minutes as number)) as { name: string; minutes: number }[];
 
     // Find the first prayer later today
     for (const p of schedule) {
       if (p.minutes > nowMinutes) {
-        const diff = p.minutes - nowMinutes;
-        return { name: p.name, timeRemaining: formatMinuteDiff(diff) };
+        return { name: p.name, timeRemaining: formatMinuteDiff(getMinutesUntil(p.minutes, MOSQUE_TZ)) };
       }
     }
 
     // Otherwise, next prayer is tomorrow's Fajr
-    const fajrMinutes = parseTimeToMinutes(getDisplayedIqamaTime("fajr"));
+    const fajrMinutes = parseTimeToMinutes(getCountdownTime("fajr"));
     if (fajrMinutes !== null) {
-      const diff = (24 * 60 - nowMinutes) + fajrMinutes;
-      return { name: "Fajr", timeRemaining: formatMinuteDiff(diff) };
+      return { name: "Fajr", timeRemaining: formatMinuteDiff(getMinutesUntil(fajrMinutes, MOSQUE_TZ)) };
     }
     return null;
   };
 
+  // Countdown to the end of suhoor or to iftar, whichever comes next
+  const getRamadanCountdown = (): string | null => {
+    if (!ramadan) return null;
+    const imsakMinutes = parseTimeToMinutes(ramadan.imsak);
+    const iftarMinutes = parseTimeToMinutes(ramadan.iftar);
+    if (imsakMinutes === null || iftarMinutes === null) return null;
+
+    const nowMinutes = getZonedNow(MOSQUE_TZ).minutes;
+
+    if (nowMinutes >= imsakMinutes && nowMinutes < iftarMinutes) {
+      return `Iftar in ${formatMinuteDiff(getMinutesUntil(iftarMinutes, MOSQUE_TZ))}`;
+    }
+    // Before dawn or after iftar, count down to suhoor (after iftar today's imsak is close enough)
+    return `Suhoor ends in ${formatMinuteDiff(getMinutesUntil(imsakMinutes, MOSQUE_TZ))}`;
+  };
+
   const nextPrayer = getNextPrayer();
+  const activeMakruh = getActiveMakruhWindow();
+  const ramadanCountdown = getRamadanCountdown();
 
   // Show loading screen ONLY if no cached data yet
   if (loading && !prayerTimes && !jumuahTimes && !mosqueSettings) {
@@ -286,41 +290,66 @@ export default function HomeScreen(): React.JSX.Element {
   }
 
   // Prayer times array
-  const prayers: (Prayer & { icon: string; showIqama: boolean })[] = [
+  const prayers: (Prayer & { icon: string; showIqama: boolean; adhanSource?: AdhanSource; note?: string })[] = [
     {
       name: "Fajr",
-      adhan: prayerTimes?.fajr_adhan,
+      adhan: todayTimes?.adhan.fajr,
       iqama: getDisplayedIqamaTime("fajr"),
+      adhanSource: todayTimes?.adhanSource.fajr,
       icon: "moon",
-      showIqama: true,
+      showIqama: !travelActive,
     },
+    // Sun-based markers only exist when the mosque coordinates are known
+    ...(sunTimes
+      ? [
+          {
+            name: "Sunrise",
+            adhan: sunTimes.sunrise,
+            iqama: undefined,
+            icon: "sunny",
+            showIqama: false,
+            note: "Fajr ends",
+          },
+          {
+            name: "Duha",
+            adhan: sunTimes.duha,
+            iqama: undefined,
+            icon: "partly-sunny-outline",
+            showIqama: false,
+          },
+        ]
+      : []),
     {
       name: "Dhuhr",
-      adhan: prayerTimes?.dhuhr_adhan,
+      adhan: todayTimes?.adhan.dhuhr,
       iqama: getDisplayedIqamaTime("dhuhr"),
+      adhanSource: todayTimes?.adhanSource.dhuhr,
       icon: "partly-sunny",
-      showIqama: true,
+      showIqama: !travelActive,
     },
     {
       name: "Asr",
-      adhan: prayerTimes?.asr_adhan,
+      adhan: todayTimes?.adhan.asr,
       iqama: getDisplayedIqamaTime("asr"),
+      adhanSource: todayTimes?.adhanSource.asr,
       icon: "sunny-outline",
-      showIqama: true,
+      showIqama: !travelActive,
     },
     {
       name: "Maghrib",
-      adhan: prayerTimes?.maghrib_adhan,
+      adhan: todayTimes?.adhan.maghrib,
       iqama: getDisplayedIqamaTime("maghrib"),
+      adhanSource: todayTimes?.adhanSource.maghrib,
       icon: "moon-outline",
-      showIqama: true,
+      showIqama: !travelActive,
     },
     {
       name: "Isha",
-      adhan: prayerTimes?.isha_adhan,
+      adhan: todayTimes?.adhan.isha,
       iqama: getDisplayedIqamaTime("isha"),
+      adhanSource: todayTimes?.adhanSource.isha,
       icon: "moon",
-      showIqama: true,
+      showIqama: !travelActive,
     },
   ];
 
@@ -368,8 +397,8 @@ export default function HomeScreen(): React.JSX.Element {
               >
                 {mosqueSettings?.name || "Al Ansar Masjid"}
               </Text>
-              <Text style={styles.currentDate}>{formatDate(currentTime)}</Text>
-              <Text style={styles.islamicDate}>{getIslamicDate(currentTime)}</Text>
+              <Text style={styles.currentDate}>{primaryDate}</Text>
+              <Text style={styles.islamicDate}>{secondaryDate}</Text>
             </View>
           </SafeAreaView>
         </LinearGradient>
@@ -388,10 +417,42 @@ export default function HomeScreen(): React.JSX.Element {
         {/* Prayer Times View */}
         {activeView === "prayer" && (
           <View style={styles.prayerCardsContainer}>
-            {nextPrayer && (
+            {(travel.enabled || travel.suggested) && (
+              <TravelModeBanner
+                variant={travel.enabled ? "active" : "suggest"}
+                placeName={travel.placeName}
+                distanceKm={travel.distanceKm}
+                timeZone={travel.travelSettings?.timezone}
+                isLocating={travel.isLocating}
+                error={travel.locationError}
+                onEnable={() => travel.setEnabled(true)}
+                onDisable={() => travel.setEnabled(false)}
+              />
+            )}
+            {!travelActive && (
+              <DataIssueBanner
+                sources={PRAYER_DATA_SOURCES}
+                fallbackLabel={prayerTimes ? "the last saved copy" : "calculated prayer times"}
+              />
+            )}
+            {ramadan && (
+              <>
+                {ramadanCountdown && <NextBanner icon="moon" text={ramadanCountdown} />}
+                <RamadanCard ramadan={ramadan} />
+              </>
+            )}
+            {currentPrayer ? (
+              <CurrentPrayerCard today={todayTimes} mosqueSettings={displaySettings} timeZone={MOSQUE_TZ} />
+            ) : nextPrayer && (
               <NextBanner text={`Next: ${nextPrayer.name} in ${nextPrayer.timeRemaining}`} />
             )}
-            {!loading && !prayerTimes ? (
+            {activeMakruh && (
+              <NextBanner
+                icon="alert-circle"
+                text={`Makruh time (${activeMakruh.label}) until ${formatTime(activeMakruh.end)}`}
+              />
+            )}
+            {!travelActive && !loading && !prayerTimes && !isComputed ? (
               <EmptyState
                 variant={error ? "error" : "offline"}
                 icon="time-outline"
@@ -403,10 +464,10 @@ export default function HomeScreen(): React.JSX.Element {
               <View style={[styles.tableRow, styles.tableHeaderRow, styles.tableRowDivider]}>
                 <View style={styles.rowLeft} />
                 <Text style={[styles.rowTime, styles.rowHeaderLabel]}>Adhan</Text>
-                <Text style={[styles.rowTime, styles.rowHeaderLabel]}>Iqama</Text>
+                <Text style={[styles.rowTime, styles.rowHeaderLabel]}>{travelActive ? "" : "Iqama"}</Text>
               </View>
               {/* Skeleton rows only when loading and NO cached data */}
-              {loading && !prayerTimes ? (
+              {!travelActive && loading && !prayerTimes ? (
                 [0,1,2,3,4].map((i) => (
                   <View key={`sk-${i}`} style={[styles.tableRow, styles.tableRowDivider]}> 
                     <View style={styles.rowLeft}>
@@ -419,7 +480,9 @@ export default function HomeScreen(): React.JSX.Element {
                 ))
               ) : (
               prayers.map((prayer, index) => {
-                const isNextPrayer = nextPrayer?.name === prayer.name;
+                // The prayer underway takes the highlight; otherwise the next one has it
+                const isCurrentPrayer = currentPrayer === prayer.name.toLowerCase();
+                const isNextPrayer = !currentPrayer && nextPrayer?.name === prayer.name;
                 const isLast = index === prayers.length - 1;
 
                 return (
@@ -428,35 +491,98 @@ export default function HomeScreen(): React.JSX.Element {
                     style={[
                       styles.tableRow,
                       isNextPrayer && styles.nextRow,
+                      isCurrentPrayer && styles.currentRow,
                       !isLast && styles.tableRowDivider,
                     ]}
                   >
                     <View style={styles.rowLeft}>
-                      <View style={[styles.iconCircleSmall, isNextPrayer && styles.iconCircleActive]}>
+                      <View style={[styles.iconCircleSmall, (isNextPrayer || isCurrentPrayer) && styles.iconCircleActive]}>
                         <Ionicons
                           name={prayer.icon as any}
                           size={18}
-                          color={isNextPrayer ? theme.colors.brand.gold[600] : theme.colors.accent.blue}
+                          color={isNextPrayer || isCurrentPrayer ? theme.colors.brand.gold[600] : theme.colors.accent.blue}
                         />
                       </View>
-                      <Text 
-                        style={[styles.rowName, isNextPrayer && styles.nextPrayerText]}
-                        numberOfLines={1}
-                        ellipsizeMode="tail"
+                      <View style={styles.rowNameContainer}>
+                        <Text 
+                          style={[styles.rowName, (isNextPrayer || isCurrentPrayer) && styles.nextPrayerText]}
+                          numberOfLines={1}
+                          ellipsizeMode="tail"
+                        >
+                          {prayer.name}
+                        </Text>
+                        {prayer.note && <Text style={styles.rowNote}>{prayer.note}</Text>}
+                      </View>
+                    </View>
+                    <View style={styles.rowTimeCell}>
+                      <Text
+                        style={[styles.rowTime, prayer.adhanSource === "override" && isComputed && styles.rowTimeOverride]}
+                        accessibilityLabel={`${prayer.name} adhan ${prayer.adhan || "unavailable"}${prayer.adhanSource === "override" && isComputed ? ", set by the masjid" : ""}`}
                       >
-                        {prayer.name}
+                        {formatTime(prayer.adhan)}
                       </Text>
+                      {prayer.adhanSource === "override" && isComputed && <View style={styles.overrideDot} />}
                     </View>
-                    <Text style={styles.rowTime}>{prayer.adhan || "--:--"}</Text>
                     <Text style={[styles.rowTime, styles.rowIqama]}>
-                      {prayer.showIqama ? prayer.iqama || "--:--" : ""}
+                      {prayer.showIqama ? formatTime(prayer.iqama) : ""}
                     </Text>
                   </View>
                 );
               })
               )}
+              {/* Forbidden (makruh) windows for voluntary prayer */}
+              {sunTimes && !(loading && !prayerTimes) && (
+                <View style={styles.makruhSection}>
+                  <Text style={styles.makruhTitle}>Makruh times · avoid voluntary prayer</Text>
+                  {(Object.keys(MAKRUH_LABELS) as MakruhKey[]).map((key) => (
+                    <View key={key} style={styles.makruhRow}>
+                      <Text style={[styles.makruhLabel, activeMakruh?.label === MAKRUH_LABELS[key] && styles.makruhActive]}>
+                        {MAKRUH_LABELS[key]}
+                      </Text>
+                      <Text style={[styles.makruhTime, activeMakruh?.label === MAKRUH_LABELS[key] && styles.makruhActive]}>
+                        {formatTime(sunTimes.makruh[key].start)} – {formatTime(sunTimes.makruh[key].end)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
             </View>
             )}
+            {/* Explain which adhan times were calculated and which were set by the masjid */}
+            {todayTimes && isComputed && (
+              <View style={styles.sourceLegend}>
+                {prayers.some((p) => p.adhanSource === "override") ? (
+                  <>
+                    <View style={styles.overrideDot} />
+                    <Text style={styles.sourceLegendText}>Adhan set by the masjid · others calculated</Text>
+                  </>
+                ) : (
+                  <Text style={styles.sourceLegendText}>
+                    {travelActive ? `Adhan times calculated for ${travel.placeName || "your location"}` : "Adhan times calculated for today"}
+                  </Text>
+                )}
+              </View>
+            )}
+            {/* Heads-up when the next iqama schedule starts within a week */}
+            {upcomingIqamaChange && (
+              <View style={styles.iqamaChangeBanner}>
+                <Ionicons name="swap-horizontal" size={16} color={theme.colors.brand.navy[600]} />
+                <Text style={styles.iqamaChangeText}>
+                  Iqama changes from {formatDate(upcomingIqamaChange, { year: false })}
+                </Text>
+              </View>
+            )}
+            {/* Link to the computed monthly / yearly timetable */}
+            <TouchableOpacity
+              style={styles.timetableLink}
+              onPress={() => router.push("/timetable")}
+              accessibilityRole="button"
+              accessibilityLabel="View monthly prayer timetable"
+            >
+              <Ionicons name="calendar-outline" size={18} color={theme.colors.brand.navy[600]} />
+              <Text style={styles.timetableLinkText}>Monthly Timetable</Text>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.text.muted} />
+            </TouchableOpacity>
             {/* Show subtle updating indicator below the table */}
             {updating && (prayerTimes || jumuahTimes || mosqueSettings) && (
               <View style={styles.updatingContainer}>
@@ -464,7 +590,7 @@ export default function HomeScreen(): React.JSX.Element {
               </View>
             )}
             {/* Staleness banner when data is old AND we're not currently updating */}
-            {!updating && isStale && prayerTimes && (
+            {!travelActive && !updating && isStale && prayerTimes && (
               <View style={styles.staleBanner}>
                 <Text style={styles.staleBannerText}>
                   Prayer times last updated on {formatDateTimeDisplay(prayerTimes?.last_updated || mosqueSettings?.last_updated) || 'a previous day'}.
@@ -478,6 +604,7 @@ export default function HomeScreen(): React.JSX.Element {
         {activeView === "jumuah" && (
           <View style={styles.jumuahCardsContainer}>
             {/* No staleness banner for Jumu'ah - times don't change daily */}
+            <DataIssueBanner sources={JUMUAH_DATA_SOURCES} />
             {/* Skeleton cards only when loading and NO cached data */}
             {loading && !jumuahTimes ? (
               [0].map((i) => (
@@ -512,7 +639,7 @@ export default function HomeScreen(): React.JSX.Element {
                   </View>
                   <View style={styles.jumuahTimeRow}>
                     <Text style={styles.jumuahLabel}>Khutbah</Text>
-                    <Text style={styles.jumuahTime}>{time.khutbah}</Text>
+                    <Text style={styles.jumuahTime}>{formatTime(time.khutbah)}</Text>
                   </View>
                 </View>
               ))
@@ -628,6 +755,11 @@ const createStyles = (theme: ReturnType<typeof useTheme>, ms: (size: number, fac
   nextRow: {
     backgroundColor: theme.colors.accent.amberSoft,
   },
+  currentRow: {
+    backgroundColor: theme.colors.accent.amberSoft,
+    borderLeftWidth: ms(4, 0.1),
+    borderLeftColor: theme.colors.brand.gold[600],
+  },
   rowLeft: {
     flex: 2,
     flexDirection: "row",
@@ -665,6 +797,71 @@ const createStyles = (theme: ReturnType<typeof useTheme>, ms: (size: number, fac
   rowIqama: {
     color: theme.colors.brand.navy[600],
   },
+  rowNameContainer: {
+    flex: 1,
+    flexShrink: 1,
+  },
+  rowNote: {
+    fontSize: ms(11, 0.3) * fontScale,
+    color: theme.colors.text.muted,
+  },
+  makruhSection: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border.base,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: ms(10, 0.1),
+    backgroundColor: theme.colors.surface.soft,
+  },
+  makruhTitle: {
+    fontSize: ms(12, 0.3) * fontScale,
+    fontWeight: "800",
+    color: theme.colors.text.muted,
+    marginBottom: ms(6, 0.1),
+  },
+  makruhRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: ms(3, 0.05),
+  },
+  makruhLabel: {
+    fontSize: ms(13, 0.3) * fontScale,
+    fontWeight: "600",
+    color: theme.colors.text.base,
+  },
+  makruhTime: {
+    fontSize: ms(13, 0.3) * fontScale,
+    fontWeight: "700",
+    color: theme.colors.text.base,
+  },
+  makruhActive: {
+    color: theme.colors.brand.gold[600],
+  },
+  rowTimeCell: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  rowTimeOverride: {
+    color: theme.colors.brand.gold[600],
+  },
+  overrideDot: {
+    width: ms(6, 0.1),
+    height: ms(6, 0.1),
+    borderRadius: ms(3, 0.1),
+    marginLeft: ms(4, 0.1),
+    backgroundColor: theme.colors.brand.gold[600],
+  },
+  sourceLegend: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: ms(4, 0.1),
+    marginTop: ms(8, 0.1),
+  },
+  sourceLegendText: {
+    fontSize: ms(11, 0.3) * fontScale,
+    color: theme.colors.text.muted,
+  },
   prayerCard: {
     backgroundColor: theme.colors.surface.base,
     borderRadius: ms(14, 0.1),
@@ -844,6 +1041,41 @@ const createStyles = (theme: ReturnType<typeof useTheme>, ms: (size: number, fac
     borderRadius: ms(6, 0.1),
     backgroundColor: theme.colors.surface.soft,
   },
+  iqamaChangeBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: ms(8, 0.1),
+    marginTop: ms(12, 0.1),
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: ms(10, 0.1),
+    backgroundColor: theme.colors.surface.soft,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border.base,
+  },
+  iqamaChangeText: {
+    flex: 1,
+    fontSize: ms(13, 0.3) * fontScale,
+    fontWeight: "700",
+    color: theme.colors.brand.navy[600],
+  },
+  timetableLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: ms(8, 0.1),
+    marginTop: ms(12, 0.1),
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: ms(12, 0.1),
+    backgroundColor: theme.colors.surface.base,
+    borderRadius: theme.radius.md,
+    ...theme.shadow.soft,
+  },
+  timetableLinkText: {
+    flex: 1,
+    fontSize: ms(14, 0.4) * fontScale,
+    fontWeight: "700",
+    color: theme.colors.brand.navy[600],
+  },
   updatingContainer: {
     marginTop: ms(12, 0.1),
     alignItems: 'center',
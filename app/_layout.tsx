@@ -14,8 +14,11 @@ import { StatusBar } from 'expo-status-bar';
 import { useEffect, useRef } from 'react';
 import { AppState, Text as RNText, TextInput as RNTextInput } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { DisplayPreferencesProvider } from '../contexts/DisplayPreferencesContext';
 import { ThemeProvider } from '../contexts/ThemeContext';
+import { useNotificationLinks } from '../hooks/useNotificationLinks';
 import FCMService from '../services/FCMService';
+import ObservanceReminderScheduler from '../services/ObservanceReminderScheduler';
 
 const STRIPE_PUBLISHABLE_KEY = Constants.expoConfig?.extra?.stripePublishableKey;
 
@@ -28,6 +31,9 @@ export default function RootLayout() {
   });
   const appState = useRef(AppState.currentState);
 
+  // Open the screen a tapped notification links to once the navigator is mounted
+  useNotificationLinks(fontsLoaded);
+
   useEffect(() => {
     // Initialize FCM on app startup
     initializeFCM();
@@ -35,14 +41,18 @@ export default function RootLayout() {
     // Monitor cache size on app startup
     monitorCacheSize();
 
+    // Book observance reminders that have come into the scheduling window
+    ObservanceReminderScheduler.reschedule();
+
     // Update lastSeen when app comes to foreground
     const subscription = AppState.addEventListener('change', nextAppState => {
       if (
         appState.current.match(/inactive|background/) &&
         nextAppState === 'active'
       ) {
-        // App has come to the foreground - update lastSeen
+        // App has come to the foreground - update lastSeen and roll the reminder window forward
         FCMService.updateLastSeen();
+        ObservanceReminderScheduler.reschedule();
       }
       appState.current = nextAppState;
     });
@@ -106,22 +116,28 @@ export default function RootLayout() {
   return (
     <SafeAreaProvider>
       <ThemeProvider>
-        <StatusBar style="auto" />
-        {!fontsLoaded ? (
-          <LoadingScreen />
-        ) : (
-        <StripeProvider
-          publishableKey={STRIPE_PUBLISHABLE_KEY}
-          merchantIdentifier="merchant.com.alansarmasjid.app"
-          urlScheme="alansar"
-        >
-          <Stack screenOptions={{ headerShown: false }}>
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen name="settings" options={{ headerShown: false }} />
-            <Stack.Screen name="donations" options={{ headerShown: false }} />
-          </Stack>
-        </StripeProvider>
-        )}
+        <DisplayPreferencesProvider>
+          <StatusBar style="auto" />
+          {!fontsLoaded ? (
+            <LoadingScreen />
+          ) : (
+          <StripeProvider
+            publishableKey={STRIPE_PUBLISHABLE_KEY}
+            merchantIdentifier="merchant.com.alansarmasjid.app"
+            urlScheme="alansar"
+          >
+            <Stack screenOptions={{ headerShown: false }}>
+              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+              <Stack.Screen name="settings" options={{ headerShown: false }} />
+              <Stack.Screen name="timetable" options={{ headerShown: false }} />
+              <Stack.Screen name="donations" options={{ headerShown: false }} />
+              <Stack.Screen name="events/[id]" options={{ headerShown: false }} />
+              <Stack.Screen name="my-rsvps" options={{ headerShown: false }} />
+              <Stack.Screen name="event-reminders" options={{ headerShown: false }} />
+            </Stack>
+          </StripeProvider>
+          )}
+        </DisplayPreferencesProvider>
       </ThemeProvider>
     </SafeAreaProvider>
   );
@@ -0,0 +1,177 @@
+import { Href, Stack, useRouter } from 'expo-router';
+import React, { useCallback, useMemo } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import EmptyState from '../components/EmptyState';
+import LoadingScreen from '../components/LoadingScreen';
+import Badge from '../components/ui/Badge';
+import { useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useEventReminders } from '../hooks/useEventReminders';
+import { useFirebaseData } from '../hooks/useFirebaseData';
+import { useResponsive } from '../hooks/useResponsive';
+import EventReminderScheduler from '../services/EventReminderScheduler';
+import { EventReminder, EventReminderMode } from '../types';
+import { getEventPath } from '../utils/deepLinks';
+import { getMosqueTimezone } from '../utils/prayerCalculation';
+import { getZonedToday } from '../utils/time';
+
+const MODE_LABELS: Record<EventReminderMode, string> = {
+  hour_before: '1 hour before',
+  morning_of: 'Morning of',
+  custom: 'Custom',
+};
+
+export default function EventRemindersScreen(): React.JSX.Element {
+  const theme = useTheme();
+  const router = useRouter();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const { formatDate, formatInstantTime, formatTime } = useDisplayPreferences();
+
+  const { reminders, loading } = useEventReminders();
+  const { mosqueSettings } = useFirebaseData();
+  const MOSQUE_TZ = getMosqueTimezone(mosqueSettings);
+
+  const describeTime = useCallback((timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${formatDate(getZonedToday(MOSQUE_TZ, date))} · ${formatInstantTime(date, MOSQUE_TZ)}`;
+  }, [formatDate, formatInstantTime, MOSQUE_TZ]);
+
+  const handleRemove = useCallback((reminder: EventReminder) => {
+    Alert.alert(
+      'Remove this reminder?',
+      reminder.title,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            EventReminderScheduler.removeReminder(reminder.eventId).catch((err) => {
+              Alert.alert('Error', err instanceof Error ? err.message : 'Please try again.');
+            });
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const renderItem = useCallback(({ item }: { item: EventReminder }) => (
+    <TouchableOpacity
+      style={styles.card}
+      activeOpacity={0.8}
+      onPress={() => router.push(getEventPath(item.eventId) as Href)}
+      accessibilityRole="button"
+    >
+      <View style={styles.cardHeader}>
+        <Text style={styles.eventTitle} numberOfLines={2}>{item.title}</Text>
+        <Badge
+          label={MODE_LABELS[item.mode]}
+          bgColor={theme.colors.accent.blueSoft}
+          textColor={theme.colors.brand.navy[700]}
+        />
+      </View>
+      <Text style={styles.meta}>
+        {item.allDay
+          ? `${formatDate(getZonedToday(MOSQUE_TZ, new Date(item.startsAt)))} · ${formatTime(item.time)}`
+          : `Starts ${describeTime(item.startsAt)}`}
+      </Text>
+      <View style={styles.cardFooter}>
+        <Text style={styles.meta}>Reminder {describeTime(item.remindAt)}</Text>
+        <TouchableOpacity onPress={() => handleRemove(item)} accessibilityRole="button">
+          <Text style={styles.removeText}>Remove</Text>
+        </TouchableOpacity>
+      </View>
+    </TouchableOpacity>
+  ), [styles, theme, router, describeTime, formatDate, formatTime, MOSQUE_TZ, handleRemove]);
+
+  const renderBody = (): React.JSX.Element => {
+    if (loading && reminders.length === 0) {
+      return <LoadingScreen />;
+    }
+
+    return (
+      <FlatList
+        data={reminders}
+        keyExtractor={(item) => item.eventId}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <EmptyState
+            variant="empty"
+            icon="notifications-outline"
+            title="No Reminders"
+            message="Tap the bell on an event to be reminded before it starts."
+          />
+        }
+      />
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'My Reminders',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: theme.colors.brand.navy[700],
+          },
+          headerTintColor: theme.colors.text.header,
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      />
+      <View style={styles.container}>{renderBody()}</View>
+    </>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface.muted,
+  },
+  listContent: {
+    padding: ms(15, 0.1),
+    paddingBottom: ms(30, 0.1),
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: theme.colors.surface.card,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.md,
+    marginBottom: ms(12, 0.1),
+    ...theme.shadow.soft,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: ms(8, 0.1),
+  },
+  eventTitle: {
+    flex: 1,
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+  },
+  meta: {
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+    marginTop: ms(6, 0.1),
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  removeText: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.error[500],
+    marginTop: ms(6, 0.1),
+  },
+});
@@ -0,0 +1,583 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Href, Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Alert, Image, Linking, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import DataIssueBanner from '../../components/DataIssueBanner';
+import EmptyState from '../../components/EmptyState';
+import EventReminderModal from '../../components/EventReminderModal';
+import LoadingScreen from '../../components/LoadingScreen';
+import RegistrationFormModal from '../../components/RegistrationFormModal';
+import RegistrationSummary from '../../components/RegistrationSummary';
+import RsvpFormModal from '../../components/RsvpFormModal';
+import Badge from '../../components/ui/Badge';
+import { useDisplayPreferences } from '../../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../../contexts/ThemeContext';
+import { useEvent } from '../../hooks/useEvent';
+import { useEventCategories } from '../../hooks/useEventCategories';
+import { useEventReminders } from '../../hooks/useEventReminders';
+import { useFirebaseData } from '../../hooks/useFirebaseData';
+import { useRegistrations } from '../../hooks/useRegistrations';
+import { useResponsive } from '../../hooks/useResponsive';
+import { useRsvps } from '../../hooks/useRsvps';
+import CalendarExportService from '../../services/CalendarExportService';
+import EventReminderScheduler from '../../services/EventReminderScheduler';
+import { RegistrationFormData } from '../../types/registration';
+import { Rsvp, RsvpFormData } from '../../types/rsvp';
+import { DataSource } from '../../utils/dataIssues';
+import { getEventLink } from '../../utils/deepLinks';
+import { formatHijriDate, getHijriOffsetDays, gregorianToHijri } from '../../utils/hijri';
+import { getMosqueTimezone } from '../../utils/prayerCalculation';
+import { describeRecurrence } from '../../utils/recurrence';
+import { getZonedToday, parseDayKey } from '../../utils/time';
+
+const EVENT_DATA_SOURCES: readonly DataSource[] = ['events'];
+
+export default function EventDetailScreen(): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const { formatTime, formatDate, formatInstantTime, orderDates } = useDisplayPreferences();
+
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { mosqueSettings } = useFirebaseData();
+  const MOSQUE_TZ = getMosqueTimezone(mosqueSettings);
+  const { event, loading, error, notFound } = useEvent(id, MOSQUE_TZ);
+  const { rsvps, getRsvpForEvent, submitRsvp, cancelRsvp, submitting } = useRsvps();
+  const [showRsvpForm, setShowRsvpForm] = useState(false);
+  const { getReminderForEvent } = useEventReminders();
+  const [showReminderForm, setShowReminderForm] = useState(false);
+  const { getRegistrationForEvent, submitRegistration, submitting: registering } = useRegistrations();
+  const [showRegistrationForm, setShowRegistrationForm] = useState(false);
+  const [showRegistrationAnswers, setShowRegistrationAnswers] = useState(false);
+  const { categories } = useEventCategories();
+
+  const category = categories.find((cat) => cat.id === event?.category);
+  const categoryColors = category
+    ? { bg: category.color_bg, text: category.color_text }
+    : { bg: '#e5e7eb', text: '#374151' };
+
+  const dateLine = useMemo(() => {
+    if (!event) return '';
+    const day = getZonedToday(MOSQUE_TZ, event.date.toDate());
+    const hijri = formatHijriDate(gregorianToHijri(day, getHijriOffsetDays(mosqueSettings)));
+    return orderDates(formatDate(day), hijri).join(' · ');
+  }, [event, MOSQUE_TZ, mosqueSettings, formatDate, orderDates]);
+
+  const repeatLine = useMemo(() => {
+    if (!event?.recurrence) return '';
+    const start = getZonedToday(MOSQUE_TZ, event.date.toDate());
+    const until = parseDayKey(event.recurrence.until);
+    const rule = describeRecurrence(event.recurrence, start);
+    return until ? `${rule} until ${formatDate(until)}` : rule;
+  }, [event, MOSQUE_TZ, formatDate]);
+
+  // Events held at the masjid often name a room, so fall back to the masjid's address
+  const directionsTarget = event?.location || mosqueSettings?.address;
+
+  const handleDirections = useCallback(() => {
+    if (!directionsTarget) return;
+    const url = `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(directionsTarget)}`;
+    Linking.openURL(url).catch(err => console.error('Error opening directions:', err));
+  }, [directionsTarget]);
+
+  const handleShare = useCallback(async () => {
+    if (!event) return;
+    const link = getEventLink(event.id);
+    const details = [dateLine, formatTime(event.time), event.location].filter(Boolean).join('\n');
+    try {
+      await Share.share({
+        title: event.title,
+        message: `${event.title}\n${details}\n\n${link}`,
+        url: link,
+      });
+    } catch (err) {
+      console.error('Error sharing event:', err);
+    }
+  }, [event, dateLine, formatTime]);
+
+  const handleAddToCalendar = useCallback(async () => {
+    if (!event) return;
+    try {
+      await CalendarExportService.shareEvent(event, mosqueSettings);
+    } catch (err) {
+      Alert.alert("Couldn't add to calendar", err instanceof Error ? err.message : 'Please try again.');
+    }
+  }, [event, mosqueSettings]);
+
+  const myRsvp = event ? getRsvpForEvent(event.id) : undefined;
+  const placesLeft = event?.rsvp_limit ? Math.max(event.rsvp_limit - (event.rsvp_count || 0), 0) : null;
+  const rsvpFull = placesLeft === 0;
+  const isPast = !!event && event.date.toDate().getTime() < Date.now() - 24 * 60 * 60 * 1000;
+  const reminder = event ? getReminderForEvent(event.id) : undefined;
+  const canRemind = !!event && EventReminderScheduler.canRemind(event, MOSQUE_TZ);
+  // Pre-fill the form with the details from this device's latest RSVP
+  const lastRsvp = useMemo(
+    () => rsvps.reduce<Rsvp | undefined>(
+      (latest, rsvp) => (!latest || Date.parse(rsvp.created_at) > Date.parse(latest.created_at) ? rsvp : latest),
+      undefined
+    ),
+    [rsvps]
+  );
+
+  const handleSubmitRsvp = useCallback(async (form: RsvpFormData) => {
+    if (!event) return;
+    try {
+      const rsvp = await submitRsvp(event, form);
+      setShowRsvpForm(false);
+      Alert.alert(
+        rsvp.status === 'waitlisted' ? "You're on the waitlist" : "You're going",
+        rsvp.status === 'waitlisted'
+          ? "We'll confirm your place automatically if one frees up."
+          : `Your RSVP for ${rsvp.party_size} ${rsvp.party_size === 1 ? 'person' : 'people'} is confirmed.`
+      );
+    } catch (err) {
+      Alert.alert('RSVP failed', err instanceof Error ? err.message : 'Please try again.');
+    }
+  }, [event, submitRsvp]);
+
+  const registration = event ? getRegistrationForEvent(event.id) : undefined;
+
+  const handleSubmitRegistration = useCallback(async (form: RegistrationFormData) => {
+    if (!event) return;
+    try {
+      await submitRegistration(event, form);
+      setShowRegistrationForm(false);
+      Alert.alert("You're registered", 'Your answers are saved on this device. You can view them on this event.');
+    } catch (err) {
+      Alert.alert('Registration failed', err instanceof Error ? err.message : 'Please try again.');
+    }
+  }, [event, submitRegistration]);
+
+  const handleCancelRsvp = useCallback(() => {
+    if (!myRsvp) return;
+    const waitlisted = myRsvp.status === 'waitlisted';
+    Alert.alert(
+      waitlisted ? 'Leave the waitlist?' : 'Cancel your RSVP?',
+      waitlisted ? undefined : 'Your place will be offered to the next person on the waitlist.',
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: waitlisted ? 'Leave' : 'Cancel RSVP',
+          style: 'destructive',
+          onPress: () => {
+            cancelRsvp(myRsvp.id).catch((err) => {
+              Alert.alert('Error', err instanceof Error ? err.message : 'Please try again.');
+            });
+          },
+        },
+      ]
+    );
+  }, [myRsvp, cancelRsvp]);
+
+  const renderBody = (): React.JSX.Element => {
+    if (loading && !event) {
+      return <LoadingScreen />;
+    }
+
+    if (!event) {
+      return (
+        <EmptyState
+          variant={error ? 'error' : notFound ? 'empty' : 'offline'}
+          icon="calendar-outline"
+          title="Event Unavailable"
+          message={error || (notFound
+            ? 'This event has been removed or is no longer published.'
+            : 'Please check your internet connection and try again.')}
+        />
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <DataIssueBanner sources={EVENT_DATA_SOURCES} />
+
+        {event.image_url && (
+          <Image source={{ uri: event.image_url }} style={styles.image} resizeMode="cover" />
+        )}
+
+        <View style={styles.card}>
+          <View style={styles.badgeRow}>
+            <Badge
+              label={category?.label || 'Event'}
+              bgColor={categoryColors.bg}
+              textColor={categoryColors.text}
+            />
+            {event.is_cancelled && (
+              <Badge label="Cancelled" bgColor={theme.colors.error[100]} textColor={theme.colors.error[500]} />
+            )}
+          </View>
+          <Text style={[styles.title, event.is_cancelled && styles.cancelledTitle]}>{event.title}</Text>
+          {event.is_cancelled && (
+            <Text style={styles.cancelledNote}>This session has been cancelled. The rest of the series goes ahead as planned.</Text>
+          )}
+
+          <View style={styles.metaItem}>
+            <Ionicons name="calendar-outline" size={ms(18, 0.2)} color={theme.colors.text.muted} />
+            <Text style={styles.metaText}>{dateLine}</Text>
+          </View>
+          <View style={styles.metaItem}>
+            <Ionicons name="time-outline" size={ms(18, 0.2)} color={theme.colors.text.muted} />
+            <Text style={styles.metaText}>{formatTime(event.time)}</Text>
+          </View>
+          {repeatLine ? (
+            <View style={styles.metaItem}>
+              <Ionicons name="repeat-outline" size={ms(18, 0.2)} color={theme.colors.text.muted} />
+              <Text style={styles.metaText}>{repeatLine}</Text>
+            </View>
+          ) : null}
+          {event.speaker && (
+            <View style={styles.metaItem}>
+              <Ionicons name="person-outline" size={ms(18, 0.2)} color={theme.colors.text.muted} />
+              <Text style={styles.metaText}>Speaker: {event.speaker}</Text>
+            </View>
+          )}
+          {event.location && (
+            <View style={styles.metaItem}>
+              <Ionicons name="location-outline" size={ms(18, 0.2)} color={theme.colors.text.muted} />
+              <Text style={styles.metaText}>{event.location}</Text>
+            </View>
+          )}
+          {reminder && (
+            <View style={styles.metaItem}>
+              <Ionicons name="notifications" size={ms(18, 0.2)} color={theme.colors.accent.blue} />
+              <Text style={styles.metaText}>
+                Reminder {formatDate(getZonedToday(MOSQUE_TZ, new Date(reminder.remindAt)))} at {formatInstantTime(new Date(reminder.remindAt), MOSQUE_TZ)}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.actions}>
+            {directionsTarget && (
+              <TouchableOpacity style={styles.actionButton} onPress={handleDirections} accessibilityRole="button">
+                <Ionicons name="navigate-outline" size={ms(18, 0.2)} color={theme.colors.brand.navy[700]} />
+                <Text style={styles.actionText}>Directions</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.actionButton} onPress={handleAddToCalendar} accessibilityRole="button">
+              <Ionicons name="calendar-outline" size={ms(18, 0.2)} color={theme.colors.brand.navy[700]} />
+              <Text style={styles.actionText}>Add to calendar</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleShare} accessibilityRole="button">
+              <Ionicons name="share-outline" size={ms(18, 0.2)} color={theme.colors.brand.navy[700]} />
+              <Text style={styles.actionText}>Share</Text>
+            </TouchableOpacity>
+            {canRemind && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => setShowReminderForm(true)} accessibilityRole="button">
+                <Ionicons
+                  name={reminder ? 'notifications' : 'notifications-outline'}
+                  size={ms(18, 0.2)}
+                  color={theme.colors.brand.navy[700]}
+                />
+                <Text style={styles.actionText}>{reminder ? 'Edit reminder' : 'Remind me'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {reminder && (
+            <TouchableOpacity onPress={() => router.push('/event-reminders' as Href)} accessibilityRole="link">
+              <Text style={styles.linkText}>My reminders</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {(event.rsvp_enabled || myRsvp) && (
+          <View style={styles.card}>
+            <View style={styles.rsvpRow}>
+              <Ionicons name="people-outline" size={ms(20, 0.2)} color={theme.colors.brand.navy[700]} />
+              <Text style={styles.rsvpTitle}>RSVP</Text>
+              {rsvpFull && <Badge label="Full" bgColor={theme.colors.error[100]} textColor={theme.colors.error[500]} />}
+            </View>
+            <Text style={styles.metaText}>
+              {event.rsvp_count || 0} / {event.rsvp_limit || 'Unlimited'} attending
+            </Text>
+
+            {myRsvp ? (
+              <View style={[styles.myRsvp, myRsvp.status === 'waitlisted' && styles.myRsvpWaitlisted]}>
+                <Text style={styles.myRsvpText}>
+                  {myRsvp.status === 'waitlisted'
+                    ? `You're on the waitlist${myRsvp.waitlist_position ? ` (#${myRsvp.waitlist_position})` : ''} for ${myRsvp.party_size}`
+                    : `You're going · ${myRsvp.party_size} ${myRsvp.party_size === 1 ? 'person' : 'people'}`}
+                </Text>
+                {!isPast && (
+                  <TouchableOpacity onPress={handleCancelRsvp} disabled={submitting} accessibilityRole="button">
+                    <Text style={styles.cancelText}>{myRsvp.status === 'waitlisted' ? 'Leave waitlist' : 'Cancel'}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ) : !isPast && !event.is_cancelled && (
+              <TouchableOpacity
+                style={styles.rsvpButton}
+                onPress={() => setShowRsvpForm(true)}
+                accessibilityRole="button"
+              >
+                <Text style={styles.rsvpButtonText}>{rsvpFull ? 'Join waitlist' : 'RSVP'}</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity onPress={() => router.push('/my-rsvps' as Href)} accessibilityRole="link">
+              <Text style={styles.linkText}>My RSVPs</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {event.registration_form && (
+          <View style={styles.card}>
+            <View style={styles.rsvpRow}>
+              <Ionicons name="clipboard-outline" size={ms(20, 0.2)} color={theme.colors.brand.navy[700]} />
+              <Text style={styles.rsvpTitle}>Registration</Text>
+            </View>
+
+            {registration ? (
+              <>
+                <View style={styles.myRsvp}>
+                  <Text style={styles.myRsvpText}>
+                    {registration.attendees.length > 0
+                      ? `You're registered · ${registration.attendees.length} ${(registration.form.attendees?.label || 'attendee').toLowerCase()}${registration.attendees.length === 1 ? '' : 's'}`
+                      : "You're registered"}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => setShowRegistrationAnswers((shown) => !shown)}
+                  accessibilityRole="button"
+                  accessibilityState={{ expanded: showRegistrationAnswers }}
+                >
+                  <Text style={styles.linkText}>{showRegistrationAnswers ? 'Hide my answers' : 'Show my answers'}</Text>
+                </TouchableOpacity>
+                {showRegistrationAnswers && (
+                  <View style={styles.registrationAnswers}>
+                    <RegistrationSummary registration={registration} />
+                  </View>
+                )}
+              </>
+            ) : isPast || event.is_cancelled ? (
+              <Text style={styles.metaText}>Registration has closed.</Text>
+            ) : (
+              <>
+                <Text style={styles.metaText}>This programme needs a few details from you to register.</Text>
+                <TouchableOpacity
+                  style={styles.rsvpButton}
+                  onPress={() => setShowRegistrationForm(true)}
+                  accessibilityRole="button"
+                >
+                  <Text style={styles.rsvpButtonText}>Register</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+
+        {event.description ? (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>About this event</Text>
+            <Text style={styles.description}>{event.description}</Text>
+          </View>
+        ) : null}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: event?.title || 'Event',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: theme.colors.brand.navy[700],
+          },
+          headerTintColor: theme.colors.text.header,
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+          headerRight: event
+            ? () => (
+              <TouchableOpacity onPress={handleShare} accessibilityRole="button" accessibilityLabel="Share event">
+                <Ionicons name="share-outline" size={ms(22, 0.2)} color={theme.colors.text.header} />
+              </TouchableOpacity>
+            )
+            : undefined,
+        }}
+      />
+      <View style={styles.container}>{renderBody()}</View>
+      {event && (
+        <RsvpFormModal
+          visible={showRsvpForm}
+          eventTitle={event.title}
+          placesLeft={placesLeft}
+          initialName={lastRsvp?.name}
+          initialContact={lastRsvp?.contact}
+          submitting={submitting}
+          onSubmit={handleSubmitRsvp}
+          onClose={() => setShowRsvpForm(false)}
+        />
+      )}
+      {event?.registration_form && (
+        <RegistrationFormModal
+          visible={showRegistrationForm}
+          eventTitle={event.title}
+          form={event.registration_form}
+          submitting={registering}
+          onSubmit={handleSubmitRegistration}
+          onClose={() => setShowRegistrationForm(false)}
+        />
+      )}
+      {event && (
+        <EventReminderModal
+          visible={showReminderForm}
+          event={event}
+          timeZone={MOSQUE_TZ}
+          reminder={reminder}
+          onClose={() => setShowReminderForm(false)}
+        />
+      )}
+    </>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface.muted,
+  },
+  scrollContent: {
+    padding: ms(15, 0.1),
+    paddingBottom: ms(30, 0.1),
+  },
+  image: {
+    width: '100%',
+    height: ms(220, 0.2),
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.border.base,
+    marginBottom: ms(12, 0.1),
+  },
+  card: {
+    backgroundColor: theme.colors.surface.card,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.md,
+    marginBottom: ms(12, 0.1),
+    ...theme.shadow.soft,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    gap: ms(6, 0.1),
+    marginBottom: ms(8, 0.1),
+  },
+  title: {
+    fontSize: ms(22, 0.3) * fontScale,
+    fontWeight: 'bold',
+    color: theme.colors.text.strong,
+    marginBottom: ms(10, 0.1),
+  },
+  cancelledTitle: {
+    textDecorationLine: 'line-through',
+    color: theme.colors.text.muted,
+  },
+  cancelledNote: {
+    fontSize: ms(14, 0.2) * fontScale,
+    color: theme.colors.error[500],
+    marginBottom: ms(10, 0.1),
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(8, 0.1),
+    marginTop: ms(6, 0.1),
+  },
+  metaText: {
+    flex: 1,
+    fontSize: ms(14, 0.2) * fontScale,
+    color: theme.colors.text.base,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: ms(10, 0.1),
+    marginTop: ms(14, 0.1),
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(6, 0.1),
+    paddingHorizontal: ms(14, 0.1),
+    paddingVertical: ms(8, 0.1),
+    borderRadius: theme.radius.pill,
+    backgroundColor: theme.colors.accent.blueSoft,
+  },
+  actionText: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.brand.navy[700],
+  },
+  rsvpRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(8, 0.1),
+    marginBottom: ms(6, 0.1),
+  },
+  rsvpTitle: {
+    flex: 1,
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+  },
+  myRsvp: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: ms(10, 0.1),
+    marginTop: ms(12, 0.1),
+    padding: theme.spacing.sm,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.surface.soft,
+    borderLeftWidth: ms(4, 0.05),
+    borderLeftColor: theme.colors.accent.green,
+  },
+  myRsvpWaitlisted: {
+    borderLeftColor: theme.colors.accent.amber,
+  },
+  myRsvpText: {
+    flex: 1,
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.strong,
+  },
+  cancelText: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.error[500],
+  },
+  rsvpButton: {
+    marginTop: ms(12, 0.1),
+    backgroundColor: theme.colors.brand.navy[700],
+    borderRadius: theme.radius.md,
+    paddingVertical: ms(12, 0.1),
+    alignItems: 'center',
+  },
+  rsvpButtonText: {
+    fontSize: ms(15, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.header,
+  },
+  linkText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.accent.blue,
+    marginTop: ms(10, 0.1),
+  },
+  registrationAnswers: {
+    marginTop: ms(10, 0.1),
+  },
+  sectionTitle: {
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+    marginBottom: ms(8, 0.1),
+  },
+  description: {
+    fontSize: ms(15, 0.2) * fontScale,
+    lineHeight: ms(22, 0.2) * fontScale,
+    color: theme.colors.text.base,
+  },
+});
@@ -0,0 +1,188 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Href, Stack, useRouter } from 'expo-router';
+import React, { useCallback, useMemo } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import EmptyState from '../components/EmptyState';
+import LoadingScreen from '../components/LoadingScreen';
+import Badge from '../components/ui/Badge';
+import { useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useFirebaseData } from '../hooks/useFirebaseData';
+import { useResponsive } from '../hooks/useResponsive';
+import { useRsvps } from '../hooks/useRsvps';
+import { Rsvp } from '../types/rsvp';
+import { getEventPath } from '../utils/deepLinks';
+import { getMosqueTimezone } from '../utils/prayerCalculation';
+import { getZonedToday } from '../utils/time';
+
+export default function MyRsvpsScreen(): React.JSX.Element {
+  const theme = useTheme();
+  const router = useRouter();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const { formatDate, formatInstantTime } = useDisplayPreferences();
+
+  const { rsvps, loading, error, cancelRsvp, submitting } = useRsvps();
+  const { mosqueSettings } = useFirebaseData();
+  const MOSQUE_TZ = getMosqueTimezone(mosqueSettings);
+
+  const handleCancel = useCallback((rsvp: Rsvp) => {
+    const waitlisted = rsvp.status === 'waitlisted';
+    Alert.alert(
+      waitlisted ? 'Leave the waitlist?' : 'Cancel your RSVP?',
+      rsvp.event_title,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: waitlisted ? 'Leave' : 'Cancel RSVP',
+          style: 'destructive',
+          onPress: () => {
+            cancelRsvp(rsvp.id).catch((err) => {
+              Alert.alert('Error', err instanceof Error ? err.message : 'Please try again.');
+            });
+          },
+        },
+      ]
+    );
+  }, [cancelRsvp]);
+
+  const renderItem = useCallback(({ item }: { item: Rsvp }) => {
+    const date = new Date(item.event_date);
+    const waitlisted = item.status === 'waitlisted';
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={0.8}
+        onPress={() => router.push(getEventPath(item.event_id) as Href)}
+        accessibilityRole="button"
+      >
+        <View style={styles.cardHeader}>
+          <Text style={styles.eventTitle} numberOfLines={2}>{item.event_title}</Text>
+          <Badge
+            label={waitlisted ? `Waitlist${item.waitlist_position ? ` #${item.waitlist_position}` : ''}` : 'Going'}
+            bgColor={waitlisted ? theme.colors.accent.amberSoft : theme.colors.accent.blueSoft}
+            textColor={waitlisted ? theme.colors.accent.amber : theme.colors.brand.navy[700]}
+          />
+        </View>
+        <Text style={styles.meta}>
+          {formatDate(getZonedToday(MOSQUE_TZ, date))} · {formatInstantTime(date, MOSQUE_TZ)}
+        </Text>
+        <View style={styles.cardFooter}>
+          <Text style={styles.meta}>
+            {item.name} · {item.party_size} {item.party_size === 1 ? 'person' : 'people'}
+          </Text>
+          <TouchableOpacity onPress={() => handleCancel(item)} disabled={submitting} accessibilityRole="button">
+            <Text style={styles.cancelText}>{waitlisted ? 'Leave waitlist' : 'Cancel'}</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  }, [styles, theme, router, formatDate, formatInstantTime, MOSQUE_TZ, handleCancel, submitting]);
+
+  const renderBody = (): React.JSX.Element => {
+    if (loading && rsvps.length === 0) {
+      return <LoadingScreen />;
+    }
+
+    return (
+      <FlatList
+        data={rsvps}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={error && rsvps.length > 0 ? (
+          <View style={styles.offlineNote}>
+            <Ionicons name="cloud-offline-outline" size={ms(16, 0.2)} color={theme.colors.text.muted} />
+            <Text style={styles.offlineText}>Showing saved RSVPs. {error}</Text>
+          </View>
+        ) : null}
+        ListEmptyComponent={
+          <EmptyState
+            variant={error ? 'error' : 'empty'}
+            icon="people-outline"
+            title="No RSVPs"
+            message={error || 'Events you RSVP to from this device will appear here.'}
+          />
+        }
+      />
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'My RSVPs',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: theme.colors.brand.navy[700],
+          },
+          headerTintColor: theme.colors.text.header,
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      />
+      <View style={styles.container}>{renderBody()}</View>
+    </>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface.muted,
+  },
+  listContent: {
+    padding: ms(15, 0.1),
+    paddingBottom: ms(30, 0.1),
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: theme.colors.surface.card,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.md,
+    marginBottom: ms(12, 0.1),
+    ...theme.shadow.soft,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: ms(8, 0.1),
+  },
+  eventTitle: {
+    flex: 1,
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+  },
+  meta: {
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+    marginTop: ms(6, 0.1),
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  cancelText: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.error[500],
+    marginTop: ms(6, 0.1),
+  },
+  offlineNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(6, 0.1),
+    marginBottom: ms(10, 0.1),
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: ms(12, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+  },
+});
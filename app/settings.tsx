@@ -3,13 +3,46 @@ import * as Haptics from 'expo-haptics';
 import { Stack } from 'expo-router';
 import React, { useMemo } from 'react';
 import { Platform, ScrollView, StyleSheet, Text, TouchableOpacity, Vibration, View, useWindowDimensions } from 'react-native';
+import PillToggle from '../components/ui/PillToggle';
+import { DisplayPreferences, useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
 import { AppTheme, ThemePreference, useTheme } from '../contexts/ThemeContext';
 import { useResponsive } from '../hooks/useResponsive';
 import NotificationSettingsScreen from '../screens/NotificationSettingsScreen';
+import EventReminderScheduler from '../services/EventReminderScheduler';
+import PrayerReminderScheduler from '../services/PrayerReminderScheduler';
+
+type DisplayOption = {
+  key: keyof DisplayPreferences;
+  icon: string;
+  label: string;
+  options: { key: string; label: string }[];
+};
+
+const DISPLAY_OPTIONS: DisplayOption[] = [
+  {
+    key: 'timeFormat',
+    icon: 'time-outline',
+    label: 'Clock',
+    options: [{ key: '12h', label: '7:00 PM' }, { key: '24h', label: '19:00' }],
+  },
+  {
+    key: 'dateStyle',
+    icon: 'calendar-outline',
+    label: 'Dates',
+    options: [{ key: 'long', label: '19 October' }, { key: 'numeric', label: '19/10/2026' }],
+  },
+  {
+    key: 'hijriPosition',
+    icon: 'moon-outline',
+    label: 'Hijri date',
+    options: [{ key: 'second', label: 'Shown second' }, { key: 'first', label: 'Shown first' }],
+  },
+];
 
 export default function SettingsScreen(): React.JSX.Element {
   const theme = useTheme();
   const { preference, updatePreference } = theme;
+  const displayPreferences = useDisplayPreferences();
   const { ms } = useResponsive();
   const { fontScale } = useWindowDimensions();
   
@@ -95,6 +128,38 @@ export default function SettingsScreen(): React.JSX.Element {
           })}
         </View>
         
+        {/* Display Section */}
+        <Text style={styles.sectionTitle}>Display</Text>
+        <View style={styles.card}>
+          {DISPLAY_OPTIONS.map((option, index) => (
+            <View
+              key={option.key}
+              style={[styles.displayOption, index < DISPLAY_OPTIONS.length - 1 && styles.themeOptionBorder]}
+            >
+              <View style={styles.displayHeader}>
+                <View style={styles.themeIconContainer}>
+                  <Ionicons name={option.icon as any} size={ms(22, 0.2)} color={theme.colors.brand.navy[700]} />
+                </View>
+                <Text style={styles.themeLabel}>{option.label}</Text>
+              </View>
+              <PillToggle
+                options={option.options}
+                value={displayPreferences[option.key]}
+                onChange={async (value) => {
+                  await triggerHaptic();
+                  await displayPreferences.updateDisplayPreference(option.key, value as DisplayPreferences[typeof option.key]);
+                  // Booked notification bodies spell out times, so rebuild them in the new clock
+                  if (option.key === 'timeFormat') {
+                    PrayerReminderScheduler.reschedule();
+                    EventReminderScheduler.reschedule();
+                  }
+                }}
+                style={styles.displayToggle}
+              />
+            </View>
+          ))}
+        </View>
+
         {/* Notification Settings - Embedded from NotificationSettingsScreen */}
         <NotificationSettingsScreen />
       </ScrollView>
@@ -155,4 +220,15 @@ const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => nu
     fontSize: ms(13, 0.2) * fontScale,
     color: theme.colors.text.muted,
   },
+  displayOption: {
+    padding: ms(16, 0.1),
+  },
+  displayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: ms(12, 0.1),
+  },
+  displayToggle: {
+    marginHorizontal: 0,
+  },
 });
\ No newline at end of file
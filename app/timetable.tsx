@@ -0,0 +1,247 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Stack } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { FlatList, SectionList, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import EmptyState from '../components/EmptyState';
+import LoadingScreen from '../components/LoadingScreen';
+import TimetableRow, { TimetableHeaderRow } from '../components/TimetableRow';
+import PillToggle from '../components/ui/PillToggle';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useFirebaseData } from '../hooks/useFirebaseData';
+import { useResponsive } from '../hooks/useResponsive';
+import { TimetableDay, buildMonthTimetable, getMosqueTimezone, hasCoordinates } from '../utils/prayerCalculation';
+import { getZonedToday, isSameCalendarDay } from '../utils/time';
+
+type TimetableView = 'month' | 'year';
+
+interface VisibleMonth {
+  year: number;
+  month: number;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const shiftMonth = ({ year, month }: VisibleMonth, delta: number): VisibleMonth => {
+  const index = year * 12 + (month - 1) + delta;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
+
+const rowKey = (row: TimetableDay): string => `${row.date.year}-${row.date.month}-${row.date.day}`;
+
+export default function TimetableScreen(): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  const { prayerTimes, mosqueSettings, loading, error } = useFirebaseData();
+  const timeZone = getMosqueTimezone(mosqueSettings);
+  const today = useMemo(() => getZonedToday(timeZone), [timeZone]);
+
+  const [view, setView] = useState<TimetableView>('month');
+  const [visibleMonth, setVisibleMonth] = useState<VisibleMonth>(() => {
+    const initial = getZonedToday(timeZone);
+    return { year: initial.year, month: initial.month };
+  });
+
+  // Month view: one month of computed rows
+  const monthRows = useMemo(
+    () => buildMonthTimetable(mosqueSettings, prayerTimes, visibleMonth.year, visibleMonth.month),
+    [mosqueSettings, prayerTimes, visibleMonth]
+  );
+
+  // Year view: only computed when the year tab is open (365 adhan calculations)
+  const yearSections = useMemo(() => {
+    if (view !== 'year') return [];
+    return MONTH_NAMES.map((name, index) => ({
+      title: `${name} ${visibleMonth.year}`,
+      data: buildMonthTimetable(mosqueSettings, prayerTimes, visibleMonth.year, index + 1),
+    }));
+  }, [view, mosqueSettings, prayerTimes, visibleMonth.year]);
+
+  const handlePrevious = useCallback(() => {
+    setVisibleMonth((current) => shiftMonth(current, view === 'month' ? -1 : -12));
+  }, [view]);
+
+  const handleNext = useCallback(() => {
+    setVisibleMonth((current) => shiftMonth(current, view === 'month' ? 1 : 12));
+  }, [view]);
+
+  const renderRow = useCallback(
+    ({ item }: { item: TimetableDay }) => (
+      <TimetableRow row={item} isToday={isSameCalendarDay(item.date, today)} />
+    ),
+    [today]
+  );
+
+  const periodLabel = view === 'month'
+    ? `${MONTH_NAMES[visibleMonth.month - 1]} ${visibleMonth.year}`
+    : String(visibleMonth.year);
+
+  const renderBody = (): React.JSX.Element => {
+    if (loading && !mosqueSettings) {
+      return <LoadingScreen />;
+    }
+
+    if (!hasCoordinates(mosqueSettings)) {
+      return (
+        <EmptyState
+          variant={error ? 'error' : 'offline'}
+          icon="calendar-outline"
+          title="Timetable Unavailable"
+          message={error || "The masjid's location hasn't loaded yet. Please check your internet connection and try again."}
+        />
+      );
+    }
+
+    if (view === 'month') {
+      return (
+        <FlatList
+          data={monthRows}
+          keyExtractor={rowKey}
+          renderItem={renderRow}
+          ListHeaderComponent={TimetableHeaderRow}
+          stickyHeaderIndices={[0]}
+          contentContainerStyle={styles.listContent}
+          initialNumToRender={31}
+        />
+      );
+    }
+
+    return (
+      <SectionList
+        sections={yearSections}
+        keyExtractor={rowKey}
+        renderItem={renderRow}
+        renderSectionHeader={({ section }) => (
+          <View>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            <TimetableHeaderRow />
+          </View>
+        )}
+        stickySectionHeadersEnabled
+        contentContainerStyle={styles.listContent}
+        initialNumToRender={40}
+        windowSize={11}
+      />
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Prayer Timetable',
+          headerBackTitle: 'Back',
+          headerStyle: {
+            backgroundColor: theme.colors.brand.navy[700],
+          },
+          headerTintColor: theme.colors.text.header,
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      />
+      <View style={styles.container}>
+        <PillToggle
+          options={[
+            { key: 'month', label: 'Month' },
+            { key: 'year', label: 'Year' },
+          ]}
+          value={view}
+          onChange={(key) => setView(key as TimetableView)}
+          style={styles.toggle}
+        />
+
+        <View style={styles.periodRow}>
+          <TouchableOpacity
+            style={styles.periodButton}
+            onPress={handlePrevious}
+            accessibilityRole="button"
+            accessibilityLabel={view === 'month' ? 'Previous month' : 'Previous year'}
+          >
+            <Ionicons name="chevron-back" size={ms(20, 0.2)} color={theme.colors.brand.navy[700]} />
+          </TouchableOpacity>
+          <View style={styles.periodTextContainer}>
+            <Text style={styles.periodLabel}>{periodLabel}</Text>
+            <Text style={styles.periodHint}>Adhan / Iqama · {timeZone} · underlined adhan set by the masjid</Text>
+          </View>
+          <TouchableOpacity
+            style={styles.periodButton}
+            onPress={handleNext}
+            accessibilityRole="button"
+            accessibilityLabel={view === 'month' ? 'Next month' : 'Next year'}
+          >
+            <Ionicons name="chevron-forward" size={ms(20, 0.2)} color={theme.colors.brand.navy[700]} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.tableCard}>{renderBody()}</View>
+      </View>
+    </>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface.muted,
+  },
+  toggle: {
+    marginTop: theme.spacing.lg,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+  },
+  periodButton: {
+    width: ms(40, 0.2),
+    height: ms(40, 0.2),
+    borderRadius: ms(20, 0.2),
+    backgroundColor: theme.colors.surface.base,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...theme.shadow.soft,
+  },
+  periodTextContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  periodLabel: {
+    fontSize: ms(18, 0.3) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+  },
+  periodHint: {
+    fontSize: ms(11, 0.3) * fontScale,
+    color: theme.colors.text.muted,
+    marginTop: ms(2, 0.05),
+  },
+  tableCard: {
+    flex: 1,
+    marginHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+    backgroundColor: theme.colors.surface.base,
+    borderRadius: theme.radius.lg,
+    overflow: 'hidden',
+    ...theme.shadow.soft,
+  },
+  listContent: {
+    paddingBottom: theme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: ms(15, 0.3) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+    backgroundColor: theme.colors.surface.muted,
+    paddingHorizontal: ms(10, 0.1),
+    paddingVertical: ms(8, 0.1),
+  },
+});
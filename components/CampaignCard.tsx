@@ -8,7 +8,7 @@ import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useMemo, useRef } from 'react';
 import { Animated, Image, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
 import { useTheme, AppTheme } from '../contexts/ThemeContext';
-import { Campaign } from '../hooks/useCampaigns';
+import { Campaign } from '../types';
 import { useResponsive } from '../hooks/useResponsive';
 
 interface CampaignCardProps {
@@ -0,0 +1,138 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+import { useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useCurrentPrayer } from '../hooks/useCurrentPrayer';
+import { useResponsive } from '../hooks/useResponsive';
+import { MosqueSettings } from '../types';
+import { TimetableDay } from '../utils/prayerCalculation';
+
+type CurrentPrayerCardProps = {
+  today: TimetableDay | null;
+  mosqueSettings: MosqueSettings | null;
+  timeZone: string;
+};
+
+const formatCountdown = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+/**
+ * Countdown to iqama for the prayer underway. Holds the one-second tick
+ * itself, so only this card re-renders while it counts down.
+ */
+export default function CurrentPrayerCard({ today, mosqueSettings, timeZone }: CurrentPrayerCardProps): React.JSX.Element | null {
+  const theme = useTheme();
+  const { formatInstantTime } = useDisplayPreferences();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const state = useCurrentPrayer(today, mosqueSettings);
+
+  if (!state) return null;
+
+  const name = state.prayer.charAt(0).toUpperCase() + state.prayer.slice(1);
+  const awaiting = state.phase === 'awaiting_iqama';
+
+  return (
+    <View
+      style={[styles.card, !awaiting && styles.cardLive]}
+      accessibilityLiveRegion="polite"
+      accessibilityLabel={
+        awaiting
+          ? `${name} iqama in ${Math.ceil(state.secondsToIqama / 60)} minutes`
+          : `${name} is in congregation now`
+      }
+    >
+      <View style={styles.header}>
+        <Ionicons
+          name={awaiting ? 'hourglass-outline' : 'people'}
+          size={ms(22, 0.2)}
+          color={awaiting ? theme.colors.brand.gold[600] : theme.colors.accent.green}
+        />
+        <Text style={[styles.title, !awaiting && styles.titleLive]} numberOfLines={1}>
+          {awaiting ? `${name} · Iqama in` : `${name} in congregation now`}
+        </Text>
+        {awaiting && <Text style={styles.countdown}>{formatCountdown(state.secondsToIqama)}</Text>}
+      </View>
+      {awaiting ? (
+        <>
+          <View style={styles.track}>
+            <View style={[styles.fill, { width: `${Math.min(Math.max(state.progress, 0), 1) * 100}%` }]} />
+          </View>
+          <View style={styles.labels}>
+            <Text style={styles.label}>Adhan {formatInstantTime(state.adhanAt, timeZone)}</Text>
+            <Text style={styles.label}>Iqama {formatInstantTime(state.iqamaAt, timeZone)}</Text>
+          </View>
+        </>
+      ) : (
+        <Text style={styles.label}>
+          Iqama was at {formatInstantTime(state.iqamaAt, timeZone)}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.accent.amberSoft,
+    borderColor: theme.colors.brand.gold[400] || theme.colors.accent.amber,
+    borderWidth: ms(1, 0.05),
+    borderRadius: theme.radius.md,
+    paddingHorizontal: ms(16, 0.1),
+    paddingVertical: ms(12, 0.1),
+    marginBottom: ms(12, 0.1),
+  },
+  cardLive: {
+    backgroundColor: theme.colors.surface.base,
+    borderColor: theme.colors.accent.green,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(10, 0.1),
+  },
+  title: {
+    flex: 1,
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.brand.gold[600],
+  },
+  titleLive: {
+    color: theme.colors.accent.green,
+  },
+  countdown: {
+    fontSize: ms(20, 0.3) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.brand.gold[600],
+    fontVariant: ['tabular-nums'],
+  },
+  track: {
+    height: ms(6, 0.1),
+    borderRadius: ms(3, 0.1),
+    backgroundColor: theme.colors.surface.soft,
+    overflow: 'hidden',
+    marginTop: ms(10, 0.1),
+  },
+  fill: {
+    height: '100%',
+    borderRadius: ms(3, 0.1),
+    backgroundColor: theme.colors.brand.gold[600],
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: ms(6, 0.1),
+  },
+  label: {
+    fontSize: ms(12, 0.3) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.muted,
+    marginTop: ms(2, 0.05),
+  },
+});
@@ -0,0 +1,81 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useDataIssues } from '../hooks/useDataIssues';
+import { useResponsive } from '../hooks/useResponsive';
+import { DataSource } from '../utils/dataIssues';
+
+type DataIssueBannerProps = {
+  sources: readonly DataSource[];
+  /** What is shown instead, e.g. "the last saved copy" or "calculated prayer times" */
+  fallbackLabel?: string;
+};
+
+/**
+ * Shown when a masjid document failed validation. Development builds list each
+ * bad field so the admin data can be fixed.
+ */
+export default function DataIssueBanner({
+  sources,
+  fallbackLabel = 'the last saved copy',
+}: DataIssueBannerProps): React.JSX.Element | null {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const issues = useDataIssues(sources);
+
+  if (issues.length === 0) return null;
+
+  return (
+    <View style={styles.container} accessibilityRole="alert">
+      <View style={styles.header}>
+        <Ionicons name="alert-circle-outline" size={ms(18, 0.2)} color={theme.colors.accent.amber} />
+        <Text style={styles.title}>Data issue</Text>
+      </View>
+      <Text style={styles.body}>
+        Some information from the masjid couldn&apos;t be read, so {fallbackLabel} is shown.
+      </Text>
+      {__DEV__ && issues.map((issue) => (
+        <Text key={issue.documentId ? `${issue.source}/${issue.documentId}` : issue.source} style={styles.detail}>
+          {issue.documentId ? `${issue.source}/${issue.documentId}` : issue.source}:{' '}
+          {issue.errors.map((error) => `${error.field} ${error.message}`).join('; ')}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.accent.amberSoft,
+    borderLeftWidth: ms(4, 0.05),
+    borderLeftColor: theme.colors.accent.amber,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: ms(14, 0.1),
+    paddingVertical: ms(10, 0.1),
+    marginBottom: ms(12, 0.1),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(6, 0.1),
+  },
+  title: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+  },
+  body: {
+    fontSize: ms(13, 0.3) * fontScale,
+    color: theme.colors.text.base,
+    marginTop: ms(4, 0.1),
+    lineHeight: ms(18, 0.3) * fontScale,
+  },
+  detail: {
+    fontSize: ms(11, 0.3) * fontScale,
+    color: theme.colors.text.muted,
+    marginTop: ms(4, 0.1),
+  },
+});
@@ -0,0 +1,175 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useWindowDimensions,
+} from 'react-native';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { daysBetween, parseDayKey } from '../utils/time';
+
+interface DateRangeModalProps {
+  visible: boolean;
+  /** 'YYYY-MM-DD' */
+  initialFrom: string;
+  initialTo: string;
+  onApply: (from: string, to: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for entering a custom from/to date range
+ */
+export default function DateRangeModal({
+  visible,
+  initialFrom,
+  initialTo,
+  onApply,
+  onClose,
+}: DateRangeModalProps): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  const [from, setFrom] = useState(initialFrom);
+  const [to, setTo] = useState(initialTo);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setFrom(initialFrom);
+    setTo(initialTo);
+    setError(null);
+  }, [visible, initialFrom, initialTo]);
+
+  const handleApply = () => {
+    const fromDay = parseDayKey(from.trim());
+    const toDay = parseDayKey(to.trim());
+    if (!fromDay || !toDay) {
+      setError('Enter dates like 2026-03-01');
+      return;
+    }
+    if (daysBetween(fromDay, toDay) < 0) {
+      setError('The end date must be on or after the start date');
+      return;
+    }
+    onApply(from.trim(), to.trim());
+  };
+
+  const renderField = (label: string, value: string, onChange: (text: string) => void) => (
+    <>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.input, error ? styles.inputError : undefined]}
+        placeholder="YYYY-MM-DD"
+        placeholderTextColor={theme.colors.text.muted}
+        value={value}
+        onChangeText={(text) => {
+          onChange(text);
+          if (error) setError(null);
+        }}
+        keyboardType="numbers-and-punctuation"
+        autoCapitalize="none"
+        autoCorrect={false}
+        maxLength={10}
+        numberOfLines={1}
+      />
+    </>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Custom dates</Text>
+            <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close">
+              <Ionicons name="close" size={ms(24, 0.2)} color={theme.colors.text.muted} />
+            </TouchableOpacity>
+          </View>
+
+          {renderField('From', from, setFrom)}
+          {renderField('To', to, setTo)}
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TouchableOpacity style={styles.submitButton} onPress={handleApply} accessibilityRole="button">
+            <Text style={styles.submitText}>Show events</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface.card,
+    borderTopLeftRadius: theme.radius.xl,
+    borderTopRightRadius: theme.radius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: ms(32, 0.1),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: ms(10, 0.1),
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    flex: 1,
+    fontSize: ms(18, 0.2) * fontScale,
+    fontWeight: 'bold',
+    color: theme.colors.text.strong,
+  },
+  label: {
+    fontSize: ms(13, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.muted,
+    marginBottom: ms(6, 0.1),
+  },
+  input: {
+    backgroundColor: theme.colors.surface.base,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    fontSize: ms(16, 0.2) * fontScale,
+    color: theme.colors.text.strong,
+    marginBottom: theme.spacing.md,
+    borderWidth: ms(2, 0.05),
+    borderColor: theme.colors.border.base,
+  },
+  inputError: {
+    borderColor: theme.colors.error[500],
+  },
+  errorText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.error[500],
+    marginBottom: theme.spacing.md,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.brand.navy[700],
+    borderRadius: theme.radius.md,
+    paddingVertical: ms(14, 0.1),
+    alignItems: 'center',
+  },
+  submitText: {
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.header,
+  },
+});
@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, Switch, Text, View, useWindowDimensions } from 'react-native';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useEventCategories } from '../hooks/useEventCategories';
+import { useResponsive } from '../hooks/useResponsive';
+import EventTopicService from '../services/EventTopicService';
+import FCMService from '../services/FCMService';
+
+type EventCategoryNotificationsProps = {
+  disabled?: boolean;
+};
+
+/**
+ * Per-category switches for event push notifications
+ */
+export default function EventCategoryNotifications({ disabled }: EventCategoryNotificationsProps): React.JSX.Element | null {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const { categories, hasRealData } = useEventCategories();
+  const [muted, setMuted] = useState<string[]>([]);
+
+  useEffect(() => {
+    EventTopicService.getMutedCategories().then(setMuted);
+  }, []);
+
+  const toggle = (categoryId: string, enabled: boolean) => {
+    // Optimistic update; topics and the server preference follow in the background
+    setMuted((current) => (enabled ? current.filter((id) => id !== categoryId) : [...current, categoryId]));
+    EventTopicService.setCategoryEnabled(categoryId, enabled)
+      .then(() => FCMService.syncEventCategories())
+      .catch((error) => {
+        console.error('Error saving event category notification:', error);
+      });
+  };
+
+  if (!hasRealData || categories.length === 0) return null;
+
+  return (
+    <View style={[styles.card, disabled && styles.disabled]} pointerEvents={disabled ? 'none' : 'auto'}>
+      <Text style={styles.title}>Event Notifications</Text>
+      <Text style={styles.subtitle}>
+        Choose which kinds of events you hear about. New categories are on until you turn them off.
+      </Text>
+
+      {categories.map((category) => {
+        const enabled = !muted.includes(category.id);
+        return (
+          <View key={category.id} style={styles.switchRow}>
+            <View style={[styles.swatch, { backgroundColor: category.color_text }]} />
+            <Text style={styles.switchLabel}>{category.label}</Text>
+            <Switch
+              value={enabled}
+              onValueChange={(value) => toggle(category.id, value)}
+              trackColor={{ false: theme.colors.surface.muted, true: theme.colors.accent.blue }}
+              thumbColor={enabled ? '#ffffff' : theme.colors.text.subtle}
+              accessibilityLabel={`${category.label} event notifications`}
+            />
+          </View>
+        );
+      })}
+
+      {disabled && (
+        <Text style={styles.disabledHint}>Turn on notifications to choose event categories.</Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.surface.card,
+    borderRadius: ms(12, 0.1),
+    padding: ms(16, 0.1),
+    marginTop: ms(20, 0.1),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: ms(2, 0.05) },
+    shadowOpacity: 0.1,
+    shadowRadius: ms(4, 0.1),
+    elevation: 3,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  title: {
+    fontSize: ms(18, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.base,
+    marginBottom: ms(4, 0.05),
+  },
+  subtitle: {
+    fontSize: ms(14, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+    lineHeight: ms(20, 0.2) * fontScale,
+    marginBottom: ms(8, 0.05),
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: ms(8, 0.05),
+    borderTopWidth: ms(1, 0.05),
+    borderTopColor: theme.colors.border.soft,
+  },
+  swatch: {
+    width: ms(10, 0.05),
+    height: ms(10, 0.05),
+    borderRadius: ms(5, 0.05),
+    marginRight: ms(10, 0.1),
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: ms(15, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.strong,
+    marginRight: ms(12, 0.1),
+  },
+  disabledHint: {
+    fontSize: ms(12, 0.2) * fontScale,
+    color: theme.colors.text.subtle,
+    marginTop: ms(8, 0.05),
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,410 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { Event, EventCategory, MosqueSettings } from '../types';
+import { HIJRI_MONTH_NAMES, formatHijriDate, getHijriOffsetDays, gregorianToHijri } from '../utils/hijri';
+import { getMosqueTimezone } from '../utils/prayerCalculation';
+import { CalendarDay, formatDayKey, getDaysInMonth, getZonedToday, isSameCalendarDay } from '../utils/time';
+import Badge from './ui/Badge';
+import Card from './ui/Card';
+
+export interface GridMonth {
+  year: number;
+  /** 1-12 */
+  month: number;
+}
+
+type EventMonthGridProps = {
+  events: Event[];
+  categories: EventCategory[];
+  mosqueSettings: MosqueSettings | null;
+  month: GridMonth;
+  onChangeMonth: (month: GridMonth) => void;
+  onPressEvent: (event: Event) => void;
+  /** Shown under the grid, e.g. while older events load */
+  footer?: React.ReactNode;
+};
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** Most category dots shown in one day cell */
+const MAX_DOTS = 3;
+
+export const shiftMonth = ({ year, month }: GridMonth, amount: number): GridMonth => {
+  const index = year * 12 + (month - 1) + amount;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
+
+const formatMonthTitle = ({ year, month }: GridMonth): string => {
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-AU', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+/**
+ * Month at a glance: category-coloured dots on days with events, the first
+ * day of each Hijri month marked in gold, and the tapped day's events below.
+ * Weeks start on Monday.
+ */
+export default function EventMonthGrid({
+  events,
+  categories,
+  mosqueSettings,
+  month,
+  onChangeMonth,
+  onPressEvent,
+  footer,
+}: EventMonthGridProps): React.JSX.Element {
+  const theme = useTheme();
+  const { formatDate, formatTime, orderDates } = useDisplayPreferences();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  const timeZone = getMosqueTimezone(mosqueSettings);
+  const hijriOffset = getHijriOffsetDays(mosqueSettings);
+  const today = getZonedToday(timeZone);
+  const [selectedDay, setSelectedDay] = useState<CalendarDay | null>(null);
+
+  // Select today when its month is shown, otherwise nothing
+  useEffect(() => {
+    const now = getZonedToday(timeZone);
+    setSelectedDay(now.year === month.year && now.month === month.month ? now : null);
+  }, [month, timeZone]);
+
+  const eventsByDay = useMemo(() => {
+    const map = new Map<string, Event[]>();
+    events.forEach((event) => {
+      const key = formatDayKey(getZonedToday(timeZone, event.date.toDate()));
+      map.set(key, [...(map.get(key) ?? []), event]);
+    });
+    map.forEach((dayEvents) => dayEvents.sort((a, b) => a.date.toMillis() - b.date.toMillis()));
+    return map;
+  }, [events, timeZone]);
+
+  const categoryById = useMemo(() => new Map(categories.map((category) => [category.id, category])), [categories]);
+
+  // Leading blanks up to the first Monday-based weekday, then each day of the month
+  const cells = useMemo(() => {
+    const firstWeekday = new Date(Date.UTC(month.year, month.month - 1, 1)).getUTCDay();
+    const leading = (firstWeekday + 6) % 7;
+    const days: (CalendarDay | null)[] = Array.from({ length: leading }, () => null);
+    for (let day = 1; day <= getDaysInMonth(month.year, month.month); day++) {
+      days.push({ year: month.year, month: month.month, day });
+    }
+    while (days.length % 7 !== 0) days.push(null);
+    return days;
+  }, [month]);
+
+  // e.g. "Rabi' al-Thani – Jumada al-Ula 1448 AH"
+  const hijriSpan = useMemo(() => {
+    const first = gregorianToHijri({ year: month.year, month: month.month, day: 1 }, hijriOffset);
+    const last = gregorianToHijri(
+      { year: month.year, month: month.month, day: getDaysInMonth(month.year, month.month) },
+      hijriOffset
+    );
+    const firstName = HIJRI_MONTH_NAMES[first.month - 1];
+    const lastName = HIJRI_MONTH_NAMES[last.month - 1];
+    if (first.year !== last.year) return `${firstName} ${first.year} – ${lastName} ${last.year} AH`;
+    return first.month === last.month ? `${firstName} ${first.year} AH` : `${firstName} – ${lastName} ${first.year} AH`;
+  }, [month, hijriOffset]);
+
+  const selectedEvents = selectedDay ? eventsByDay.get(formatDayKey(selectedDay)) ?? [] : [];
+
+  const renderCell = (day: CalendarDay | null, index: number) => {
+    if (!day) return <View key={`blank-${index}`} style={styles.cell} />;
+
+    const dayEvents = eventsByDay.get(formatDayKey(day)) ?? [];
+    const dotColors = Array.from(new Set(
+      dayEvents
+        .filter((event) => !event.is_cancelled)
+        .map((event) => categoryById.get(event.category)?.color_text ?? theme.colors.text.muted)
+    )).slice(0, MAX_DOTS);
+    const hijri = gregorianToHijri(day, hijriOffset);
+    const hijriStart = hijri.day === 1;
+    const selected = !!selectedDay && isSameCalendarDay(day, selectedDay);
+    const isToday = isSameCalendarDay(day, today);
+
+    return (
+      <TouchableOpacity
+        key={formatDayKey(day)}
+        style={styles.cell}
+        onPress={() => setSelectedDay(day)}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+        accessibilityLabel={[
+          formatDate(day),
+          hijriStart ? `first of ${HIJRI_MONTH_NAMES[hijri.month - 1]}` : '',
+          dayEvents.length > 0 ? `${dayEvents.length} ${dayEvents.length === 1 ? 'event' : 'events'}` : '',
+        ].filter(Boolean).join(', ')}
+      >
+        <View style={[
+          styles.dayCircle,
+          hijriStart && styles.hijriStartCircle,
+          isToday && styles.todayCircle,
+          selected && styles.selectedCircle,
+        ]}>
+          <Text style={[styles.dayNumber, selected && styles.selectedDayNumber]}>{day.day}</Text>
+        </View>
+        {hijriStart && (
+          <Text style={styles.hijriStartLabel} numberOfLines={1}>{HIJRI_MONTH_NAMES[hijri.month - 1]}</Text>
+        )}
+        <View style={[styles.dots, hijriStart && styles.dotsUnderLabel]}>
+          {dotColors.map((color) => (
+            <View key={color} style={[styles.dot, { backgroundColor: color }]} />
+          ))}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const selectedTitle = selectedDay
+    ? orderDates(formatDate(selectedDay), formatHijriDate(gregorianToHijri(selectedDay, hijriOffset), { withYear: false })).join(' · ')
+    : '';
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Card style={styles.gridCard}>
+        <View style={styles.monthHeader}>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => onChangeMonth(shiftMonth(month, -1))}
+            accessibilityRole="button"
+            accessibilityLabel="Previous month"
+          >
+            <Ionicons name="chevron-back" size={ms(22, 0.2)} color={theme.colors.brand.navy[700]} />
+          </TouchableOpacity>
+          <View style={styles.monthTitleBlock}>
+            <Text style={styles.monthTitle}>{formatMonthTitle(month)}</Text>
+            <Text style={styles.hijriSpan}>{hijriSpan}</Text>
+          </View>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => onChangeMonth(shiftMonth(month, 1))}
+            accessibilityRole="button"
+            accessibilityLabel="Next month"
+          >
+            <Ionicons name="chevron-forward" size={ms(22, 0.2)} color={theme.colors.brand.navy[700]} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.weekRow}>
+          {WEEKDAY_LABELS.map((label) => (
+            <Text key={label} style={styles.weekdayLabel}>{label}</Text>
+          ))}
+        </View>
+        <View style={styles.grid}>{cells.map(renderCell)}</View>
+
+        <View style={styles.legend}>
+          <View style={[styles.legendSwatch, styles.hijriStartCircle]} />
+          <Text style={styles.legendText}>First day of a Hijri month</Text>
+        </View>
+      </Card>
+
+      {footer}
+
+      {selectedDay && (
+        <View style={styles.dayEvents}>
+          <Text style={styles.dayTitle}>{selectedTitle}</Text>
+          {selectedEvents.length === 0 ? (
+            <Text style={styles.noEvents}>No events on this day</Text>
+          ) : (
+            selectedEvents.map((event) => {
+              const category = categoryById.get(event.category);
+              return (
+                <TouchableOpacity
+                  key={event.id}
+                  onPress={() => onPressEvent(event)}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${event.title}, ${formatTime(event.time)}`}
+                >
+                  <Card style={styles.eventRow}>
+                    <Text style={styles.eventTime}>{formatTime(event.time)}</Text>
+                    <View style={styles.eventInfo}>
+                      <Text style={[styles.eventTitle, event.is_cancelled && styles.cancelledTitle]} numberOfLines={2}>
+                        {event.title}
+                      </Text>
+                      {event.speaker ? <Text style={styles.eventMeta} numberOfLines={1}>{event.speaker}</Text> : null}
+                    </View>
+                    {event.is_cancelled ? (
+                      <Badge label="Cancelled" bgColor={theme.colors.error[100]} textColor={theme.colors.error[500]} />
+                    ) : category ? (
+                      <Badge label={category.label} bgColor={category.color_bg} textColor={category.color_text} />
+                    ) : null}
+                  </Card>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  content: {
+    padding: theme.spacing.lg,
+    paddingTop: ms(4, 0.1),
+    paddingBottom: ms(40, 0.1),
+  },
+  gridCard: {
+    marginBottom: ms(12, 0.1),
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: ms(10, 0.1),
+  },
+  monthButton: {
+    padding: ms(6, 0.1),
+  },
+  monthTitleBlock: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  monthTitle: {
+    fontSize: ms(17, 0.2) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+  },
+  hijriSpan: {
+    fontSize: ms(12, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.brand.gold[600],
+    marginTop: ms(2, 0.05),
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: ms(4, 0.1),
+  },
+  weekdayLabel: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: ms(11, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.muted,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: ms(4, 0.1),
+    // Room for the Hijri month label and the dots together, so every row is the same height
+    minHeight: ms(64, 0.2),
+  },
+  dayCircle: {
+    width: ms(34, 0.2),
+    height: ms(34, 0.2),
+    borderRadius: ms(17, 0.2),
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: ms(2, 0.05),
+    borderColor: 'transparent',
+  },
+  hijriStartCircle: {
+    borderColor: theme.colors.brand.gold[400],
+  },
+  todayCircle: {
+    backgroundColor: theme.colors.accent.blueSoft,
+  },
+  selectedCircle: {
+    backgroundColor: theme.colors.brand.navy[700],
+  },
+  dayNumber: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.strong,
+  },
+  selectedDayNumber: {
+    color: theme.colors.text.header,
+  },
+  hijriStartLabel: {
+    fontSize: ms(8, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.brand.gold[600],
+    marginTop: ms(2, 0.05),
+    maxWidth: '100%',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: ms(3, 0.05),
+    marginTop: ms(4, 0.05),
+    minHeight: ms(6, 0.05),
+  },
+  dotsUnderLabel: {
+    marginTop: ms(2, 0.05),
+  },
+  dot: {
+    width: ms(6, 0.05),
+    height: ms(6, 0.05),
+    borderRadius: ms(3, 0.05),
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(6, 0.1),
+    marginTop: ms(8, 0.1),
+  },
+  legendSwatch: {
+    width: ms(12, 0.1),
+    height: ms(12, 0.1),
+    borderRadius: ms(6, 0.1),
+    borderWidth: ms(2, 0.05),
+  },
+  legendText: {
+    fontSize: ms(12, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+  },
+  dayEvents: {
+    marginTop: ms(4, 0.1),
+  },
+  dayTitle: {
+    fontSize: ms(15, 0.2) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+    marginBottom: ms(8, 0.1),
+  },
+  noEvents: {
+    fontSize: ms(14, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(10, 0.1),
+    marginBottom: ms(8, 0.1),
+  },
+  eventTime: {
+    minWidth: ms(64, 0.2),
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.accent.blue,
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: ms(15, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+  },
+  cancelledTitle: {
+    textDecorationLine: 'line-through',
+    color: theme.colors.text.muted,
+  },
+  eventMeta: {
+    fontSize: ms(12, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+    marginTop: ms(2, 0.05),
+  },
+});
@@ -0,0 +1,347 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useWindowDimensions,
+} from 'react-native';
+import { useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import EventReminderScheduler, { getEventReminderTime, getEventStart } from '../services/EventReminderScheduler';
+import { Event, EventReminder, EventReminderMode } from '../types';
+import { formatDayKey, formatTimeInZone, getZonedToday, parseDayKey, parseTimeToMinutes, zonedTimeToDate } from '../utils/time';
+
+/** The custom time starts two hours before the event */
+const DEFAULT_CUSTOM_MINUTES_BEFORE = 120;
+
+const PRESET_OPTIONS: { mode: Exclude<EventReminderMode, 'custom'>; label: string }[] = [
+  { mode: 'hour_before', label: '1 hour before' },
+  { mode: 'morning_of', label: 'The morning of' },
+];
+
+interface EventReminderModalProps {
+  visible: boolean;
+  event: Event;
+  timeZone: string;
+  /** The reminder already set on this event, if any */
+  reminder?: EventReminder;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for choosing when to be reminded about an event
+ */
+export default function EventReminderModal({
+  visible,
+  event,
+  timeZone,
+  reminder,
+  onClose,
+}: EventReminderModalProps): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const { formatDate, formatInstantTime } = useDisplayPreferences();
+
+  const start = getEventStart(event, timeZone);
+  const { startsAt, allDay } = start;
+  const [mode, setMode] = useState<EventReminderMode>('hour_before');
+  const [customDay, setCustomDay] = useState('');
+  const [customTime, setCustomTime] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the current reminder each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    const customAt = reminder?.mode === 'custom'
+      ? reminder.remindAt
+      : startsAt - DEFAULT_CUSTOM_MINUTES_BEFORE * 60000;
+    setMode(allDay ? 'morning_of' : reminder?.mode ?? 'hour_before');
+    setCustomDay(formatDayKey(getZonedToday(timeZone, new Date(customAt))));
+    setCustomTime(formatTimeInZone(new Date(customAt), timeZone));
+    setError(null);
+  }, [visible, reminder, startsAt, allDay, timeZone]);
+
+  const describeTime = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${formatDate(getZonedToday(timeZone, date))} · ${formatInstantTime(date, timeZone)}`;
+  };
+
+  // Minutes before the start for the custom time, or an error to show
+  const readCustomTime = (): { minutesBefore: number } | { error: string } => {
+    const day = parseDayKey(customDay.trim());
+    const minutes = parseTimeToMinutes(customTime);
+    if (!day || minutes === null) {
+      return { error: 'Enter a date like 2026-03-01 and a time like 6:30 PM' };
+    }
+    const remindAt = zonedTimeToDate(day, minutes, timeZone).getTime();
+    if (remindAt >= startsAt) return { error: 'Pick a time before the event starts' };
+    if (remindAt <= Date.now()) return { error: 'That time has already passed' };
+    return { minutesBefore: Math.round((startsAt - remindAt) / 60000) };
+  };
+
+  const handleSave = async () => {
+    let minutesBefore: number | undefined;
+    if (mode === 'custom') {
+      const custom = readCustomTime();
+      if ('error' in custom) {
+        setError(custom.error);
+        return;
+      }
+      minutesBefore = custom.minutesBefore;
+    }
+
+    setSaving(true);
+    try {
+      await EventReminderScheduler.setReminder(event, mode, timeZone, minutesBefore);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await EventReminderScheduler.removeReminder(event.id);
+      onClose();
+    } catch (err) {
+      Alert.alert("Couldn't remove reminder", err instanceof Error ? err.message : 'Please try again.');
+    }
+  };
+
+  const renderOption = (optionMode: EventReminderMode, label: string, remindAt: number | null) => {
+    const passed = remindAt !== null && remindAt <= Date.now();
+    const selected = mode === optionMode;
+    return (
+      <TouchableOpacity
+        key={optionMode}
+        style={[styles.option, selected && styles.optionSelected, passed && styles.optionDisabled]}
+        onPress={() => {
+          setMode(optionMode);
+          setError(null);
+        }}
+        disabled={passed}
+        accessibilityRole="radio"
+        accessibilityState={{ selected, disabled: passed }}
+      >
+        <Ionicons
+          name={selected ? 'radio-button-on' : 'radio-button-off'}
+          size={ms(20, 0.2)}
+          color={selected ? theme.colors.brand.navy[700] : theme.colors.text.muted}
+        />
+        <View style={styles.optionContent}>
+          <Text style={styles.optionLabel}>{label}</Text>
+          {remindAt !== null && (
+            <Text style={styles.optionDetail}>{passed ? 'Already passed' : describeTime(remindAt)}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Remind me</Text>
+              <Text style={styles.subtitle} numberOfLines={2}>{event.title}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close">
+              <Ionicons name="close" size={ms(24, 0.2)} color={theme.colors.text.muted} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Without a clock time there is nothing to count back from, so only the morning reminder applies */}
+          {PRESET_OPTIONS.filter((option) => !allDay || option.mode === 'morning_of').map((option) =>
+            renderOption(option.mode, option.label, getEventReminderTime(option.mode, start, timeZone))
+          )}
+          {!allDay && renderOption('custom', 'Custom time', null)}
+
+          {mode === 'custom' && (
+            <View style={styles.customRow}>
+              <TextInput
+                style={[styles.input, styles.dayInput, error ? styles.inputError : undefined]}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={theme.colors.text.muted}
+                value={customDay}
+                onChangeText={(text) => {
+                  setCustomDay(text);
+                  if (error) setError(null);
+                }}
+                keyboardType="numbers-and-punctuation"
+                autoCapitalize="none"
+                autoCorrect={false}
+                maxLength={10}
+                accessibilityLabel="Reminder date"
+              />
+              <TextInput
+                style={[styles.input, styles.timeInput, error ? styles.inputError : undefined]}
+                placeholder="6:30 PM"
+                placeholderTextColor={theme.colors.text.muted}
+                value={customTime}
+                onChangeText={(text) => {
+                  setCustomTime(text);
+                  if (error) setError(null);
+                }}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={8}
+                accessibilityLabel="Reminder time"
+              />
+            </View>
+          )}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.submitButton, saving && styles.submitDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+            accessibilityRole="button"
+          >
+            <Text style={styles.submitText}>{saving ? 'Saving…' : reminder ? 'Update reminder' : 'Set reminder'}</Text>
+          </TouchableOpacity>
+
+          {reminder && (
+            <TouchableOpacity style={styles.removeButton} onPress={handleRemove} accessibilityRole="button">
+              <Text style={styles.removeText}>Remove reminder</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface.card,
+    borderTopLeftRadius: theme.radius.xl,
+    borderTopRightRadius: theme.radius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: ms(32, 0.1),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: ms(10, 0.1),
+    marginBottom: theme.spacing.md,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: ms(18, 0.2) * fontScale,
+    fontWeight: 'bold',
+    color: theme.colors.text.strong,
+  },
+  subtitle: {
+    fontSize: ms(14, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+    marginTop: ms(2, 0.05),
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(10, 0.1),
+    padding: theme.spacing.md,
+    borderRadius: theme.radius.md,
+    borderWidth: ms(2, 0.05),
+    borderColor: theme.colors.border.base,
+    marginBottom: ms(8, 0.1),
+  },
+  optionSelected: {
+    borderColor: theme.colors.brand.navy[700],
+    backgroundColor: theme.colors.surface.soft,
+  },
+  optionDisabled: {
+    opacity: 0.5,
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: ms(15, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.strong,
+  },
+  optionDetail: {
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+    marginTop: ms(2, 0.05),
+  },
+  customRow: {
+    flexDirection: 'row',
+    gap: ms(8, 0.1),
+  },
+  input: {
+    backgroundColor: theme.colors.surface.base,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    fontSize: ms(16, 0.2) * fontScale,
+    color: theme.colors.text.strong,
+    marginBottom: ms(8, 0.1),
+    borderWidth: ms(2, 0.05),
+    borderColor: theme.colors.border.base,
+  },
+  dayInput: {
+    flex: 3,
+  },
+  timeInput: {
+    flex: 2,
+  },
+  inputError: {
+    borderColor: theme.colors.error[500],
+  },
+  errorText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.error[500],
+    marginBottom: ms(8, 0.1),
+  },
+  submitButton: {
+    backgroundColor: theme.colors.brand.navy[700],
+    borderRadius: theme.radius.md,
+    paddingVertical: ms(14, 0.1),
+    alignItems: 'center',
+    marginTop: ms(8, 0.1),
+  },
+  submitDisabled: {
+    opacity: 0.6,
+  },
+  submitText: {
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.header,
+  },
+  removeButton: {
+    alignItems: 'center',
+    paddingVertical: ms(12, 0.1),
+  },
+  removeText: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.error[500],
+  },
+});
@@ -0,0 +1,155 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { FlatList, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import ObservanceReminderScheduler from '../services/ObservanceReminderScheduler';
+import { MosqueSettings } from '../types';
+import { formatHijriDate, getHijriOffsetDays } from '../utils/hijri';
+import { IslamicObservance, ObservanceKey, getUpcomingObservances } from '../utils/islamicObservances';
+import { getMosqueTimezone } from '../utils/prayerCalculation';
+import { getZonedToday } from '../utils/time';
+import Badge from './ui/Badge';
+import Card from './ui/Card';
+
+type IslamicCalendarListProps = {
+  mosqueSettings: MosqueSettings | null;
+};
+
+const formatDaysRemaining = (days: number): string => {
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return `In ${days} days`;
+};
+
+export default function IslamicCalendarList({ mosqueSettings }: IslamicCalendarListProps): React.JSX.Element {
+  const theme = useTheme();
+  const { formatDate, hijriPosition } = useDisplayPreferences();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const [enabledKeys, setEnabledKeys] = useState<ObservanceKey[]>([]);
+
+  const timeZone = getMosqueTimezone(mosqueSettings);
+  const observances = useMemo(
+    () => getUpcomingObservances(getZonedToday(timeZone), getHijriOffsetDays(mosqueSettings)),
+    [timeZone, mosqueSettings]
+  );
+
+  useEffect(() => {
+    ObservanceReminderScheduler.getEnabledKeys().then(setEnabledKeys);
+  }, []);
+
+  const toggleReminder = useCallback((key: ObservanceKey) => {
+    const enable = !enabledKeys.includes(key);
+    setEnabledKeys((current) => (enable ? [...current, key] : current.filter((k) => k !== key)));
+    ObservanceReminderScheduler.setEnabled(key, enable).catch((error) => {
+      console.error('Error saving observance reminder:', error);
+    });
+  }, [enabledKeys]);
+
+  const renderItem = useCallback(({ item }: { item: IslamicObservance }) => {
+    const reminderOn = enabledKeys.includes(item.key);
+    const hijri = <Text key="hijri" style={styles.hijri}>{formatHijriDate(item.hijri)}</Text>;
+    const gregorian = <Text key="gregorian" style={styles.gregorian}>{formatDate(item.date)}</Text>;
+    return (
+      <Card style={styles.card}>
+        <View style={styles.row}>
+          <View style={styles.content}>
+            <Text style={styles.title}>{item.title}</Text>
+            {hijriPosition === 'first' ? [hijri, gregorian] : [gregorian, hijri]}
+          </View>
+          <View style={styles.side}>
+            <Badge
+              label={formatDaysRemaining(item.daysRemaining)}
+              bgColor={item.daysRemaining <= 1 ? theme.colors.accent.amberSoft : theme.colors.surface.soft}
+              textColor={item.daysRemaining <= 1 ? theme.colors.brand.gold[600] : theme.colors.text.muted}
+            />
+            <TouchableOpacity
+              style={styles.bell}
+              onPress={() => toggleReminder(item.key)}
+              accessibilityRole="switch"
+              accessibilityState={{ checked: reminderOn }}
+              accessibilityLabel={`Remind me about ${item.title}`}
+            >
+              <Ionicons
+                name={reminderOn ? 'notifications' : 'notifications-outline'}
+                size={ms(22, 0.2)}
+                color={reminderOn ? theme.colors.brand.gold[600] : theme.colors.text.muted}
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+        <Text style={styles.description}>{item.description}</Text>
+      </Card>
+    );
+  }, [enabledKeys, styles, theme, ms, toggleReminder, formatDate, hijriPosition]);
+
+  return (
+    <FlatList
+      data={observances}
+      keyExtractor={(item) => item.id}
+      renderItem={renderItem}
+      contentContainerStyle={styles.listContent}
+      ListHeaderComponent={
+        <Text style={styles.hint}>
+          Dates follow the Umm al-Qura calendar{getHijriOffsetDays(mosqueSettings) !== 0 ? ', adjusted for local moon sighting' : ''} and may change by a day. Tap the bell to be reminded the evening before.
+        </Text>
+      }
+    />
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  listContent: {
+    padding: theme.spacing.lg,
+    paddingBottom: ms(40, 0.1),
+  },
+  hint: {
+    fontSize: ms(12, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+    marginBottom: ms(12, 0.1),
+    lineHeight: ms(18, 0.2) * fontScale,
+  },
+  card: {
+    marginBottom: ms(12, 0.1),
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  content: {
+    flex: 1,
+    marginRight: ms(8, 0.1),
+  },
+  title: {
+    fontSize: ms(16, 0.3) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+  },
+  hijri: {
+    fontSize: ms(13, 0.3) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.brand.gold[600],
+    marginTop: ms(2, 0.05),
+  },
+  gregorian: {
+    fontSize: ms(13, 0.3) * fontScale,
+    color: theme.colors.text.base,
+    marginTop: ms(2, 0.05),
+  },
+  side: {
+    alignItems: 'flex-end',
+    gap: ms(8, 0.1),
+  },
+  bell: {
+    padding: ms(4, 0.1),
+  },
+  description: {
+    fontSize: ms(13, 0.3) * fontScale,
+    color: theme.colors.text.muted,
+    marginTop: ms(8, 0.1),
+    lineHeight: ms(18, 0.3) * fontScale,
+  },
+});
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, Switch, Text, View, useWindowDimensions } from 'react-native';
+import { DEFAULT_PRAYER_REMINDER_SETTINGS, REMINDER_MINUTE_OPTIONS, REMINDER_PRAYERS } from '../constants/prayerReminders';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import PrayerReminderScheduler from '../services/PrayerReminderScheduler';
+import { PrayerReminderMode, PrayerReminderSettings, RamadanAlertSettings, ReminderPrayerKey } from '../types';
+import PillButton from './ui/PillButton';
+
+type PrayerReminderMatrixProps = {
+  disabled?: boolean;
+};
+
+const modeOptions = (prayer: ReminderPrayerKey): { mode: PrayerReminderMode; label: string }[] => [
+  // Jumu'ah has no adhan time of its own, so both choices are anchored on the khutbah
+  { mode: 'adhan', label: prayer === 'jumuah' ? 'At khutbah' : 'At adhan' },
+  { mode: 'before_iqama', label: prayer === 'jumuah' ? 'Before khutbah' : 'Before iqama' },
+  { mode: 'off', label: 'Off' },
+];
+
+export default function PrayerReminderMatrix({ disabled }: PrayerReminderMatrixProps): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const [settings, setSettings] = useState<PrayerReminderSettings>(DEFAULT_PRAYER_REMINDER_SETTINGS);
+  const [ramadanAlerts, setRamadanAlerts] = useState<RamadanAlertSettings>({ suhoor: false, iftar: false });
+
+  useEffect(() => {
+    PrayerReminderScheduler.getSettings().then(setSettings);
+    PrayerReminderScheduler.getRamadanAlerts().then(setRamadanAlerts);
+  }, []);
+
+  const updateRamadanAlert = (key: keyof RamadanAlertSettings, value: boolean) => {
+    // Optimistic update; the scheduler merges the change with the stored settings
+    setRamadanAlerts((current) => ({ ...current, [key]: value }));
+    PrayerReminderScheduler.updateRamadanAlerts({ [key]: value }).catch((error) => {
+      console.error('Error saving Ramadan alert setting:', error);
+    });
+  };
+
+  const update = (prayer: ReminderPrayerKey, mode: PrayerReminderMode, minutesBefore: number) => {
+    // Optimistic update; the scheduler persists and re-plans in the background
+    setSettings((current) => ({ ...current, [prayer]: { mode, minutesBefore } }));
+    PrayerReminderScheduler.updateSetting(prayer, { mode, minutesBefore }).catch((error) => {
+      console.error('Error saving prayer reminder setting:', error);
+    });
+  };
+
+  return (
+    <View style={[styles.card, disabled && styles.disabled]} pointerEvents={disabled ? 'none' : 'auto'}>
+      <Text style={styles.title}>Prayer Reminders</Text>
+      <Text style={styles.subtitle}>
+        Choose when each prayer alerts you. Reminders are scheduled on this device and work offline.
+      </Text>
+
+      {REMINDER_PRAYERS.map(({ key, label }) => {
+        const setting = settings[key];
+        return (
+          <View key={key} style={styles.prayerRow}>
+            <Text style={styles.prayerLabel}>{label}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {modeOptions(key).map((option) => (
+                <PillButton
+                  key={option.mode}
+                  label={option.label}
+                  selected={setting.mode === option.mode}
+                  onPress={() => update(key, option.mode, setting.minutesBefore)}
+                  style={styles.pill}
+                  textStyle={styles.pillText}
+                />
+              ))}
+            </ScrollView>
+            {setting.mode === 'before_iqama' && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.minutesRow}>
+                {REMINDER_MINUTE_OPTIONS.map((minutes) => (
+                  <PillButton
+                    key={minutes}
+                    label={`${minutes} min`}
+                    selected={setting.minutesBefore === minutes}
+                    onPress={() => update(key, 'before_iqama', minutes)}
+                    style={styles.pill}
+                    textStyle={styles.pillText}
+                  />
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        );
+      })}
+
+      <View style={styles.prayerRow}>
+        <Text style={styles.prayerLabel}>During Ramadan</Text>
+        {([
+          { key: 'suhoor', label: 'Suhoor alert', hint: '30 minutes before suhoor ends' },
+          { key: 'iftar', label: 'Iftar alert', hint: 'At the Maghrib adhan' },
+        ] as const).map((alert) => (
+          <View key={alert.key} style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>{alert.label}</Text>
+              <Text style={styles.switchHint}>{alert.hint}</Text>
+            </View>
+            <Switch
+              value={ramadanAlerts[alert.key]}
+              onValueChange={(value) => updateRamadanAlert(alert.key, value)}
+              trackColor={{ false: theme.colors.surface.muted, true: theme.colors.accent.blue }}
+              thumbColor={ramadanAlerts[alert.key] ? '#ffffff' : theme.colors.text.subtle}
+            />
+          </View>
+        ))}
+      </View>
+
+      {disabled && (
+        <Text style={styles.disabledHint}>Turn on notifications to receive prayer reminders.</Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.surface.card,
+    borderRadius: ms(12, 0.1),
+    padding: ms(16, 0.1),
+    marginTop: ms(20, 0.1),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: ms(2, 0.05) },
+    shadowOpacity: 0.1,
+    shadowRadius: ms(4, 0.1),
+    elevation: 3,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  title: {
+    fontSize: ms(18, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.base,
+    marginBottom: ms(4, 0.05),
+  },
+  subtitle: {
+    fontSize: ms(14, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+    lineHeight: ms(20, 0.2) * fontScale,
+    marginBottom: ms(8, 0.05),
+  },
+  prayerRow: {
+    paddingVertical: ms(10, 0.05),
+    borderTopWidth: ms(1, 0.05),
+    borderTopColor: theme.colors.border.soft,
+  },
+  prayerLabel: {
+    fontSize: ms(15, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+    marginBottom: ms(6, 0.05),
+  },
+  minutesRow: {
+    marginTop: ms(8, 0.05),
+  },
+  pill: {
+    paddingVertical: ms(6, 0.1),
+    paddingHorizontal: ms(12, 0.1),
+    minHeight: ms(32, 0.1),
+  },
+  pillText: {
+    fontSize: ms(12, 0.2) * fontScale,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: ms(4, 0.05),
+  },
+  switchText: {
+    flex: 1,
+    marginRight: ms(12, 0.1),
+  },
+  switchLabel: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.base,
+  },
+  switchHint: {
+    fontSize: ms(12, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+  },
+  disabledHint: {
+    fontSize: ms(12, 0.2) * fontScale,
+    color: theme.colors.text.subtle,
+    marginTop: ms(8, 0.05),
+    textAlign: 'center',
+  },
+});
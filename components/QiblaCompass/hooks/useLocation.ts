@@ -3,6 +3,7 @@
  * 
  * Custom hook for managing user location with permission handling.
  * Returns current coordinates for Qibla calculation.
+ * Pass `requestPermission: false` to use the location only if access was already granted.
  */
 
 import * as Location from 'expo-location';
@@ -20,7 +21,12 @@ export interface LocationState {
   hasPermission: boolean | null;
 }
 
-export const useLocation = () => {
+export interface UseLocationOptions {
+  /** Ask for permission when it hasn't been granted yet (default true) */
+  requestPermission?: boolean;
+}
+
+export const useLocation = ({ requestPermission = true }: UseLocationOptions = {}) => {
   const [state, setState] = useState<LocationState>({
     coordinates: null,
     isLoading: true,
@@ -35,6 +41,12 @@ export const useLocation = () => {
       try {
         // Check current permission first
         let { status } = await Location.getForegroundPermissionsAsync();
+        if (status !== 'granted' && !requestPermission) {
+          if (isMounted) {
+            setState({ coordinates: null, isLoading: false, error: null, hasPermission: false });
+          }
+          return;
+        }
         if (status !== 'granted') {
           const req = await Location.requestForegroundPermissionsAsync();
           status = req.status;
@@ -97,7 +109,7 @@ export const useLocation = () => {
     return () => {
       isMounted = false;
     };
-  }, []);
+  }, [requestPermission]);
 
   /**
    * Retry getting location
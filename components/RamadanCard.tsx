@@ -0,0 +1,100 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+import { useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { RamadanDay } from '../utils/ramadan';
+
+type RamadanCardProps = {
+  ramadan: RamadanDay;
+};
+
+export default function RamadanCard({ ramadan }: RamadanCardProps): React.JSX.Element {
+  const theme = useTheme();
+  const { formatTime } = useDisplayPreferences();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  const tiles: { key: string; label: string; time: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+    { key: 'imsak', label: 'Suhoor ends', time: formatTime(ramadan.imsak), icon: 'moon' },
+    { key: 'iftar', label: 'Iftar', time: formatTime(ramadan.iftar), icon: 'restaurant' },
+    { key: 'taraweeh', label: 'Taraweeh', time: ramadan.taraweeh ? formatTime(ramadan.taraweeh) : 'After Isha', icon: 'people' },
+  ];
+
+  return (
+    <View style={styles.card} accessibilityLabel={`Ramadan day ${ramadan.dayNumber}`}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Ramadan</Text>
+        <View style={styles.dayBadge}>
+          <Text style={styles.dayBadgeText}>Day {ramadan.dayNumber}</Text>
+        </View>
+      </View>
+      <View style={styles.tiles}>
+        {tiles.map((tile) => (
+          <View key={tile.key} style={styles.tile}>
+            <Ionicons name={tile.icon} size={ms(20, 0.2)} color={theme.colors.brand.gold[600]} />
+            <Text style={styles.tileLabel}>{tile.label}</Text>
+            <Text style={styles.tileTime} numberOfLines={1}>{tile.time}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.surface.base,
+    borderRadius: theme.radius.lg,
+    padding: theme.spacing.lg,
+    marginBottom: ms(12, 0.1),
+    ...theme.shadow.soft,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: ms(12, 0.1),
+  },
+  title: {
+    fontSize: ms(18, 0.3) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+  },
+  dayBadge: {
+    backgroundColor: theme.colors.accent.amberSoft,
+    borderRadius: ms(12, 0.1),
+    paddingHorizontal: ms(10, 0.1),
+    paddingVertical: ms(4, 0.05),
+  },
+  dayBadgeText: {
+    fontSize: ms(13, 0.3) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.brand.gold[600],
+  },
+  tiles: {
+    flexDirection: 'row',
+    gap: ms(8, 0.1),
+  },
+  tile: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: ms(10, 0.1),
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.surface.soft,
+  },
+  tileLabel: {
+    fontSize: ms(11, 0.3) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.muted,
+    marginTop: ms(4, 0.05),
+  },
+  tileTime: {
+    fontSize: ms(15, 0.3) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+    marginTop: ms(2, 0.05),
+  },
+});
@@ -0,0 +1,366 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useWindowDimensions,
+} from 'react-native';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { RegistrationAnswer, RegistrationAnswers, RegistrationField, RegistrationForm, RegistrationFormData } from '../types/registration';
+import {
+  MAX_TEXT_ANSWER_LENGTH,
+  RegistrationErrors,
+  createEmptyAnswers,
+  createEmptyRegistration,
+  getAttendeeLimits,
+  getRegistrationErrorKey,
+  validateRegistration,
+} from '../utils/registrationForm';
+import PillButton from './ui/PillButton';
+
+interface RegistrationFormModalProps {
+  visible: boolean;
+  eventTitle: string;
+  form: RegistrationForm;
+  submitting: boolean;
+  /** Called with the validated, cleaned answers */
+  onSubmit: (data: RegistrationFormData) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet that renders an event's registration form from its definition
+ */
+export default function RegistrationFormModal({
+  visible,
+  eventTitle,
+  form,
+  submitting,
+  onSubmit,
+  onClose,
+}: RegistrationFormModalProps): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  const [data, setData] = useState<RegistrationFormData>(() => createEmptyRegistration(form));
+  const [errors, setErrors] = useState<RegistrationErrors>({});
+  const { min: minAttendees, max: maxAttendees } = getAttendeeLimits(form);
+  const attendeeLabel = form.attendees?.label || 'Attendee';
+
+  // Start each registration from a blank form
+  useEffect(() => {
+    if (!visible) return;
+    setData(createEmptyRegistration(form));
+    setErrors({});
+  }, [visible, form]);
+
+  const clearError = (key: string) => {
+    if (!errors[key]) return;
+    setErrors((current) => {
+      const { [key]: _removed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const setAnswer = (fieldId: string, value: RegistrationAnswer, attendeeIndex?: number) => {
+    clearError(getRegistrationErrorKey(fieldId, attendeeIndex));
+    setData((current) => attendeeIndex === undefined
+      ? { ...current, answers: { ...current.answers, [fieldId]: value } }
+      : {
+        ...current,
+        attendees: current.attendees.map((attendee, index) =>
+          index === attendeeIndex ? { ...attendee, [fieldId]: value } : attendee
+        ),
+      });
+  };
+
+  const addAttendee = () => {
+    if (!form.attendees) return;
+    clearError('attendees');
+    setData((current) => ({ ...current, attendees: [...current.attendees, createEmptyAnswers(form.attendees!.fields)] }));
+  };
+
+  // Errors are keyed by position, so they are cleared rather than shifted when an attendee is removed
+  const removeAttendee = (attendeeIndex: number) => {
+    setErrors({});
+    setData((current) => ({ ...current, attendees: current.attendees.filter((_, index) => index !== attendeeIndex) }));
+  };
+
+  const handleSubmit = () => {
+    const validation = validateRegistration(form, data);
+    if (!validation.valid) {
+      setErrors(validation.errors);
+      return;
+    }
+    onSubmit(validation.value);
+  };
+
+  const renderField = (field: RegistrationField, answers: RegistrationAnswers, attendeeIndex?: number) => {
+    const error = errors[getRegistrationErrorKey(field.id, attendeeIndex)];
+    const value = answers[field.id];
+    const label = `${field.label}${field.required ? ' *' : ''}`;
+
+    if (field.type === 'checkbox') {
+      const checked = value === true;
+      return (
+        <View key={field.id} style={styles.field}>
+          <TouchableOpacity
+            style={styles.checkboxRow}
+            onPress={() => setAnswer(field.id, !checked, attendeeIndex)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked }}
+          >
+            <Ionicons
+              name={checked ? 'checkbox' : 'square-outline'}
+              size={ms(22, 0.2)}
+              color={error ? theme.colors.error[500] : theme.colors.brand.navy[700]}
+            />
+            <Text style={styles.checkboxLabel}>{label}</Text>
+          </TouchableOpacity>
+          {field.help && <Text style={styles.help}>{field.help}</Text>}
+          {error && <Text style={styles.errorText}>{error}</Text>}
+        </View>
+      );
+    }
+
+    return (
+      <View key={field.id} style={styles.field}>
+        <Text style={styles.label}>{label}</Text>
+        {field.help && <Text style={styles.help}>{field.help}</Text>}
+        {field.type === 'choice' ? (
+          <View style={styles.choices}>
+            {(field.options || []).map((option) => (
+              <PillButton
+                key={option}
+                label={option}
+                selected={value === option}
+                onPress={() => setAnswer(field.id, value === option ? '' : option, attendeeIndex)}
+              />
+            ))}
+          </View>
+        ) : (
+          <TextInput
+            style={[styles.input, error ? styles.inputError : undefined]}
+            placeholder={field.placeholder}
+            placeholderTextColor={theme.colors.text.muted}
+            value={typeof value === 'string' ? value : value === undefined ? '' : String(value)}
+            onChangeText={(text) => setAnswer(field.id, text, attendeeIndex)}
+            keyboardType={field.type === 'number' ? 'numeric' : 'default'}
+            maxLength={field.type === 'number' ? 12 : MAX_TEXT_ANSWER_LENGTH}
+            accessibilityLabel={field.label}
+          />
+        )}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+      </View>
+    );
+  };
+
+  const hasErrors = Object.keys(errors).length > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={2}>Register · {eventTitle}</Text>
+            <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close">
+              <Ionicons name="close" size={ms(24, 0.2)} color={theme.colors.text.muted} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.scrollContent}>
+            {form.fields.map((field) => renderField(field, data.answers))}
+
+            {form.attendees && (
+              <>
+                {data.attendees.map((attendee, attendeeIndex) => (
+                  <View key={attendeeIndex} style={styles.attendee}>
+                    <View style={styles.attendeeHeader}>
+                      <Text style={styles.attendeeTitle}>{attendeeLabel} {attendeeIndex + 1}</Text>
+                      {data.attendees.length > Math.max(minAttendees, 1) && (
+                        <TouchableOpacity
+                          onPress={() => removeAttendee(attendeeIndex)}
+                          accessibilityRole="button"
+                          accessibilityLabel={`Remove ${attendeeLabel} ${attendeeIndex + 1}`}
+                        >
+                          <Text style={styles.removeText}>Remove</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                    {form.attendees!.fields.map((field) => renderField(field, attendee, attendeeIndex))}
+                  </View>
+                ))}
+                {data.attendees.length < maxAttendees && (
+                  <TouchableOpacity style={styles.addButton} onPress={addAttendee} accessibilityRole="button">
+                    <Ionicons name="add" size={ms(18, 0.2)} color={theme.colors.brand.navy[700]} />
+                    <Text style={styles.addText}>Add {attendeeLabel.toLowerCase()}</Text>
+                  </TouchableOpacity>
+                )}
+                {errors.attendees && <Text style={styles.errorText}>{errors.attendees}</Text>}
+              </>
+            )}
+          </ScrollView>
+
+          {hasErrors && <Text style={styles.errorText}>Please check the highlighted answers.</Text>}
+          <TouchableOpacity
+            style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting}
+            accessibilityRole="button"
+          >
+            {submitting ? (
+              <ActivityIndicator color={theme.colors.text.header} />
+            ) : (
+              <Text style={styles.submitText}>Submit registration</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: theme.colors.surface.card,
+    borderTopLeftRadius: theme.radius.xl,
+    borderTopRightRadius: theme.radius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: ms(32, 0.1),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: ms(10, 0.1),
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    flex: 1,
+    fontSize: ms(18, 0.2) * fontScale,
+    fontWeight: 'bold',
+    color: theme.colors.text.strong,
+  },
+  scrollContent: {
+    paddingBottom: theme.spacing.sm,
+  },
+  field: {
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: ms(13, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.muted,
+    marginBottom: ms(6, 0.1),
+  },
+  help: {
+    fontSize: ms(12, 0.2) * fontScale,
+    color: theme.colors.text.subtle,
+    marginBottom: ms(6, 0.1),
+  },
+  input: {
+    backgroundColor: theme.colors.surface.base,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    fontSize: ms(16, 0.2) * fontScale,
+    color: theme.colors.text.strong,
+    borderWidth: ms(2, 0.05),
+    borderColor: theme.colors.border.base,
+  },
+  inputError: {
+    borderColor: theme.colors.error[500],
+  },
+  choices: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: ms(8, 0.1),
+  },
+  checkboxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(10, 0.1),
+  },
+  checkboxLabel: {
+    flex: 1,
+    fontSize: ms(15, 0.2) * fontScale,
+    color: theme.colors.text.strong,
+  },
+  errorText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.error[500],
+    marginTop: ms(4, 0.1),
+    marginBottom: ms(4, 0.1),
+  },
+  attendee: {
+    backgroundColor: theme.colors.surface.soft,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    paddingBottom: 0,
+    marginBottom: theme.spacing.md,
+  },
+  attendeeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.sm,
+  },
+  attendeeTitle: {
+    fontSize: ms(15, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+  },
+  removeText: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.error[500],
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: ms(6, 0.1),
+    paddingVertical: ms(10, 0.1),
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.accent.blueSoft,
+    marginBottom: theme.spacing.sm,
+  },
+  addText: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.brand.navy[700],
+  },
+  submitButton: {
+    backgroundColor: theme.colors.brand.navy[700],
+    borderRadius: theme.radius.md,
+    paddingVertical: ms(14, 0.1),
+    alignItems: 'center',
+    marginTop: ms(8, 0.1),
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitText: {
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.header,
+  },
+});
@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { Registration, RegistrationAnswers, RegistrationField } from '../types/registration';
+import { formatRegistrationAnswer } from '../utils/registrationForm';
+
+interface RegistrationSummaryProps {
+  registration: Registration;
+}
+
+/**
+ * The answers of a saved registration, labelled from the form as it was when submitted
+ */
+export default function RegistrationSummary({ registration }: RegistrationSummaryProps): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+  const { form } = registration;
+
+  const renderAnswers = (fields: RegistrationField[], answers: RegistrationAnswers) =>
+    fields.map((field) => (
+      <View key={field.id} style={styles.row}>
+        <Text style={styles.label}>{field.label}</Text>
+        <Text style={styles.value}>{formatRegistrationAnswer(field, answers[field.id])}</Text>
+      </View>
+    ));
+
+  return (
+    <View>
+      {renderAnswers(form.fields, registration.answers)}
+      {form.attendees && registration.attendees.map((attendee, index) => (
+        <View key={index} style={styles.attendee}>
+          <Text style={styles.attendeeTitle}>{form.attendees!.label} {index + 1}</Text>
+          {renderAnswers(form.attendees!.fields, attendee)}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: ms(12, 0.1),
+    paddingVertical: ms(6, 0.1),
+    borderTopWidth: ms(1, 0.05),
+    borderTopColor: theme.colors.border.soft,
+  },
+  label: {
+    flex: 1,
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.text.muted,
+  },
+  value: {
+    flex: 1,
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.strong,
+    textAlign: 'right',
+  },
+  attendee: {
+    marginTop: ms(10, 0.1),
+  },
+  attendeeTitle: {
+    fontSize: ms(14, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+    marginBottom: ms(4, 0.1),
+  },
+});
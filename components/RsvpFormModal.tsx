@@ -0,0 +1,260 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  useWindowDimensions,
+} from 'react-native';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { RsvpFormData } from '../types/rsvp';
+
+/** Largest party one RSVP can book */
+export const MAX_PARTY_SIZE = 10;
+
+interface RsvpFormModalProps {
+  visible: boolean;
+  eventTitle: string;
+  /** Places left, or null when the event has no limit */
+  placesLeft: number | null;
+  initialName?: string;
+  initialContact?: string;
+  submitting: boolean;
+  onSubmit: (form: RsvpFormData) => void;
+  onClose: () => void;
+}
+
+export default function RsvpFormModal({
+  visible,
+  eventTitle,
+  placesLeft,
+  initialName = '',
+  initialContact = '',
+  submitting,
+  onSubmit,
+  onClose,
+}: RsvpFormModalProps): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  const [name, setName] = useState(initialName);
+  const [partySize, setPartySize] = useState(1);
+  const [contact, setContact] = useState(initialContact);
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  // Start each RSVP from the details used last time
+  useEffect(() => {
+    if (!visible) return;
+    setName(initialName);
+    setContact(initialContact);
+    setPartySize(1);
+    setNameError(null);
+  }, [visible, initialName, initialContact]);
+
+  // Parties larger than the places left go on the waitlist
+  const waitlisted = placesLeft !== null && partySize > placesLeft;
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      setNameError('Please enter your name');
+      return;
+    }
+    onSubmit({ name: name.trim(), partySize, contact: contact.trim() || undefined });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={2}>
+              {waitlisted ? 'Join the waitlist' : 'RSVP'} · {eventTitle}
+            </Text>
+            <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close">
+              <Ionicons name="close" size={ms(24, 0.2)} color={theme.colors.text.muted} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={[styles.input, nameError ? styles.inputError : undefined]}
+            placeholder="Full Name *"
+            placeholderTextColor={theme.colors.text.muted}
+            value={name}
+            onChangeText={(text) => {
+              setName(text);
+              if (nameError) setNameError(null);
+            }}
+            autoCapitalize="words"
+            numberOfLines={1}
+          />
+          {nameError && <Text style={styles.errorText}>{nameError}</Text>}
+
+          <Text style={styles.label}>Party size</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setPartySize((size) => Math.max(1, size - 1))}
+              disabled={partySize <= 1}
+              accessibilityRole="button"
+              accessibilityLabel="Fewer people"
+            >
+              <Ionicons name="remove" size={ms(20, 0.2)} color={theme.colors.brand.navy[700]} />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue} accessibilityLiveRegion="polite">
+              {partySize} {partySize === 1 ? 'person' : 'people'}
+            </Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setPartySize((size) => Math.min(MAX_PARTY_SIZE, size + 1))}
+              disabled={partySize >= MAX_PARTY_SIZE}
+              accessibilityRole="button"
+              accessibilityLabel="More people"
+            >
+              <Ionicons name="add" size={ms(20, 0.2)} color={theme.colors.brand.navy[700]} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Phone or email</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Contact (optional)"
+            placeholderTextColor={theme.colors.text.muted}
+            value={contact}
+            onChangeText={setContact}
+            autoCapitalize="none"
+            keyboardType="email-address"
+            numberOfLines={1}
+          />
+
+          {waitlisted && (
+            <Text style={styles.hint}>
+              {placesLeft === 0
+                ? "This event is full. You'll be added to the waitlist and confirmed automatically if a place frees up."
+                : `Only ${placesLeft} ${placesLeft === 1 ? 'place is' : 'places are'} left, so your party will join the waitlist.`}
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={submitting}
+            accessibilityRole="button"
+          >
+            {submitting ? (
+              <ActivityIndicator color={theme.colors.text.header} />
+            ) : (
+              <Text style={styles.submitText}>{waitlisted ? 'Join waitlist' : 'Confirm RSVP'}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface.card,
+    borderTopLeftRadius: theme.radius.xl,
+    borderTopRightRadius: theme.radius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: ms(32, 0.1),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: ms(10, 0.1),
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    flex: 1,
+    fontSize: ms(18, 0.2) * fontScale,
+    fontWeight: 'bold',
+    color: theme.colors.text.strong,
+  },
+  label: {
+    fontSize: ms(13, 0.2) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.text.muted,
+    marginBottom: ms(6, 0.1),
+  },
+  input: {
+    backgroundColor: theme.colors.surface.base,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.md,
+    fontSize: ms(16, 0.2) * fontScale,
+    color: theme.colors.text.strong,
+    marginBottom: theme.spacing.md,
+    borderWidth: ms(2, 0.05),
+    borderColor: theme.colors.border.base,
+  },
+  inputError: {
+    borderColor: theme.colors.error[500],
+    marginBottom: ms(4, 0.1),
+  },
+  errorText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    color: theme.colors.error[500],
+    marginBottom: theme.spacing.md,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.md,
+  },
+  stepperButton: {
+    width: ms(44, 0.2),
+    height: ms(44, 0.2),
+    borderRadius: ms(22, 0.2),
+    backgroundColor: theme.colors.accent.blueSoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    fontSize: ms(17, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.strong,
+  },
+  hint: {
+    fontSize: ms(13, 0.3) * fontScale,
+    lineHeight: ms(18, 0.3) * fontScale,
+    color: theme.colors.text.base,
+    backgroundColor: theme.colors.accent.amberSoft,
+    borderRadius: theme.radius.md,
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.brand.navy[700],
+    borderRadius: theme.radius.md,
+    paddingVertical: ms(14, 0.1),
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitText: {
+    fontSize: ms(16, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.header,
+  },
+});
@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, Text, View, useWindowDimensions } from 'react-native';
+import { useDisplayPreferences } from '../contexts/DisplayPreferencesContext';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { PRAYER_KEYS } from '../types';
+import { TimetableDay } from '../utils/prayerCalculation';
+import { TimeFormat, formatTime } from '../utils/time';
+
+type TimetableRowProps = {
+  row: TimetableDay;
+  isToday?: boolean;
+};
+
+// Printed timetables omit AM/PM; the column makes the period obvious.
+// 24-hour times are already compact.
+const compactTime = (time: string, timeFormat: TimeFormat): string => {
+  return timeFormat === '24h' ? formatTime(time, '24h') : time.replace(/\s*(AM|PM)$/i, '');
+};
+
+export const TimetableHeaderRow = React.memo(function TimetableHeaderRow(): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  return (
+    <View style={[styles.row, styles.headerRow]}>
+      <Text style={[styles.dateCell, styles.headerText]}>Date</Text>
+      {PRAYER_KEYS.map((prayer) => (
+        <Text key={prayer} style={[styles.timeCell, styles.headerText]} numberOfLines={1}>
+          {prayer.charAt(0).toUpperCase() + prayer.slice(1)}
+        </Text>
+      ))}
+    </View>
+  );
+});
+
+function TimetableRow({ row, isToday }: TimetableRowProps): React.JSX.Element {
+  const theme = useTheme();
+  const { timeFormat } = useDisplayPreferences();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  return (
+    <View
+      style={[styles.row, isToday && styles.todayRow]}
+      accessibilityLabel={`${row.weekday} ${row.date.day}: ${PRAYER_KEYS.map((p) => `${p} ${row.adhan[p]}${row.adhanSource[p] === 'override' ? ' (set by the masjid)' : ''}, iqama ${row.iqama[p]}`).join('; ')}`}
+    >
+      <View style={styles.dateCell}>
+        <Text style={[styles.dayNumber, isToday && styles.todayText]}>{row.date.day}</Text>
+        <Text style={styles.weekday}>{row.weekday}</Text>
+      </View>
+      {PRAYER_KEYS.map((prayer) => (
+        <View key={prayer} style={styles.timeCell}>
+          <Text
+            style={[styles.adhanText, isToday && styles.todayText, row.adhanSource[prayer] === 'override' && styles.overrideText]}
+            numberOfLines={1}
+          >
+            {compactTime(row.adhan[prayer], timeFormat)}
+          </Text>
+          <Text style={styles.iqamaText} numberOfLines={1}>
+            {compactTime(row.iqama[prayer], timeFormat)}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export default React.memo(TimetableRow);
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: ms(10, 0.1),
+    paddingVertical: ms(8, 0.1),
+    backgroundColor: theme.colors.surface.base,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border.base,
+  },
+  headerRow: {
+    backgroundColor: theme.colors.surface.soft,
+  },
+  todayRow: {
+    backgroundColor: theme.colors.accent.amberSoft,
+  },
+  headerText: {
+    fontSize: ms(11, 0.3) * fontScale,
+    color: theme.colors.text.muted,
+    fontWeight: '800',
+    textAlign: 'center',
+  },
+  dateCell: {
+    width: ms(44, 0.2),
+    alignItems: 'flex-start',
+  },
+  timeCell: {
+    flex: 1,
+    alignItems: 'center',
+    textAlign: 'center',
+  },
+  dayNumber: {
+    fontSize: ms(15, 0.3) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.text.strong,
+  },
+  weekday: {
+    fontSize: ms(10, 0.3) * fontScale,
+    color: theme.colors.text.muted,
+    fontWeight: '600',
+  },
+  adhanText: {
+    fontSize: ms(13, 0.3) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.base,
+  },
+  iqamaText: {
+    fontSize: ms(11, 0.3) * fontScale,
+    fontWeight: '600',
+    color: theme.colors.brand.navy[600],
+  },
+  todayText: {
+    color: theme.colors.brand.gold[600],
+  },
+  // Admin-entered adhan time rather than a calculated one
+  overrideText: {
+    textDecorationLine: 'underline',
+  },
+});
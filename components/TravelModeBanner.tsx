@@ -0,0 +1,133 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { AppTheme, useTheme } from '../contexts/ThemeContext';
+import { useResponsive } from '../hooks/useResponsive';
+
+type TravelModeBannerProps = {
+  /** 'suggest' offers travel mode; 'active' explains the calculated times */
+  variant: 'suggest' | 'active';
+  placeName: string | null;
+  distanceKm: number | null;
+  timeZone?: string;
+  isLocating?: boolean;
+  error?: string | null;
+  onEnable: () => void;
+  onDisable: () => void;
+};
+
+export default function TravelModeBanner({
+  variant,
+  placeName,
+  distanceKm,
+  timeZone,
+  isLocating,
+  error,
+  onEnable,
+  onDisable,
+}: TravelModeBannerProps): React.JSX.Element {
+  const theme = useTheme();
+  const { ms } = useResponsive();
+  const { fontScale } = useWindowDimensions();
+  const styles = useMemo(() => createStyles(theme, ms, fontScale), [theme, ms, fontScale]);
+
+  const distance = distanceKm !== null ? `${Math.round(distanceKm).toLocaleString('en-AU')} km` : null;
+
+  if (variant === 'suggest') {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Ionicons name="airplane" size={ms(20, 0.2)} color={theme.colors.brand.navy[600]} />
+          <Text style={styles.title}>Travelling?</Text>
+        </View>
+        <Text style={styles.body}>
+          You&apos;re {distance ? `${distance} ` : ''}from the masjid{placeName ? `, in ${placeName}` : ''}. Show prayer times calculated for where you are?
+        </Text>
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={onDisable} style={styles.secondaryButton} accessibilityRole="button">
+            <Text style={styles.secondaryText}>Not now</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onEnable} style={styles.primaryButton} accessibilityRole="button">
+            <Text style={styles.primaryText}>Use local times</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="navigate" size={ms(20, 0.2)} color={theme.colors.brand.navy[600]} />
+        <Text style={styles.title} numberOfLines={1}>
+          Travel mode{placeName ? ` · ${placeName}` : ''}
+        </Text>
+        {isLocating && <ActivityIndicator size="small" color={theme.colors.brand.navy[600]} />}
+      </View>
+      <Text style={styles.body}>
+        {error
+          ? `Couldn't get your location: ${error}`
+          : `Adhan times are calculated for your location${timeZone ? ` (${timeZone})` : ''}. They are not the masjid's iqama times.`}
+      </Text>
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={onDisable} style={styles.secondaryButton} accessibilityRole="button">
+          <Text style={styles.secondaryText}>Show masjid times</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (theme: AppTheme, ms: (size: number, factor?: number) => number, fontScale: number) => StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.accent.blueSoft,
+    borderRadius: theme.radius.md,
+    paddingHorizontal: ms(16, 0.1),
+    paddingVertical: ms(12, 0.1),
+    marginBottom: ms(12, 0.1),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: ms(8, 0.1),
+  },
+  title: {
+    flex: 1,
+    fontSize: ms(15, 0.2) * fontScale,
+    fontWeight: '800',
+    color: theme.colors.brand.navy[600],
+  },
+  body: {
+    fontSize: ms(13, 0.3) * fontScale,
+    color: theme.colors.text.base,
+    marginTop: ms(6, 0.1),
+    lineHeight: ms(18, 0.3) * fontScale,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: ms(8, 0.1),
+    marginTop: ms(10, 0.1),
+  },
+  primaryButton: {
+    backgroundColor: theme.colors.brand.navy[600],
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: ms(14, 0.1),
+    paddingVertical: ms(8, 0.1),
+  },
+  primaryText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.text.header,
+  },
+  secondaryButton: {
+    borderRadius: theme.radius.sm,
+    paddingHorizontal: ms(14, 0.1),
+    paddingVertical: ms(8, 0.1),
+  },
+  secondaryText: {
+    fontSize: ms(13, 0.2) * fontScale,
+    fontWeight: '700',
+    color: theme.colors.brand.navy[600],
+  },
+});
@@ -18,11 +18,31 @@ export const CACHE_KEYS = {
   
   // Events
   EVENTS: '@events_cache',
+  PAST_EVENTS: '@past_events_cache',
   EVENT_CATEGORIES: '@event_categories_cache',
+  MY_RSVPS: '@my_rsvps_cache',
+  MY_REGISTRATIONS: '@my_registrations',
   
   // User Preferences (future use)
   USER_PREFERENCES: '@user_preferences',
   NOTIFICATION_SETTINGS: '@notification_settings',
+  NOTIFICATIONS_ENABLED: '@notification_settings_enabled',
+  PRAYER_REMINDER_SETTINGS: '@prayer_reminder_settings',
+  RAMADAN_ALERT_SETTINGS: '@ramadan_alert_settings',
+  OBSERVANCE_REMINDERS: '@observance_reminders',
+  EVENT_REMINDERS: '@event_reminders',
+  EVENT_TOPIC_MUTED_CATEGORIES: '@event_topic_muted_categories',
+  TRAVEL_MODE: '@travel_mode',
+  DISPLAY_PREFERENCES: '@display_preferences',
+
+  // Local notification scheduling
+  PRAYER_REMINDER_PLAN: '@prayer_reminder_plan',
+  OBSERVANCE_REMINDER_PLAN: '@observance_reminder_plan',
+  EVENT_REMINDER_PLAN: '@event_reminder_plan',
+  // FCM topics this device is subscribed to
+  EVENT_TOPIC_SUBSCRIPTIONS: '@event_topic_subscriptions',
+  // Route from a notification tapped while the app was in the background
+  PENDING_NOTIFICATION_LINK: '@pending_notification_link',
 } as const;
 
 /**
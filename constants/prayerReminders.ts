@@ -0,0 +1,23 @@
+import { PrayerReminderSettings, ReminderPrayerKey } from '../types';
+
+// Display order of the per-prayer reminder matrix
+export const REMINDER_PRAYERS: readonly { key: ReminderPrayerKey; label: string }[] = [
+  { key: 'fajr', label: 'Fajr' },
+  { key: 'dhuhr', label: 'Dhuhr' },
+  { key: 'asr', label: 'Asr' },
+  { key: 'maghrib', label: 'Maghrib' },
+  { key: 'isha', label: 'Isha' },
+  { key: 'jumuah', label: "Jumu'ah" },
+];
+
+// Choices offered for "N minutes before iqama"
+export const REMINDER_MINUTE_OPTIONS: readonly number[] = [5, 10, 15, 20, 30];
+
+export const DEFAULT_PRAYER_REMINDER_SETTINGS: PrayerReminderSettings = {
+  fajr: { mode: 'adhan', minutesBefore: 10 },
+  dhuhr: { mode: 'adhan', minutesBefore: 10 },
+  asr: { mode: 'adhan', minutesBefore: 10 },
+  maghrib: { mode: 'adhan', minutesBefore: 10 },
+  isha: { mode: 'adhan', minutesBefore: 10 },
+  jumuah: { mode: 'before_iqama', minutesBefore: 30 },
+};
@@ -0,0 +1,118 @@
+/**
+ * DisplayPreferencesContext
+ * Provides the user's clock, date and Hijri-order preferences across the app
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import {
+  CalendarDay,
+  DateStyle,
+  TimeFormat,
+  formatCalendarDate,
+  formatTime as formatTimeString,
+  formatTimeInZone,
+} from '../utils/time';
+
+export type HijriPosition = 'first' | 'second';
+
+export interface DisplayPreferences {
+  timeFormat: TimeFormat;
+  dateStyle: DateStyle;
+  hijriPosition: HijriPosition;
+}
+
+const DEFAULT_DISPLAY_PREFERENCES: DisplayPreferences = {
+  timeFormat: '12h',
+  dateStyle: 'long',
+  hijriPosition: 'second',
+};
+
+interface DisplayPreferencesContextType extends DisplayPreferences {
+  updateDisplayPreference: <K extends keyof DisplayPreferences>(key: K, value: DisplayPreferences[K]) => Promise<void>;
+  /** Re-format a stored wall-clock time ("5:07 AM") in the preferred clock */
+  formatTime: (time: string | undefined | null) => string;
+  /** Format an instant's wall-clock time in the given timezone in the preferred clock */
+  formatInstantTime: (date: Date, timeZone: string) => string;
+  /** Format a calendar day in the preferred date style */
+  formatDate: (day: CalendarDay, options?: { weekday?: boolean; year?: boolean }) => string;
+  /** Order a Gregorian and a Hijri label by the preferred Hijri position */
+  orderDates: (gregorian: string, hijri: string) => [string, string];
+}
+
+const DisplayPreferencesContext = createContext<DisplayPreferencesContextType | null>(null);
+
+interface DisplayPreferencesProviderProps {
+  children: ReactNode;
+}
+
+export function DisplayPreferencesProvider({ children }: DisplayPreferencesProviderProps): React.JSX.Element {
+  const [preferences, setPreferences] = useState<DisplayPreferences>(DEFAULT_DISPLAY_PREFERENCES);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load saved preferences on mount
+  useEffect(() => {
+    const loadPreferences = async (): Promise<void> => {
+      try {
+        const saved = await AsyncStorage.getItem(CACHE_KEYS.DISPLAY_PREFERENCES);
+        if (saved) {
+          const parsed = JSON.parse(saved) as Partial<DisplayPreferences>;
+          setPreferences({
+            timeFormat: parsed.timeFormat === '24h' ? '24h' : '12h',
+            dateStyle: parsed.dateStyle === 'numeric' ? 'numeric' : 'long',
+            hijriPosition: parsed.hijriPosition === 'first' ? 'first' : 'second',
+          });
+        }
+      } catch (error) {
+        console.error('Failed to load display preferences:', error);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+    loadPreferences();
+  }, []);
+
+  // Update one preference and save to storage
+  const updateDisplayPreference = useCallback(async <K extends keyof DisplayPreferences>(
+    key: K,
+    value: DisplayPreferences[K]
+  ): Promise<void> => {
+    try {
+      const next = { ...preferences, [key]: value };
+      setPreferences(next);
+      await AsyncStorage.setItem(CACHE_KEYS.DISPLAY_PREFERENCES, JSON.stringify(next));
+    } catch (error) {
+      console.error('Failed to save display preferences:', error);
+    }
+  }, [preferences]);
+
+  // Memoize context value
+  const value = useMemo((): DisplayPreferencesContextType => ({
+    ...preferences,
+    updateDisplayPreference,
+    formatTime: (time) => formatTimeString(time, preferences.timeFormat),
+    formatInstantTime: (date, timeZone) => formatTimeInZone(date, timeZone, preferences.timeFormat),
+    formatDate: (day, options) => formatCalendarDate(day, preferences.dateStyle, options),
+    orderDates: (gregorian, hijri) => (preferences.hijriPosition === 'first' ? [hijri, gregorian] : [gregorian, hijri]),
+  }), [preferences, updateDisplayPreference]);
+
+  // Don't render children until preferences are loaded to prevent a flash of the wrong format
+  if (!isLoaded) {
+    return <></>;
+  }
+
+  return (
+    <DisplayPreferencesContext.Provider value={value}>
+      {children}
+    </DisplayPreferencesContext.Provider>
+  );
+}
+
+export function useDisplayPreferences(): DisplayPreferencesContextType {
+  const context = useContext(DisplayPreferencesContext);
+  if (!context) {
+    throw new Error('useDisplayPreferences must be used within a DisplayPreferencesProvider');
+  }
+  return context;
+}
@@ -8,23 +8,10 @@ import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firest
 import { useEffect, useState } from 'react';
 import { CACHE_KEYS } from '../constants/cacheKeys';
 import { db } from '../firebase';
+import { Campaign } from '../types';
 import { getCachedData, setCachedData } from '../utils/cache';
-
-export interface Campaign {
-  id: string;
-  title: string;
-  description: string;
-  goal_amount: number; // in cents
-  current_amount: number; // in cents
-  currency: string;
-  start_date: FirebaseFirestoreTypes.Timestamp;
-  end_date: FirebaseFirestoreTypes.Timestamp;
-  status: 'active' | 'completed' | 'paused';
-  image_url?: string;
-  is_visible_in_app: boolean;
-  created_at: FirebaseFirestoreTypes.Timestamp;
-  updated_at: FirebaseFirestoreTypes.Timestamp;
-}
+import { clearDataIssuesForSource, reportDataIssue } from '../utils/dataIssues';
+import { validateCampaign } from '../utils/validation';
 
 // Helper to convert Timestamp to serializable format for caching
 const serializeCampaign = (campaign: Campaign): any => {
@@ -74,9 +61,11 @@ export function useCampaigns() {
     try {
       // 1. Load from cache first (instant)
       const cachedData = await getCachedData<any[]>(CACHE_KEYS.CAMPAIGNS);
+      let cachedById = new Map<string, Campaign>();
       if (cachedData) {
         // Deserialize Timestamps from cache
         const deserialized = cachedData.map(deserializeCampaign);
+        cachedById = new Map(deserialized.map((campaign) => [campaign.id, campaign]));
         setCampaigns(deserialized);
         setLoading(false);
         console.log('✅ Campaigns loaded from cache:', deserialized.length);
@@ -94,9 +83,19 @@ export function useCampaigns() {
             setError(null);
 
             const loadedCampaigns: Campaign[] = [];
+            clearDataIssuesForSource('campaigns');
             querySnapshot.forEach((doc) => {
-              loadedCampaigns.push({ id: doc.id, ...doc.data() } as Campaign);
+              const validation = validateCampaign({ id: doc.id, ...doc.data() });
+              if (validation.valid) {
+                loadedCampaigns.push(validation.value);
+                return;
+              }
+              // Show the last valid copy of a broken campaign, or leave it out
+              reportDataIssue('campaigns', validation.errors, doc.id);
+              const cached = cachedById.get(doc.id);
+              if (cached) loadedCampaigns.push(cached);
             });
+            cachedById = new Map(loadedCampaigns.map((campaign) => [campaign.id, campaign]));
 
             setCampaigns(loadedCampaigns);
 
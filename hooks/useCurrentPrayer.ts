@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MosqueSettings, PrayerKey } from '../types';
+import { CurrentPrayerState, getCongregationMinutes, getCurrentPrayerState, getNextPrayerChange } from '../utils/currentPrayer';
+import { TimetableDay, getMosqueTimezone } from '../utils/prayerCalculation';
+
+/** Longest wait between checks while no prayer is underway */
+const IDLE_TICK_MS = 60000;
+
+/** How long to sleep before the current prayer can next change */
+const getIdleDelay = (today: TimetableDay | null, timeZone: string, congregationMinutes: number): number => {
+  const next = getNextPrayerChange(today, timeZone, congregationMinutes);
+  return next ? Math.min(IDLE_TICK_MS, Math.max(next.getTime() - Date.now(), 0)) : IDLE_TICK_MS;
+};
+
+/**
+ * Live state of the prayer currently underway, if any.
+ * Ticks every second between adhan and the end of the congregation window,
+ * and otherwise sleeps until the next adhan (checking at least once a minute).
+ * Only use this where the countdown is shown, so the ticks stay local to it.
+ */
+export const useCurrentPrayer = (
+  today: TimetableDay | null,
+  mosqueSettings: MosqueSettings | null
+): CurrentPrayerState | null => {
+  const timeZone = getMosqueTimezone(mosqueSettings);
+  const congregationMinutes = getCongregationMinutes(mosqueSettings);
+  const [now, setNow] = useState(() => new Date());
+
+  const state = useMemo(
+    () => getCurrentPrayerState(today, timeZone, congregationMinutes, now),
+    [today, timeZone, congregationMinutes, now]
+  );
+
+  useEffect(() => {
+    const delay = state ? 1000 - (Date.now() % 1000) : getIdleDelay(today, timeZone, congregationMinutes);
+    const timer = setTimeout(() => setNow(new Date()), delay);
+    return () => clearTimeout(timer);
+  }, [now, state, today, timeZone, congregationMinutes]);
+
+  return state;
+};
+
+/**
+ * The prayer currently underway, if any, without the countdown.
+ * Only changes at an adhan or the end of a congregation window, so screens
+ * can highlight the current prayer without re-rendering every second.
+ */
+export const useCurrentPrayerKey = (
+  today: TimetableDay | null,
+  mosqueSettings: MosqueSettings | null
+): PrayerKey | null => {
+  const timeZone = getMosqueTimezone(mosqueSettings);
+  const congregationMinutes = getCongregationMinutes(mosqueSettings);
+  const [prayer, setPrayer] = useState<PrayerKey | null>(
+    () => getCurrentPrayerState(today, timeZone, congregationMinutes)?.prayer ?? null
+  );
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const check = () => {
+      // Setting the same key again doesn't re-render
+      setPrayer(getCurrentPrayerState(today, timeZone, congregationMinutes)?.prayer ?? null);
+      timer = setTimeout(check, getIdleDelay(today, timeZone, congregationMinutes));
+    };
+    check();
+    return () => clearTimeout(timer);
+  }, [today, timeZone, congregationMinutes]);
+
+  return prayer;
+};
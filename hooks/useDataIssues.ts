@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { DataIssue, DataSource, getDataIssues, subscribeToDataIssues } from '../utils/dataIssues';
+
+/**
+ * Current validation issues for the given data sources, updated as documents
+ * are re-validated.
+ */
+export const useDataIssues = (sources: readonly DataSource[]): DataIssue[] => {
+  const [issues, setIssues] = useState<DataIssue[]>(() => getDataIssues());
+
+  useEffect(() => {
+    setIssues(getDataIssues());
+    return subscribeToDataIssues(setIssues);
+  }, []);
+
+  return issues.filter((issue) => sources.includes(issue.source));
+};
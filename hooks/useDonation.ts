@@ -14,6 +14,8 @@ import {
     SubscriptionResponse
 } from '../types/donation';
 import { getCachedData, setCachedData } from '../utils/cache';
+import { clearDataIssue, reportDataIssue } from '../utils/dataIssues';
+import { validateDonationSettings } from '../utils/validation';
 
 export const useDonation = () => {
   const [loading, setLoading] = useState(true);
@@ -45,7 +47,14 @@ export const useDonation = () => {
         setLoading(false);
 
         if (docSnapshot.exists()) {
-          const freshData = docSnapshot.data() as DonationSettings;
+          const validation = validateDonationSettings(docSnapshot.data());
+          if (!validation.valid) {
+            // Keep the cached settings rather than offer broken options
+            reportDataIssue('donationSettings', validation.errors);
+            return;
+          }
+          clearDataIssue('donationSettings');
+          const freshData = validation.value;
           
           // Only update if data actually changed (prevent unnecessary re-renders)
           const dataChanged = JSON.stringify(freshData) !== JSON.stringify(cachedData);
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { db } from '../firebase';
+import { Event } from '../types';
+import { getCachedData } from '../utils/cache';
+import { clearDataIssue, reportDataIssue } from '../utils/dataIssues';
+import { DEFAULT_TIMEZONE } from '../utils/prayerCalculation';
+import { getRecurrenceDays, parseOccurrenceId } from '../utils/recurrence';
+import { getZonedToday } from '../utils/time';
+import { validateEvent } from '../utils/validation';
+import { buildOccurrence, deserializeEvent } from './useEvents';
+
+interface UseEventReturn {
+  event: Event | null;
+  loading: boolean;
+  error: string | null;
+  /** True when the event doesn't exist or is no longer published */
+  notFound: boolean;
+}
+
+/**
+ * The event itself, or for an occurrence id the series' session on that day.
+ * Null when the series doesn't fall on that day.
+ */
+const resolveEvent = (document: Event, eventId: string, timeZone: string): Event | null => {
+  const occurrence = parseOccurrenceId(eventId);
+  if (!occurrence) return document;
+  if (!document.recurrence) return null;
+  const start = getZonedToday(timeZone, document.date.toDate());
+  const days = getRecurrenceDays(document.recurrence, start, occurrence.day, occurrence.day);
+  return days.length > 0 ? buildOccurrence(document, occurrence.day, timeZone) : null;
+};
+
+/**
+ * A single event by id, for the detail screen and deep links. Occurrence ids
+ * (see getOccurrenceId) load their series and resolve to that day's session.
+ * Shows the copy from the events cache straight away, then listens to the
+ * document so past events and events outside the list still load.
+ */
+export const useEvent = (eventId: string | undefined, timeZone: string = DEFAULT_TIMEZONE): UseEventReturn => {
+  const [event, setEvent] = useState<Event | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!eventId) {
+      setLoading(false);
+      setNotFound(true);
+      return;
+    }
+
+    let cancelled = false;
+    setEvent(null);
+    setLoading(true);
+    setError(null);
+    setNotFound(false);
+
+    const documentId = parseOccurrenceId(eventId)?.seriesId ?? eventId;
+
+    // 1. Cached copy from the events list (instant)
+    getCachedData<any[]>(CACHE_KEYS.EVENTS).then((cachedData) => {
+      const cached = cachedData?.find((item) => item?.id === documentId);
+      const resolved = cached ? resolveEvent(deserializeEvent(cached), eventId, timeZone) : null;
+      if (cancelled || !resolved) return;
+      setEvent((current) => current ?? resolved);
+      setLoading(false);
+    });
+
+    // 2. Real-time listener for the document
+    const unsubscribe = db
+      .collection('events')
+      .doc(documentId)
+      .onSnapshot(
+        (docSnapshot) => {
+          setLoading(false);
+          if (!docSnapshot.exists()) {
+            setEvent(null);
+            setNotFound(true);
+            return;
+          }
+
+          const validation = validateEvent({ id: docSnapshot.id, ...docSnapshot.data() });
+          if (!validation.valid) {
+            // Keep showing the cached copy, if any
+            reportDataIssue('events', validation.errors, docSnapshot.id);
+            return;
+          }
+
+          clearDataIssue('events', docSnapshot.id);
+          const resolved = validation.value.is_active ? resolveEvent(validation.value, eventId, timeZone) : null;
+          setEvent(resolved);
+          setNotFound(!resolved);
+        },
+        (err) => {
+          console.error('Error listening to event:', err);
+          setError(err.message);
+          setLoading(false);
+        }
+      );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [eventId, timeZone]);
+
+  return { event, loading, error, notFound };
+};
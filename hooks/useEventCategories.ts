@@ -3,8 +3,11 @@
 import { useEffect, useState } from 'react';
 import { CACHE_KEYS } from '../constants/cacheKeys';
 import { db } from '../firebase';
-import { EventCategoriesConfig, EventCategory } from '../types';
+import EventTopicService from '../services/EventTopicService';
+import { EventCategory } from '../types';
 import { getCachedData, setCachedData } from '../utils/cache';
+import { clearDataIssue, reportDataIssue } from '../utils/dataIssues';
+import { validateEventCategories } from '../utils/validation';
 
 // ============================================================================
 // Hook Interface
@@ -51,18 +54,25 @@ export const useEventCategories = (): UseEventCategoriesReturn => {
           .onSnapshot(
             async (docSnapshot) => {
               if (docSnapshot.exists()) {
-                const data = docSnapshot.data() as EventCategoriesConfig;
-                
-                if (data.categories && data.categories.length > 0) {
-                  // Filter active categories and sort by order
-                  const activeCategories = data.categories
-                    .filter((cat: EventCategory) => cat.is_active)
-                    .sort((a: EventCategory, b: EventCategory) => a.order - b.order);
+                const validation = validateEventCategories(docSnapshot.data());
+                if (!validation.valid) {
+                  // Keep the cached categories rather than show broken filters
+                  reportDataIssue('eventCategories', validation.errors);
+                } else {
+                  clearDataIssue('eventCategories');
+                  if (validation.value.categories.length > 0) {
+                    // Filter active categories and sort by order
+                    const activeCategories = validation.value.categories
+                      .filter((cat: EventCategory) => cat.is_active)
+                      .sort((a: EventCategory, b: EventCategory) => a.order - b.order);
                   
-                  setCategories(activeCategories);
-                  setHasRealData(true);
-                  await setCachedData(CACHE_KEYS.EVENT_CATEGORIES, activeCategories);
-                  console.log('🏷️ Event categories updated:', activeCategories.length);
+                    setCategories(activeCategories);
+                    setHasRealData(true);
+                    await setCachedData(CACHE_KEYS.EVENT_CATEGORIES, activeCategories);
+                    // Subscribe to new categories' push topics, drop removed ones
+                    EventTopicService.sync(activeCategories);
+                    console.log('🏷️ Event categories updated:', activeCategories.length);
+                  }
                 }
               }
               
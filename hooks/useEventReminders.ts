@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import EventReminderScheduler from '../services/EventReminderScheduler';
+import { EventReminder } from '../types';
+
+interface UseEventRemindersReturn {
+  reminders: EventReminder[];
+  loading: boolean;
+  getReminderForEvent: (eventId: string) => EventReminder | undefined;
+}
+
+/**
+ * The reminders set on this device, soonest first, updated as they are
+ * added, removed or moved by event changes.
+ */
+export const useEventReminders = (): UseEventRemindersReturn => {
+  const [reminders, setReminders] = useState<EventReminder[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    let active = true;
+    EventReminderScheduler.getReminders().then((stored) => {
+      if (!active) return;
+      setReminders(stored);
+      setLoading(false);
+    });
+    const unsubscribe = EventReminderScheduler.subscribe((next) => {
+      setReminders(next);
+      setLoading(false);
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const getReminderForEvent = useCallback(
+    (eventId: string) => reminders.find((reminder) => reminder.eventId === eventId),
+    [reminders]
+  );
+
+  return { reminders, loading, getReminderForEvent };
+};
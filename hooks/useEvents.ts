@@ -1,18 +1,30 @@
 // masjid-app/hooks/useEvents.ts - React Native Firebase version
 
-import firestore from '@react-native-firebase/firestore';
-import { useEffect, useState } from 'react';
+import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { useEffect, useMemo, useState } from 'react';
 import { CACHE_KEYS } from '../constants/cacheKeys';
 import { db } from '../firebase';
+import EventReminderScheduler from '../services/EventReminderScheduler';
 import { Event } from '../types';
 import { getCachedData, setCachedData } from '../utils/cache';
+import { DataIssueTracker, createDataIssueTracker } from '../utils/dataIssues';
+import { DEFAULT_TIMEZONE } from '../utils/prayerCalculation';
+import {
+  RECURRENCE_WINDOW_DAYS,
+  getOccurrenceId,
+  getRecurrenceDays,
+  isCancelledOccurrence,
+} from '../utils/recurrence';
+import { CalendarDay, addDays, formatDayKey, getZonedNow, getZonedToday, zonedTimeToDate } from '../utils/time';
+import { validateEvent } from '../utils/validation';
 
 interface UseEventsReturn {
   events: Event[];
   loading: boolean;
   error: string | null;
   upcomingEvents: Event[];
-  pastEvents: Event[];
+  /** Series documents before expansion, for views that reach past the expanded window */
+  series: Event[];
 }
 
 // ============================================================================
@@ -22,7 +34,7 @@ interface UseEventsReturn {
 /**
  * Convert Event with Firestore Timestamps to cache-friendly format
  */
-const serializeEvent = (event: Event): any => {
+export const serializeEvent = (event: Event): any => {
   return {
     ...event,
     date: { seconds: event.date.seconds, nanoseconds: event.date.nanoseconds },
@@ -34,7 +46,7 @@ const serializeEvent = (event: Event): any => {
 /**
  * Convert cached data back to Event with Firestore Timestamps
  */
-const deserializeEvent = (data: any): Event => {
+export const deserializeEvent = (data: any): Event => {
   return {
     ...data,
     date: new firestore.Timestamp(data.date.seconds, data.date.nanoseconds),
@@ -43,17 +55,70 @@ const deserializeEvent = (data: any): Event => {
   };
 };
 
+/**
+ * Start of today in the mosque timezone as a Firestore Timestamp; the boundary between upcoming and past events
+ */
+export const getTodayStartTimestamp = (timeZone: string): FirebaseFirestoreTypes.Timestamp => {
+  return firestore.Timestamp.fromDate(zonedTimeToDate(getZonedToday(timeZone), 0, timeZone));
+};
+
+// ============================================================================
+// Recurring Series
+// ============================================================================
+
+/**
+ * One occurrence of a series on the given day, at the series' time of day.
+ * RSVPs and registrations are counted against the series document, not each
+ * session, so occurrences don't offer them.
+ */
+export const buildOccurrence = (series: Event, day: CalendarDay, timeZone: string): Event => {
+  const { minutes } = getZonedNow(timeZone, series.date.toDate());
+  const { rsvp_enabled, rsvp_limit, rsvp_count, registration_form, ...details } = series;
+  return {
+    ...details,
+    id: getOccurrenceId(series.id, day),
+    date: firestore.Timestamp.fromDate(zonedTimeToDate(day, minutes, timeZone)),
+    series_id: series.id,
+    occurrence_date: formatDayKey(day),
+    is_cancelled: series.recurrence ? isCancelledOccurrence(series.recurrence, day) : false,
+  };
+};
+
+/**
+ * Replace each series with its occurrences between `from` and `to`, keeping
+ * one-off events as they are. Cancelled occurrences stay in the list, flagged
+ * with is_cancelled. Sorted by date, then time.
+ */
+export const expandEventSeries = (
+  events: Event[],
+  timeZone: string,
+  from: CalendarDay,
+  to: CalendarDay
+): Event[] => {
+  const expanded = events.flatMap((event) => {
+    if (!event.recurrence) return [event];
+    const start = getZonedToday(timeZone, event.date.toDate());
+    return getRecurrenceDays(event.recurrence, start, from, to).map((day) => buildOccurrence(event, day, timeZone));
+  });
+  return expanded.sort((a, b) => a.date.toMillis() - b.date.toMillis() || a.time.localeCompare(b.time));
+};
+
 // ============================================================================
 // Hook Implementation
 // ============================================================================
 
-export const useEvents = (): UseEventsReturn => {
-  const [events, setEvents] = useState<Event[]>([]);
+export const useEvents = (timeZone: string = DEFAULT_TIMEZONE): UseEventsReturn => {
+  // One-off events and series documents, before series are expanded
+  const [documents, setDocuments] = useState<Event[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  // 'listener' once the listeners have delivered, 'server' once both came from the server
+  // rather than Firestore's offline cache, which may be missing events
+  const [syncState, setSyncState] = useState<'none' | 'listener' | 'server'>('none');
 
   useEffect(() => {
-    let unsubscribe: () => void;
+    const unsubscribers: (() => void)[] = [];
+    let cancelled = false;
 
     const loadEvents = async () => {
       try {
@@ -61,53 +126,109 @@ export const useEvents = (): UseEventsReturn => {
 
         // 1. Load from cache first (instant)
         const cachedData = await getCachedData<any[]>(CACHE_KEYS.EVENTS);
+        let cachedById = new Map<string, Event>();
         if (cachedData) {
           // Deserialize Timestamps from cache
           const deserialized = cachedData.map(deserializeEvent);
-          setEvents(deserialized);
+          cachedById = new Map(deserialized.map((event) => [event.id, event]));
+          setDocuments(deserialized);
           setLoading(false);
           console.log('✅ Events loaded from cache:', deserialized.length);
         }
+        if (cancelled) return;
 
         // 2. Get today's start of day as Firestore Timestamp for comparison
-        const getTodayStartTimestamp = (): ReturnType<typeof firestore.Timestamp.fromDate> => {
-          const now = new Date();
-          const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          return firestore.Timestamp.fromDate(startOfToday);
+        const todayTimestamp = getTodayStartTimestamp(timeZone);
+
+        // Each listener fills its own half; the two are combined on every update
+        let oneOffEvents: Event[] | null = null;
+        let seriesEvents: Event[] | null = null;
+        let oneOffFromServer = false;
+        let seriesFromServer = false;
+
+        // Each listener clears the issues of documents that have left its results
+        const oneOffIssues = createDataIssueTracker('events');
+        const seriesIssues = createDataIssueTracker('events');
+
+        const toValidEvents = (
+          querySnapshot: FirebaseFirestoreTypes.QuerySnapshot,
+          issues: DataIssueTracker,
+          include: (data: Record<string, any>) => boolean
+        ): Event[] => {
+          const loadedEvents: Event[] = [];
+          const documentIds: string[] = [];
+          querySnapshot.forEach((doc) => {
+            const data = doc.data();
+            if (!include(data)) return;
+            documentIds.push(doc.id);
+            const validation = validateEvent({ id: doc.id, ...data });
+            if (validation.valid) {
+              issues.clear(doc.id);
+              loadedEvents.push(validation.value);
+              return;
+            }
+            // Show the last valid copy of a broken event, or leave it out
+            issues.report(validation.errors, doc.id);
+            const cached = cachedById.get(doc.id);
+            if (cached) loadedEvents.push(cached);
+          });
+          issues.clearMissing(documentIds);
+          return loadedEvents;
+        };
+
+        const publish = async () => {
+          // Wait for both listeners so the cache isn't overwritten with half the events
+          if (!oneOffEvents || !seriesEvents) return;
+          const loadedEvents = [...oneOffEvents, ...seriesEvents];
+          cachedById = new Map(loadedEvents.map((event) => [event.id, event]));
+
+          setDocuments(loadedEvents);
+          setSyncState(oneOffFromServer && seriesFromServer ? 'server' : 'listener');
+          setLoading(false);
+
+          // Update cache - serialize Timestamps before storing
+          const serialized = loadedEvents.map(serializeEvent);
+          await setCachedData(CACHE_KEYS.EVENTS, serialized);
+
+          console.log('📅 Events updated:', oneOffEvents.length, 'one-off,', seriesEvents.length, 'series');
         };
 
-        const todayTimestamp = getTodayStartTimestamp();
-        console.log('Fetching events from date:', todayTimestamp.toDate());
+        const onError = (err: Error) => {
+          console.error('Error listening to events:', err);
+          setError(err.message);
+          setLoading(false);
+        };
 
-        // 3. Set up real-time listener for active upcoming events
-        unsubscribe = db
+        // 3. Real-time listener for active upcoming one-off events.
+        // Series documents are left out here; the series listener covers them.
+        unsubscribers.push(db
           .collection('events')
           .where('is_active', '==', true)
           .where('date', '>=', todayTimestamp)
           .orderBy('date', 'asc')
           .orderBy('time', 'asc')
           .onSnapshot(
-            async (querySnapshot) => {
-              const loadedEvents: Event[] = [];
-              querySnapshot.forEach((doc) => {
-                loadedEvents.push({ id: doc.id, ...doc.data() } as Event);
-              });
-              
-              setEvents(loadedEvents);
-              setLoading(false);
-              
-              // Update cache - serialize Timestamps before storing
-              const serialized = loadedEvents.map(serializeEvent);
-              await setCachedData(CACHE_KEYS.EVENTS, serialized);
-              
-              console.log('📅 Events updated:', loadedEvents.length);
+            (querySnapshot) => {
+              oneOffEvents = toValidEvents(querySnapshot, oneOffIssues, (data) => !data.recurrence);
+              oneOffFromServer = !querySnapshot.metadata.fromCache;
+              publish();
             },
-            (err) => {
-              console.error('Error listening to events:', err);
-              setError(err.message);
-              setLoading(false);
-            }
-          );
+            onError
+          ));
+
+        // 4. Real-time listener for active series, whose first date may be long past
+        unsubscribers.push(db
+          .collection('events')
+          .where('is_active', '==', true)
+          .where('recurrence.frequency', 'in', ['weekly', 'monthly'])
+          .onSnapshot(
+            (querySnapshot) => {
+              seriesEvents = toValidEvents(querySnapshot, seriesIssues, () => true);
+              seriesFromServer = !querySnapshot.metadata.fromCache;
+              publish();
+            },
+            onError
+          ));
       } catch (err) {
         console.error('Error setting up events listener:', err);
         setError(err instanceof Error ? err.message : 'Unknown error');
@@ -119,24 +240,36 @@ export const useEvents = (): UseEventsReturn => {
 
     // Cleanup function
     return () => {
-      if (unsubscribe) {
-        unsubscribe();
-        console.log('Unsubscribed from events listener');
-      }
+      cancelled = true;
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      console.log('Unsubscribed from events listeners');
     };
-  }, []);
+  }, [timeZone]);
+
+  // Series become one entry per occurrence, so the list and its section headers treat them like any other event
+  const events = useMemo(() => {
+    const today = getZonedToday(timeZone);
+    return expandEventSeries(documents, timeZone, today, addDays(today, RECURRENCE_WINDOW_DAYS));
+  }, [documents, timeZone]);
+
+  // Move reminders for events that changed. The cached copy may be stale, so wait for the listeners,
+  // and only drop reminders for missing events once the server has confirmed the list.
+  useEffect(() => {
+    if (syncState === 'none') return;
+    EventReminderScheduler.reschedule(events, timeZone, { allowRemovals: syncState === 'server' });
+  }, [events, syncState, timeZone]);
+
+  const series = useMemo(() => documents.filter((event) => !!event.recurrence), [documents]);
 
-  // Since we're only fetching upcoming events, upcomingEvents = events
+  // Since we're only fetching upcoming events, upcomingEvents = events.
+  // Past events are paged separately by usePastEvents.
   const upcomingEvents = events;
-  
-  // pastEvents will always be empty now (we don't fetch them)
-  const pastEvents: Event[] = [];
 
   return {
     events,
     loading,
     error,
     upcomingEvents,
-    pastEvents,
+    series,
   };
 };
@@ -1,7 +1,16 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useEffect, useState } from 'react';
 import { db } from '../firebase';
+import ObservanceReminderScheduler from '../services/ObservanceReminderScheduler';
+import PrayerReminderScheduler from '../services/PrayerReminderScheduler';
 import { JumuahTimes, MosqueSettings, PrayerTimes } from '../types';
+import { DataSource, clearDataIssue, reportDataIssue } from '../utils/dataIssues';
+import {
+  ValidationResult,
+  validateJumuahTimes,
+  validateMosqueSettings,
+  validatePrayerTimes,
+} from '../utils/validation';
 
 interface UseFirebaseDataReturn {
   prayerTimes: PrayerTimes | null;
@@ -52,17 +61,26 @@ export const useFirebaseData = (): UseFirebaseDataReturn => {
       }
     };
 
-    const handleSnapshot = (
-      data: PrayerTimes | JumuahTimes | MosqueSettings,
-      setter: (data: any) => void,
+    const handleSnapshot = <T,>(
+      data: unknown,
+      validate: (data: unknown) => ValidationResult<T>,
+      source: DataSource,
+      setter: (data: T) => void,
       storageKey: string,
       fromCache: boolean,
       logName: string
     ) => {
-      setter(data);
-      AsyncStorage.setItem(storageKey, JSON.stringify(data)).catch(() => {});
-      console.log(`${logName} updated from Firebase`);
-      
+      const validation = validate(data);
+      if (validation.valid) {
+        setter(validation.value);
+        AsyncStorage.setItem(storageKey, JSON.stringify(validation.value)).catch(() => {});
+        clearDataIssue(source);
+        console.log(`${logName} updated from Firebase`);
+      } else {
+        // Keep the last valid copy (or calculated times) rather than render bad data
+        reportDataIssue(source, validation.errors);
+      }
+
       setLoading(false);
       
       if (!fromCache) {
@@ -105,9 +123,13 @@ export const useFirebaseData = (): UseFirebaseDataReturn => {
           let hadAny = false;
           if (ptRaw) {
             try {
-              const parsed: PrayerTimes = JSON.parse(ptRaw);
-              setPrayerTimes(parsed);
-              hadAny = true;
+              const cached = validatePrayerTimes(JSON.parse(ptRaw));
+              if (cached.valid) {
+                setPrayerTimes(cached.value);
+                hadAny = true;
+              } else {
+                console.warn('Ignoring invalid cached prayerTimes');
+              }
             } catch {
               console.warn('Failed parsing cached prayerTimes');
             }
@@ -115,9 +137,13 @@ export const useFirebaseData = (): UseFirebaseDataReturn => {
 
           if (jtRaw) {
             try {
-              const parsed: JumuahTimes = JSON.parse(jtRaw);
-              setJumuahTimes(parsed);
-              hadAny = true;
+              const cached = validateJumuahTimes(JSON.parse(jtRaw));
+              if (cached.valid) {
+                setJumuahTimes(cached.value);
+                hadAny = true;
+              } else {
+                console.warn('Ignoring invalid cached jumuahTimes');
+              }
             } catch {
               console.warn('Failed parsing cached jumuahTimes');
             }
@@ -125,9 +151,13 @@ export const useFirebaseData = (): UseFirebaseDataReturn => {
 
           if (msRaw) {
             try {
-              const parsed: MosqueSettings = JSON.parse(msRaw);
-              setMosqueSettings(parsed);
-              hadAny = true;
+              const cached = validateMosqueSettings(JSON.parse(msRaw));
+              if (cached.valid) {
+                setMosqueSettings(cached.value);
+                hadAny = true;
+              } else {
+                console.warn('Ignoring invalid cached mosqueSettings');
+              }
             } catch {
               console.warn('Failed parsing cached mosqueSettings');
             }
@@ -155,7 +185,9 @@ export const useFirebaseData = (): UseFirebaseDataReturn => {
             if (docSnapshot.exists()) {
               const fromCache = docSnapshot.metadata.fromCache;
               handleSnapshot(
-                docSnapshot.data() as PrayerTimes,
+                docSnapshot.data(),
+                validatePrayerTimes,
+                'prayerTimes',
                 setPrayerTimes,
                 STORAGE_KEYS.prayerTimes,
                 fromCache,
@@ -177,7 +209,9 @@ export const useFirebaseData = (): UseFirebaseDataReturn => {
             if (docSnapshot.exists()) {
               const fromCache = docSnapshot.metadata.fromCache;
               handleSnapshot(
-                docSnapshot.data() as JumuahTimes,
+                docSnapshot.data(),
+                validateJumuahTimes,
+                'jumuahTimes',
                 setJumuahTimes,
                 STORAGE_KEYS.jumuahTimes,
                 fromCache,
@@ -199,7 +233,9 @@ export const useFirebaseData = (): UseFirebaseDataReturn => {
             if (docSnapshot.exists()) {
               const fromCache = docSnapshot.metadata.fromCache;
               handleSnapshot(
-                docSnapshot.data() as MosqueSettings,
+                docSnapshot.data(),
+                validateMosqueSettings,
+                'mosqueSettings',
                 setMosqueSettings,
                 STORAGE_KEYS.mosqueSettings,
                 fromCache,
@@ -228,6 +264,19 @@ export const useFirebaseData = (): UseFirebaseDataReturn => {
     };
   }, []);
 
+  // Re-plan locally scheduled prayer reminders whenever the prayer data changes.
+  // The scheduler skips the work when the resulting plan is unchanged.
+  useEffect(() => {
+    if (!prayerTimes) return;
+    PrayerReminderScheduler.reschedule({ prayerTimes, mosqueSettings, jumuahTimes });
+  }, [prayerTimes, mosqueSettings, jumuahTimes]);
+
+  // Observance reminders depend on the moon-sighting offset, so follow mosque settings changes too
+  useEffect(() => {
+    if (!mosqueSettings) return;
+    ObservanceReminderScheduler.reschedule(mosqueSettings);
+  }, [mosqueSettings]);
+
   // Manual refetch function (for pull-to-refresh)
   // Note: With real-time listeners, this happens automatically,
   // but we keep this for the pull-to-refresh gesture
@@ -0,0 +1,75 @@
+import notifee, { EventType } from '@notifee/react-native';
+import messaging from '@react-native-firebase/messaging';
+import { Href, useRouter } from 'expo-router';
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { getCachedData, removeCachedData } from '../utils/cache';
+import { getNotificationPath } from '../utils/deepLinks';
+
+/**
+ * Open the route a tapped notification points at (e.g. an event's detail
+ * screen). Covers notifee notifications tapped while the app is open, in the
+ * background or closed, and system-displayed FCM notifications.
+ *
+ * @param ready - false until the navigator is mounted
+ */
+export const useNotificationLinks = (ready: boolean): void => {
+  const router = useRouter();
+  // Notification ids already opened, so one tap isn't handled by two paths
+  const handledIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!ready) return;
+
+    const open = (data: Record<string, unknown> | undefined, notificationId?: string): boolean => {
+      const path = getNotificationPath(data);
+      if (!path) return false;
+      if (notificationId) {
+        if (handledIds.current.has(notificationId)) return true;
+        handledIds.current.add(notificationId);
+      }
+      router.push(path as Href);
+      return true;
+    };
+
+    // Taps recorded by the background handler; skipped when already opened another way
+    const openPending = async (alreadyOpened = false) => {
+      const path = await getCachedData<string>(CACHE_KEYS.PENDING_NOTIFICATION_LINK);
+      if (!path) return;
+      await removeCachedData(CACHE_KEYS.PENDING_NOTIFICATION_LINK);
+      if (!alreadyOpened) router.push(path as Href);
+    };
+
+    // Cold start from a notification tap
+    const openInitial = async () => {
+      let opened = false;
+      try {
+        const initial = await notifee.getInitialNotification();
+        if (initial) opened = open(initial.notification.data, initial.notification.id);
+        const message = await messaging().getInitialNotification();
+        if (message && !opened) opened = open(message.data, message.messageId);
+      } catch (error) {
+        console.warn('Error reading initial notification:', error);
+      }
+      await openPending(opened);
+    };
+    openInitial();
+
+    const unsubscribeNotifee = notifee.onForegroundEvent(({ type, detail }) => {
+      if (type === EventType.PRESS) open(detail.notification?.data, detail.notification?.id);
+    });
+    const unsubscribeOpened = messaging().onNotificationOpenedApp((message) => {
+      open(message.data, message.messageId);
+    });
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') openPending();
+    });
+
+    return () => {
+      unsubscribeNotifee();
+      unsubscribeOpened();
+      subscription.remove();
+    };
+  }, [ready, router]);
+};
@@ -0,0 +1,259 @@
+import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { db } from '../firebase';
+import { Event } from '../types';
+import { getCachedData, setCachedData } from '../utils/cache';
+import { DataIssueTracker, createDataIssueTracker } from '../utils/dataIssues';
+import { DEFAULT_TIMEZONE } from '../utils/prayerCalculation';
+import { CalendarDay, addDays, getZonedToday } from '../utils/time';
+import { validateEvent } from '../utils/validation';
+import { deserializeEvent, expandEventSeries, getTodayStartTimestamp, serializeEvent } from './useEvents';
+
+/** Past events fetched per page */
+const PAGE_SIZE = 20;
+
+/** Earliest day series are expanded from once every page is loaded */
+const ARCHIVE_START: CalendarDay = { year: 2000, month: 1, day: 1 };
+
+/** Position after the last document of the latest page, ordered by date then time (newest first) */
+interface PageCursor {
+  date: FirebaseFirestoreTypes.Timestamp;
+  time: string;
+}
+
+interface PastEventsArchive {
+  /** One-off past events, newest first */
+  events: Event[];
+  /** Series documents; their past occurrences are expanded as far back as the pages go */
+  series: Event[];
+  cursor: PageCursor | null;
+  hasMore: boolean;
+}
+
+interface CachedArchive {
+  events: any[];
+  series: any[];
+  cursor: { date: { seconds: number; nanoseconds: number }; time: string } | null;
+  hasMore: boolean;
+}
+
+interface UsePastEventsReturn {
+  /** Past events and series occurrences, newest first */
+  pastEvents: Event[];
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: string | null;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const EMPTY_ARCHIVE: PastEventsArchive = { events: [], series: [], cursor: null, hasMore: true };
+
+const serializeArchive = (archive: PastEventsArchive): CachedArchive => ({
+  events: archive.events.map(serializeEvent),
+  series: archive.series.map(serializeEvent),
+  cursor: archive.cursor
+    ? { date: { seconds: archive.cursor.date.seconds, nanoseconds: archive.cursor.date.nanoseconds }, time: archive.cursor.time }
+    : null,
+  hasMore: archive.hasMore,
+});
+
+const deserializeArchive = (data: CachedArchive): PastEventsArchive => ({
+  events: data.events.map(deserializeEvent),
+  series: data.series.map(deserializeEvent),
+  cursor: data.cursor
+    ? { date: new firestore.Timestamp(data.cursor.date.seconds, data.cursor.date.nanoseconds), time: data.cursor.time }
+    : null,
+  hasMore: data.hasMore,
+});
+
+/** Whether an event sorts after the cursor, i.e. is older than everything up to it */
+const isBeyondCursor = (event: Event, cursor: PageCursor): boolean => {
+  const diff = event.date.toMillis() - cursor.date.toMillis();
+  return diff < 0 || (diff === 0 && event.time < cursor.time);
+};
+
+/**
+ * Validated events from a query, falling back to the last valid copy of a broken document.
+ * Also returns the ids of every included document, valid or not.
+ */
+const toValidEvents = (
+  querySnapshot: FirebaseFirestoreTypes.QuerySnapshot,
+  previousById: Map<string, Event>,
+  issues: DataIssueTracker,
+  include: (data: Record<string, any>) => boolean
+): { events: Event[]; documentIds: string[] } => {
+  const loadedEvents: Event[] = [];
+  const documentIds: string[] = [];
+  querySnapshot.forEach((doc) => {
+    const data = doc.data();
+    if (!include(data)) return;
+    documentIds.push(doc.id);
+    const validation = validateEvent({ id: doc.id, ...data });
+    if (validation.valid) {
+      issues.clear(doc.id);
+      loadedEvents.push(validation.value);
+      return;
+    }
+    issues.report(validation.errors, doc.id);
+    const previous = previousById.get(doc.id);
+    if (previous) loadedEvents.push(previous);
+  });
+  return { events: loadedEvents, documentIds };
+};
+
+/**
+ * Older events for the archive, paged backwards from today with Firestore
+ * cursors. Nothing is fetched until `enabled`; pages already loaded are
+ * cached and shown straight away next time, while the newest page refreshes.
+ */
+export const usePastEvents = (enabled: boolean, timeZone: string = DEFAULT_TIMEZONE): UsePastEventsReturn => {
+  const [archive, setArchive] = useState<PastEventsArchive>(EMPTY_ARCHIVE);
+  // Stays true until the first load, so the Past segment opens on a spinner rather than an empty state
+  const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const archiveRef = useRef<PastEventsArchive>(EMPTY_ARCHIVE);
+  const loadingMoreRef = useRef(false);
+  const startedRef = useRef(false);
+  // Issues reported by the pages and the series query, cleared once a document drops out of them
+  const pageIssues = useMemo(() => createDataIssueTracker('events'), []);
+  const seriesIssues = useMemo(() => createDataIssueTracker('events'), []);
+
+  const commit = useCallback(async (next: PastEventsArchive) => {
+    archiveRef.current = next;
+    setArchive(next);
+    await setCachedData(CACHE_KEYS.PAST_EVENTS, serializeArchive(next));
+  }, []);
+
+  const fetchPage = useCallback(async (after: PageCursor | null) => {
+    let query = db
+      .collection('events')
+      .where('is_active', '==', true)
+      .where('date', '<', getTodayStartTimestamp(timeZone))
+      .orderBy('date', 'desc')
+      .orderBy('time', 'desc');
+    if (after) query = query.startAfter(after.date, after.time);
+
+    const querySnapshot = await query.limit(PAGE_SIZE).get();
+    const previousById = new Map(archiveRef.current.events.map((event) => [event.id, event]));
+    // Series are fetched separately, so their documents are skipped here
+    const { events, documentIds } = toValidEvents(querySnapshot, previousById, pageIssues, (data) => !data.recurrence);
+
+    const lastDoc = querySnapshot.docs[querySnapshot.docs.length - 1];
+    const cursor = lastDoc ? { date: lastDoc.get('date'), time: lastDoc.get('time') } as PageCursor : after;
+    return { events, documentIds, cursor, hasMore: querySnapshot.size === PAGE_SIZE };
+  }, [pageIssues, timeZone]);
+
+  const fetchSeries = useCallback(async () => {
+    const querySnapshot = await db
+      .collection('events')
+      .where('is_active', '==', true)
+      .where('recurrence.frequency', 'in', ['weekly', 'monthly'])
+      .get();
+    const previousById = new Map(archiveRef.current.series.map((event) => [event.id, event]));
+    const { events, documentIds } = toValidEvents(querySnapshot, previousById, seriesIssues, () => true);
+    seriesIssues.clearMissing(documentIds);
+    return events;
+  }, [seriesIssues]);
+
+  const refresh = useCallback(async () => {
+    setLoading(archiveRef.current.events.length === 0 && archiveRef.current.series.length === 0);
+    setError(null);
+    try {
+      const [page, series] = await Promise.all([fetchPage(null), fetchSeries()]);
+      const cached = archiveRef.current;
+
+      // Keep older pages from the cache when the fresh first page doesn't reach the end
+      const keepOlder = page.hasMore && page.cursor && cached.cursor
+        && cached.cursor.date.toMillis() < page.cursor.date.toMillis();
+      const pageIds = new Set(page.events.map((event) => event.id));
+      const older = keepOlder
+        ? cached.events.filter((event) => !pageIds.has(event.id) && isBeyondCursor(event, page.cursor!))
+        : [];
+      // Pages past the ones kept are dropped, along with the issues they reported
+      pageIssues.clearMissing([...page.documentIds, ...older.map((event) => event.id)]);
+
+      await commit({
+        events: [...page.events, ...older],
+        series,
+        cursor: keepOlder ? cached.cursor : page.cursor,
+        hasMore: keepOlder ? cached.hasMore : page.hasMore,
+      });
+      console.log('📚 Past events refreshed:', page.events.length + older.length);
+    } catch (err) {
+      console.error('Error loading past events:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [commit, fetchPage, fetchSeries, pageIssues]);
+
+  const loadMore = useCallback(async () => {
+    const current = archiveRef.current;
+    if (!current.hasMore || !current.cursor || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await fetchPage(current.cursor);
+      const loadedIds = new Set(current.events.map((event) => event.id));
+      await commit({
+        ...archiveRef.current,
+        events: [...current.events, ...page.events.filter((event) => !loadedIds.has(event.id))],
+        cursor: page.cursor,
+        hasMore: page.hasMore,
+      });
+      console.log('📚 Past events page loaded:', page.events.length);
+    } catch (err) {
+      console.error('Error loading more past events:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [commit, fetchPage]);
+
+  useEffect(() => {
+    if (!enabled || startedRef.current) return;
+    startedRef.current = true;
+
+    const loadArchive = async () => {
+      setLoading(true);
+      // 1. Pages loaded last time (instant)
+      const cachedData = await getCachedData<CachedArchive>(CACHE_KEYS.PAST_EVENTS);
+      if (cachedData?.events && cachedData.series) {
+        const cached = deserializeArchive(cachedData);
+        archiveRef.current = cached;
+        setArchive(cached);
+        setLoading(false);
+        console.log('✅ Past events loaded from cache:', cached.events.length);
+      }
+      // 2. Refresh the newest page
+      await refresh();
+    };
+
+    loadArchive();
+  }, [enabled, refresh]);
+
+  // Series occurrences go back as far as the loaded pages, so older sessions arrive with older pages
+  const pastEvents = useMemo(() => {
+    const yesterday = addDays(getZonedToday(timeZone), -1);
+    const from = archive.hasMore && archive.cursor ? getZonedToday(timeZone, archive.cursor.date.toDate()) : ARCHIVE_START;
+    const expanded = expandEventSeries([...archive.events, ...archive.series], timeZone, from, yesterday);
+    return expanded.reverse();
+  }, [archive, timeZone]);
+
+  return {
+    pastEvents,
+    loading,
+    loadingMore,
+    hasMore: archive.hasMore,
+    error,
+    loadMore,
+    refresh,
+  };
+};
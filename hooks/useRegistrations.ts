@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import FCMService from '../services/FCMService';
+import RegistrationApi from '../services/RegistrationApi';
+import { Event } from '../types';
+import { Registration, RegistrationFormData } from '../types/registration';
+import { getCachedData, setCachedData } from '../utils/cache';
+import { createIdempotencyKey } from '../utils/idempotency';
+
+interface UseRegistrationsReturn {
+  /** Registrations submitted from this device, oldest event first */
+  registrations: Registration[];
+  loading: boolean;
+  /** True while a submit call is in flight */
+  submitting: boolean;
+  getRegistrationForEvent: (eventId: string) => Registration | undefined;
+  submitRegistration: (event: Event, form: RegistrationFormData) => Promise<Registration>;
+}
+
+const getRegistrationErrorMessage = (err: any): string => {
+  switch (err?.code) {
+    case 'functions/unavailable':
+    case 'functions/deadline-exceeded':
+      return "Couldn't reach the masjid. Please check your connection and try again.";
+    case 'functions/invalid-argument':
+      return err.message || 'Some answers were not accepted. Please check the form.';
+    case 'functions/failed-precondition':
+      return err.message || 'Registration is closed for this event.';
+    case 'functions/already-exists':
+      return 'You have already registered for this event.';
+    case 'functions/not-found':
+      return 'This event is no longer available.';
+    default:
+      return err?.message || 'Something went wrong. Please try again.';
+  }
+};
+
+/**
+ * Registrations made from this device. They are only kept locally, together
+ * with a copy of the form, so the answers can be shown even if the form changes.
+ */
+export const useRegistrations = (): UseRegistrationsReturn => {
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  // One key per event until a submit succeeds, so trying again after a lost response can't register twice
+  const pendingKeys = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    getCachedData<Registration[]>(CACHE_KEYS.MY_REGISTRATIONS).then((cached) => {
+      if (cached) setRegistrations(cached);
+      setLoading(false);
+    });
+  }, []);
+
+  const submitRegistration = useCallback(async (event: Event, form: RegistrationFormData): Promise<Registration> => {
+    if (!event.registration_form) throw new Error('This event does not take registrations.');
+    if (event.series_id) throw new Error('Registrations are not available for sessions of a series.');
+    setSubmitting(true);
+    try {
+      const deviceId = await FCMService.getDeviceId();
+      const idempotencyKey = pendingKeys.current.get(event.id) ?? createIdempotencyKey();
+      pendingKeys.current.set(event.id, idempotencyKey);
+      const response = await RegistrationApi.submitRegistration({
+        deviceId,
+        event_id: event.id,
+        idempotency_key: idempotencyKey,
+        answers: form.answers,
+        attendees: form.attendees,
+      });
+      pendingKeys.current.delete(event.id);
+      const registration: Registration = {
+        id: response.registration_id,
+        event_id: event.id,
+        event_title: event.title,
+        event_date: event.date.toDate().toISOString(),
+        form: event.registration_form,
+        answers: form.answers,
+        attendees: form.attendees,
+        created_at: response.created_at,
+      };
+
+      // Read the saved list again, in case another screen registered in the meantime
+      const saved = (await getCachedData<Registration[]>(CACHE_KEYS.MY_REGISTRATIONS)) || [];
+      const next = [...saved.filter((r) => r.id !== registration.id), registration]
+        .sort((a, b) => a.event_date.localeCompare(b.event_date));
+      setRegistrations(next);
+      await setCachedData(CACHE_KEYS.MY_REGISTRATIONS, next);
+      return registration;
+    } catch (err: any) {
+      throw new Error(getRegistrationErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  }, []);
+
+  // The latest one wins if the same event was registered more than once
+  const getRegistrationForEvent = useCallback(
+    (eventId: string) => registrations.filter((r) => r.event_id === eventId).pop(),
+    [registrations]
+  );
+
+  return {
+    registrations,
+    loading,
+    submitting,
+    getRegistrationForEvent,
+    submitRegistration,
+  };
+};
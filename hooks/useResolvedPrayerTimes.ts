@@ -0,0 +1,61 @@
+import { useEffect, useMemo, useState } from 'react';
+import { MosqueSettings, PrayerTimes } from '../types';
+import {
+  SunTimes,
+  TimetableDay,
+  calculateSunTimes,
+  getMosqueTimezone,
+  getUpcomingIqamaChange,
+  resolvePrayerDay,
+} from '../utils/prayerCalculation';
+import { CalendarDay, addDays, getZonedToday, isSameCalendarDay, zonedTimeToDate } from '../utils/time';
+
+interface UseResolvedPrayerTimesReturn {
+  /** Today's adhan/iqama times with the source of each adhan, or null without data */
+  today: TimetableDay | null;
+  /** Sunrise, Duha and makruh windows for today, or null without coordinates */
+  sunTimes: SunTimes | null;
+  /** First day within a week on which a different iqama schedule applies */
+  upcomingIqamaChange: CalendarDay | null;
+  /** True when at least one adhan time was calculated on this device */
+  isComputed: boolean;
+}
+
+/**
+ * Read-only resolution of today's prayer times.
+ * Adhan times are calculated locally from MosqueSettings and admin overrides
+ * from the prayerTimes document are layered on top. Nothing is written back.
+ */
+export const useResolvedPrayerTimes = (
+  prayerTimes: PrayerTimes | null,
+  mosqueSettings: MosqueSettings | null
+): UseResolvedPrayerTimesReturn => {
+  const timeZone = getMosqueTimezone(mosqueSettings);
+  const [day, setDay] = useState<CalendarDay>(() => getZonedToday(timeZone));
+
+  // Roll over to the next day at midnight in the mosque timezone
+  useEffect(() => {
+    const current = getZonedToday(timeZone);
+    setDay((previous) => (isSameCalendarDay(previous, current) ? previous : current));
+
+    const nextMidnight = zonedTimeToDate(addDays(current, 1), 0, timeZone).getTime();
+    const timer = setTimeout(() => {
+      setDay(getZonedToday(timeZone));
+    }, Math.max(nextMidnight - Date.now(), 0) + 1000);
+
+    return () => clearTimeout(timer);
+  }, [timeZone, day]);
+
+  const today = useMemo(
+    () => resolvePrayerDay(mosqueSettings, prayerTimes, day),
+    [mosqueSettings, prayerTimes, day]
+  );
+
+  const sunTimes = useMemo(() => calculateSunTimes(mosqueSettings, day), [mosqueSettings, day]);
+
+  const upcomingIqamaChange = useMemo(() => getUpcomingIqamaChange(prayerTimes, day), [prayerTimes, day]);
+
+  const isComputed = !!today && Object.values(today.adhanSource).some((source) => source === 'computed');
+
+  return { today, sunTimes, upcomingIqamaChange, isComputed };
+};
@@ -0,0 +1,164 @@
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import FCMService from '../services/FCMService';
+import NotificationService from '../services/NotificationService';
+import RsvpApi from '../services/RsvpApi';
+import { Event } from '../types';
+import { Rsvp, RsvpFormData } from '../types/rsvp';
+import { getCachedData, setCachedData } from '../utils/cache';
+import { createIdempotencyKey } from '../utils/idempotency';
+
+interface UseRsvpsReturn {
+  /** This device's RSVPs that haven't been cancelled */
+  rsvps: Rsvp[];
+  loading: boolean;
+  /** True while a create or cancel call is in flight */
+  submitting: boolean;
+  error: string | null;
+  getRsvpForEvent: (eventId: string) => Rsvp | undefined;
+  submitRsvp: (event: Event, form: RsvpFormData) => Promise<Rsvp>;
+  cancelRsvp: (rsvpId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const getRsvpErrorMessage = (err: any): string => {
+  switch (err?.code) {
+    case 'functions/unavailable':
+    case 'functions/deadline-exceeded':
+      return "Couldn't reach the masjid. Please check your connection and try again.";
+    case 'functions/failed-precondition':
+      return err.message || 'RSVPs are closed for this event.';
+    case 'functions/already-exists':
+      return 'You have already RSVPed to this event.';
+    case 'functions/not-found':
+      return 'This event is no longer available.';
+    default:
+      return err?.message || 'Something went wrong. Please try again.';
+  }
+};
+
+/**
+ * RSVPs made from this device, cached so they show offline.
+ * Refreshed whenever the screen gains focus; a waitlisted RSVP that the server
+ * has since promoted triggers a local "you're in" notification.
+ */
+export const useRsvps = (): UseRsvpsReturn => {
+  const [rsvps, setRsvps] = useState<Rsvp[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // One key per event until an RSVP succeeds, so trying again after a lost response can't book twice
+  const pendingKeys = useRef(new Map<string, string>());
+
+  const saveRsvps = useCallback(async (next: Rsvp[]) => {
+    const active = next
+      .filter((rsvp) => rsvp.status !== 'cancelled')
+      .sort((a, b) => a.event_date.localeCompare(b.event_date));
+    setRsvps(active);
+    await setCachedData(CACHE_KEYS.MY_RSVPS, active);
+  }, []);
+
+  // 1. Load from cache first (instant)
+  useEffect(() => {
+    getCachedData<Rsvp[]>(CACHE_KEYS.MY_RSVPS).then((cached) => {
+      if (cached) {
+        setRsvps((current) => (current.length > 0 ? current : cached));
+        setLoading(false);
+      }
+    });
+  }, []);
+
+  // 2. Fetch the server's copy, which reflects waitlist promotions
+  const refresh = useCallback(async () => {
+    try {
+      const deviceId = await FCMService.getDeviceId();
+      const [previous, response] = await Promise.all([
+        getCachedData<Rsvp[]>(CACHE_KEYS.MY_RSVPS),
+        RsvpApi.getMyRsvps({ deviceId }),
+      ]);
+
+      const promoted = response.rsvps.filter((rsvp) =>
+        rsvp.status === 'confirmed'
+        && previous?.some((old) => old.id === rsvp.id && old.status === 'waitlisted')
+      );
+      for (const rsvp of promoted) {
+        NotificationService.displayEventNotification(
+          "You're off the waitlist",
+          `A place opened up at ${rsvp.event_title}. Your RSVP is confirmed.`,
+          { type: 'event', eventId: rsvp.event_id }
+        ).catch(() => {});
+      }
+
+      await saveRsvps(response.rsvps);
+      setError(null);
+    } catch (err: any) {
+      console.warn('Error refreshing RSVPs:', err?.message);
+      setError(getRsvpErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [saveRsvps]);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const submitRsvp = useCallback(async (event: Event, form: RsvpFormData): Promise<Rsvp> => {
+    if (event.series_id) throw new Error('RSVPs are not available for sessions of a series.');
+    setSubmitting(true);
+    try {
+      const deviceId = await FCMService.getDeviceId();
+      const contact = form.contact?.trim();
+      const idempotencyKey = pendingKeys.current.get(event.id) ?? createIdempotencyKey();
+      pendingKeys.current.set(event.id, idempotencyKey);
+      const response = await RsvpApi.createRsvp({
+        deviceId,
+        event_id: event.id,
+        idempotency_key: idempotencyKey,
+        name: form.name.trim(),
+        party_size: form.partySize,
+        ...(contact ? { contact } : {}),
+      });
+      pendingKeys.current.delete(event.id);
+      await saveRsvps([...rsvps.filter((rsvp) => rsvp.id !== response.rsvp.id), response.rsvp]);
+      setError(null);
+      return response.rsvp;
+    } catch (err: any) {
+      throw new Error(getRsvpErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  }, [rsvps, saveRsvps]);
+
+  const cancelRsvp = useCallback(async (rsvpId: string): Promise<void> => {
+    setSubmitting(true);
+    try {
+      const deviceId = await FCMService.getDeviceId();
+      await RsvpApi.cancelRsvp({ deviceId, rsvp_id: rsvpId });
+      await saveRsvps(rsvps.filter((rsvp) => rsvp.id !== rsvpId));
+    } catch (err: any) {
+      throw new Error(getRsvpErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  }, [rsvps, saveRsvps]);
+
+  const getRsvpForEvent = useCallback(
+    (eventId: string) => rsvps.find((rsvp) => rsvp.event_id === eventId),
+    [rsvps]
+  );
+
+  return {
+    rsvps,
+    loading,
+    submitting,
+    error,
+    getRsvpForEvent,
+    submitRsvp,
+    cancelRsvp,
+    refresh,
+  };
+};
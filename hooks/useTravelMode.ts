@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocation } from '../components/QiblaCompass/hooks/useLocation';
+import { usePlacename } from '../components/QiblaCompass/hooks/usePlacename';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { MosqueSettings } from '../types';
+import { getCachedData, setCachedData } from '../utils/cache';
+import { TRAVEL_SUGGEST_DISTANCE_KM, buildTravelSettings, getDistanceFromMosqueKm } from '../utils/travel';
+
+interface UseTravelModeReturn {
+  /** True when the user has switched travel mode on */
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  /** Settings for the device location, or null until travel mode is on and located */
+  travelSettings: MosqueSettings | null;
+  /** Place name for the device location, if known */
+  placeName: string | null;
+  /** Kilometres from the masjid, or null when unknown */
+  distanceKm: number | null;
+  /** True when the user is far from the masjid and travel mode is off */
+  suggested: boolean;
+  dismissSuggestion: () => void;
+  isLocating: boolean;
+  locationError: string | null;
+}
+
+/**
+ * Travel mode: adhan times calculated for the device's location and timezone.
+ * Location is only requested once the user switches it on; if permission was
+ * already granted (e.g. for the Qibla compass) it is used to suggest the mode
+ * when the user is far from the masjid.
+ */
+export const useTravelMode = (mosqueSettings: MosqueSettings | null): UseTravelModeReturn => {
+  const [enabled, setEnabledState] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const { coordinates, isLoading, error } = useLocation({ requestPermission: enabled });
+  const { name: placeName } = usePlacename(coordinates);
+
+  // Load the saved preference on mount
+  useEffect(() => {
+    getCachedData<boolean>(CACHE_KEYS.TRAVEL_MODE).then((saved) => {
+      if (saved) setEnabledState(true);
+    });
+  }, []);
+
+  const setEnabled = useCallback((value: boolean) => {
+    setEnabledState(value);
+    if (!value) setDismissed(true);
+    setCachedData(CACHE_KEYS.TRAVEL_MODE, value);
+  }, []);
+
+  const dismissSuggestion = useCallback(() => setDismissed(true), []);
+
+  const distanceKm = getDistanceFromMosqueKm(mosqueSettings, coordinates);
+
+  const travelSettings = useMemo(
+    () => (enabled && coordinates ? buildTravelSettings(mosqueSettings, coordinates, placeName) : null),
+    [enabled, coordinates, mosqueSettings, placeName]
+  );
+
+  const suggested = !enabled && !dismissed && distanceKm !== null && distanceKm > TRAVEL_SUGGEST_DISTANCE_KM;
+
+  return {
+    enabled,
+    setEnabled,
+    travelSettings,
+    placeName,
+    distanceKm,
+    suggested,
+    dismissSuggestion,
+    isLocating: enabled && isLoading,
+    locationError: enabled ? error : null,
+  };
+};
@@ -1,12 +1,18 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Alert, Clipboard, Platform, StyleSheet, Switch, Text, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import EventCategoryNotifications from '../components/EventCategoryNotifications';
+import PrayerReminderMatrix from '../components/PrayerReminderMatrix';
+import { CACHE_KEYS } from '../constants/cacheKeys';
 import { useTheme, type AppTheme } from '../contexts/ThemeContext';
 import { useResponsive } from '../hooks/useResponsive';
 import FCMService from '../services/FCMService';
 import NotificationService from '../services/NotificationService';
+import EventReminderScheduler from '../services/EventReminderScheduler';
+import ObservanceReminderScheduler from '../services/ObservanceReminderScheduler';
+import PrayerReminderScheduler from '../services/PrayerReminderScheduler';
 
-const STORAGE_KEY = '@notification_settings_enabled';
+const STORAGE_KEY = CACHE_KEYS.NOTIFICATIONS_ENABLED;
 
 export default function NotificationSettingsScreen() {
   const theme = useTheme();
@@ -120,8 +126,19 @@ export default function NotificationSettingsScreen() {
     try {
       // 1. Update local storage first (source of truth)
       await AsyncStorage.setItem(STORAGE_KEY, String(value));
+
+      // 2. Book or cancel the locally scheduled prayer, observance and event reminders
+      if (value) {
+        PrayerReminderScheduler.reschedule();
+        ObservanceReminderScheduler.reschedule();
+        EventReminderScheduler.reschedule();
+      } else {
+        PrayerReminderScheduler.cancelAll();
+        ObservanceReminderScheduler.cancelAll();
+        EventReminderScheduler.cancelAll();
+      }
       
-      // 2. Best-effort server sync (non-blocking; no spinner)
+      // 3. Best-effort server sync (non-blocking; no spinner)
       await FCMService.updateNotificationSettings(value);
     } catch (error) {
       console.warn('Toggle sync failed (silent; will retry on next mount or action):', error);
@@ -206,6 +223,10 @@ export default function NotificationSettingsScreen() {
         You can change this setting anytime. When disabled, you won&apos;t receive any notifications from the mosque.
       </Text>
 
+      <PrayerReminderMatrix disabled={!enabled} />
+
+      <EventCategoryNotifications disabled={!enabled} />
+
       {/* Diagnostics Toggle */}
       <View style={[styles.card, { marginTop: 20 }]}>
         <View style={styles.row}>
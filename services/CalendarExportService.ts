@@ -0,0 +1,65 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Event, MosqueSettings } from '../types';
+import { getEventLink } from '../utils/deepLinks';
+import { buildEventsCalendar } from '../utils/ics';
+import { getMosqueTimezone } from '../utils/prayerCalculation';
+
+const ICS_MIME_TYPE = 'text/calendar';
+const ICS_UTI = 'com.apple.ical.ics';
+
+/** File-name safe version of an event title */
+const toFileName = (title: string): string => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return slug || 'event';
+};
+
+/**
+ * Writes events to an .ics file and hands it to the native share sheet, where
+ * members can open it in their calendar app.
+ */
+class CalendarExportService {
+  /**
+   * Share one event as an .ics file
+   */
+  async shareEvent(event: Event, settings: MosqueSettings | null): Promise<void> {
+    await this.shareCalendar([event], settings, `${toFileName(event.title)}.ics`, `Add ${event.title} to calendar`);
+  }
+
+  /**
+   * Share a list of events (e.g. all upcoming) as a single .ics file
+   */
+  async shareEvents(events: Event[], settings: MosqueSettings | null): Promise<void> {
+    if (events.length === 0) throw new Error('There are no events to export.');
+    await this.shareCalendar(events, settings, 'masjid-events.ics', 'Export events');
+  }
+
+  private async shareCalendar(
+    events: Event[],
+    settings: MosqueSettings | null,
+    fileName: string,
+    dialogTitle: string
+  ): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device.');
+    }
+
+    const content = buildEventsCalendar(events, {
+      timeZone: getMosqueTimezone(settings),
+      calendarName: settings?.name,
+      getEventLink,
+    });
+
+    const file = new File(Paths.cache, fileName);
+    file.create({ overwrite: true });
+    file.write(content);
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: ICS_MIME_TYPE,
+      UTI: ICS_UTI,
+      dialogTitle,
+    });
+  }
+}
+
+export default new CalendarExportService();
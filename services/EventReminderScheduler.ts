@@ -0,0 +1,281 @@
+/**
+ * Event Reminder Scheduler
+ *
+ * Books the reminders members set on individual events as local notifee
+ * trigger notifications on the `events` channel. Times are worked out from
+ * the event's date and time in the mosque timezone. Whenever the events
+ * listener delivers fresh data, reminders follow their event if it moves and
+ * are dropped if it is deactivated, removed or cancelled.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { Event, EventReminder, EventReminderMode, MosqueSettings } from '../types';
+import { getCachedData, setCachedData } from '../utils/cache';
+import { getStoredTimeFormat } from '../utils/displayPreferences';
+import { getMosqueTimezone } from '../utils/prayerCalculation';
+import { RECURRENCE_WINDOW_DAYS, parseOccurrenceId } from '../utils/recurrence';
+import { TimeFormat, addDays, daysBetween, formatTime, getZonedToday, parseTimeToMinutes, zonedTimeToDate } from '../utils/time';
+import NotificationService, { PlannedNotification, ReminderPrefix } from './NotificationService';
+
+/** "The morning of" reminders fire at 8:00 AM */
+const MORNING_MINUTES_OF_DAY = 8 * 60;
+/** Lead time for "1 hour before", and for "the morning of" when the event starts too early */
+const HOUR_BEFORE_MINUTES = 60;
+/** All event reminder trigger ids share this prefix */
+const REMINDER_ID_PREFIX: ReminderPrefix = 'event-reminder:';
+
+type RemindersListener = (reminders: EventReminder[]) => void;
+
+export interface EventStart {
+  /** Epoch ms; midnight of the event's day for all-day events */
+  startsAt: number;
+  /** The event's `time` isn't a clock time, e.g. "After Maghrib" */
+  allDay: boolean;
+}
+
+/**
+ * When an event starts: its calendar day from `date`, at `time`, in the mosque timezone.
+ * Events whose `time` can't be read are treated as all-day, as in the calendar export.
+ */
+export const getEventStart = (event: Event, timeZone: string): EventStart => {
+  const day = getZonedToday(timeZone, event.date.toDate());
+  const minutes = parseTimeToMinutes(event.time);
+  return {
+    startsAt: zonedTimeToDate(day, minutes ?? 0, timeZone).getTime(),
+    allDay: minutes === null,
+  };
+};
+
+/**
+ * When a reminder fires for an event. All-day events can only be reminded the morning of.
+ */
+export const getEventReminderTime = (
+  mode: EventReminderMode,
+  { startsAt, allDay }: EventStart,
+  timeZone: string,
+  minutesBefore: number = HOUR_BEFORE_MINUTES
+): number => {
+  const hourBefore = startsAt - HOUR_BEFORE_MINUTES * 60000;
+  const morning = zonedTimeToDate(getZonedToday(timeZone, new Date(startsAt)), MORNING_MINUTES_OF_DAY, timeZone).getTime();
+  if (allDay) return morning;
+  switch (mode) {
+    case 'morning_of':
+      // An early event gets its reminder an hour ahead instead
+      return morning < startsAt ? morning : hourBefore;
+    case 'custom':
+      return startsAt - minutesBefore * 60000;
+    default:
+      return hourBefore;
+  }
+};
+
+class EventReminderScheduler {
+  private queue: Promise<void> = Promise.resolve();
+  private listeners = new Set<RemindersListener>();
+
+  /**
+   * Whether a reminder can still be set: before the start, or before the morning reminder of an all-day event
+   */
+  canRemind(event: Event, timeZone: string, now: number = Date.now()): boolean {
+    if (event.is_cancelled) return false;
+    const start = getEventStart(event, timeZone);
+    return (start.allDay ? getEventReminderTime('morning_of', start, timeZone) : start.startsAt) > now;
+  }
+
+  /**
+   * Pending reminders, soonest first
+   */
+  async getReminders(): Promise<EventReminder[]> {
+    return (await getCachedData<EventReminder[]>(CACHE_KEYS.EVENT_REMINDERS)) || [];
+  }
+
+  /**
+   * Get notified whenever the reminders change, including when an event update moves or drops one
+   */
+  subscribe(listener: RemindersListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Set (or replace) the reminder for one event and re-plan.
+   * Throws when the reminder time has already passed. Runs in the queue, so a
+   * re-plan in progress can't write back a list without the new reminder.
+   */
+  async setReminder(
+    event: Event,
+    mode: EventReminderMode,
+    timeZone: string,
+    minutesBefore?: number
+  ): Promise<EventReminder> {
+    const start = getEventStart(event, timeZone);
+    const reminderMode = start.allDay ? 'morning_of' : mode;
+    const remindAt = getEventReminderTime(reminderMode, start, timeZone, minutesBefore);
+    if (remindAt <= Date.now()) {
+      throw new Error('That time has already passed. Please pick a later time.');
+    }
+
+    const reminder: EventReminder = {
+      eventId: event.id,
+      mode: reminderMode,
+      ...(reminderMode === 'custom' ? { minutesBefore } : {}),
+      title: event.title,
+      time: event.time,
+      location: event.location,
+      startsAt: start.startsAt,
+      remindAt,
+      allDay: start.allDay || undefined,
+    };
+    await this.enqueue(async () => {
+      const current = await this.getReminders();
+      await this.saveReminders([...current.filter((r) => r.eventId !== event.id), reminder]);
+    });
+    this.reschedule();
+    return reminder;
+  }
+
+  /**
+   * Remove the reminder for one event and re-plan. Runs in the queue, like setReminder.
+   */
+  async removeReminder(eventId: string): Promise<void> {
+    await this.enqueue(async () => {
+      const current = await this.getReminders();
+      await this.saveReminders(current.filter((r) => r.eventId !== eventId));
+    });
+    this.reschedule();
+  }
+
+  /**
+   * Re-plan the event reminders. When the latest events are passed in, each
+   * reminder is first moved to its event's current time. With `allowRemovals`
+   * (a list confirmed by the server) it is dropped if the event is no longer
+   * listed or has been cancelled.
+   */
+  reschedule(events?: Event[] | null, timeZone?: string, options: { allowRemovals?: boolean } = {}): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.runReschedule(events, timeZone, !!options.allowRemovals))
+      .catch((error) => {
+        console.error('❌ Error scheduling event reminders:', error);
+      });
+    return this.queue;
+  }
+
+  /**
+   * Cancel every booked event reminder. The reminders themselves are kept
+   * and booked again when notifications are turned back on.
+   */
+  async cancelAll(): Promise<void> {
+    try {
+      await NotificationService.cancelPlan(REMINDER_ID_PREFIX, CACHE_KEYS.EVENT_REMINDER_PLAN);
+    } catch (error) {
+      console.error('❌ Error cancelling event reminders:', error);
+    }
+  }
+
+  /**
+   * Run a task after everything already queued. Its errors go to the caller
+   * rather than stopping the queue.
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async saveReminders(reminders: EventReminder[]): Promise<void> {
+    const sorted = [...reminders].sort((a, b) => a.remindAt - b.remindAt);
+    await setCachedData(CACHE_KEYS.EVENT_REMINDERS, sorted);
+    this.listeners.forEach((listener) => listener(sorted));
+  }
+
+  /**
+   * Bring each reminder in line with its event, or null to drop it
+   */
+  private reconcile(
+    reminder: EventReminder,
+    event: Event | undefined,
+    timeZone: string,
+    now: number,
+    allowRemovals: boolean
+  ): EventReminder | null {
+    if (!event) {
+      if (!allowRemovals) return reminder;
+      // Series occurrences are only expanded a few months ahead; keep reminders beyond that
+      const windowEnd = zonedTimeToDate(addDays(getZonedToday(timeZone, new Date(now)), RECURRENCE_WINDOW_DAYS + 1), 0, timeZone);
+      return parseOccurrenceId(reminder.eventId) && reminder.startsAt >= windowEnd.getTime() ? reminder : null;
+    }
+    if (!event.is_active || event.is_cancelled) return allowRemovals ? null : reminder;
+
+    const start = getEventStart(event, timeZone);
+    return {
+      ...reminder,
+      title: event.title,
+      time: event.time,
+      location: event.location,
+      startsAt: start.startsAt,
+      remindAt: getEventReminderTime(reminder.mode, start, timeZone, reminder.minutesBefore),
+      allDay: start.allDay || undefined,
+    };
+  }
+
+  private async runReschedule(events: Event[] | null | undefined, zone: string | undefined, allowRemovals: boolean): Promise<void> {
+    const mosqueSettings = await getCachedData<MosqueSettings>(CACHE_KEYS.MOSQUE_SETTINGS);
+    const timeZone = zone ?? getMosqueTimezone(mosqueSettings);
+    const now = Date.now();
+
+    // Update the stored reminders first, so the list stays right even with notifications off
+    const stored = await this.getReminders();
+    const byId = events ? new Map(events.map((event) => [event.id, event])) : null;
+    const reminders = stored
+      .map((reminder) => (byId ? this.reconcile(reminder, byId.get(reminder.eventId), timeZone, now, allowRemovals) : reminder))
+      .filter((reminder): reminder is EventReminder => !!reminder && reminder.remindAt > now);
+    if (JSON.stringify(reminders) !== JSON.stringify(stored)) {
+      const moved = reminders.filter((r) => stored.some((old) => old.eventId === r.eventId && old.remindAt !== r.remindAt));
+      console.log(`🔔 Event reminders: ${stored.length - reminders.length} removed, ${moved.length} moved`);
+      await this.saveReminders(reminders);
+    }
+
+    const enabled = await AsyncStorage.getItem(CACHE_KEYS.NOTIFICATIONS_ENABLED);
+    if (enabled === 'false' || reminders.length === 0) {
+      await this.cancelAll();
+      return;
+    }
+
+    const timeFormat = await getStoredTimeFormat();
+    const plan: PlannedNotification[] = reminders.map((reminder) => ({
+      id: `${REMINDER_ID_PREFIX}${reminder.eventId}`,
+      timestamp: reminder.remindAt,
+      title: reminder.title,
+      body: this.describeStart(reminder, timeZone, timeFormat),
+      channelId: 'events',
+      data: { type: 'event', eventId: reminder.eventId },
+    }));
+
+    const booked = await NotificationService.schedulePlan(REMINDER_ID_PREFIX, CACHE_KEYS.EVENT_REMINDER_PLAN, plan);
+    if (booked !== null) console.log(`🔔 Scheduled ${booked} of ${plan.length} event reminders`);
+  }
+
+  /**
+   * Notification body, relative to when the reminder fires, e.g. "Today at 7:00 PM · Main hall"
+   * or "Today · After Maghrib" for an all-day event. Times follow the clock preference.
+   */
+  private describeStart(reminder: EventReminder, timeZone: string, timeFormat: TimeFormat): string {
+    const remindDay = getZonedToday(timeZone, new Date(reminder.remindAt));
+    const startDay = getZonedToday(timeZone, new Date(reminder.startsAt));
+    const days = daysBetween(remindDay, startDay);
+    const when = days === 0
+      ? 'Today'
+      : days === 1
+        ? 'Tomorrow'
+        : new Date(reminder.startsAt).toLocaleDateString('en-AU', { weekday: 'long', day: 'numeric', month: 'long', timeZone });
+    const time = formatTime(reminder.time, timeFormat);
+    return [reminder.allDay ? when : `${when} at ${time}`, reminder.allDay ? time : null, reminder.location]
+      .filter(Boolean)
+      .join(' · ');
+  }
+}
+
+export default new EventReminderScheduler();
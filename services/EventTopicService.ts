@@ -0,0 +1,120 @@
+/**
+ * Event Topic Subscriptions
+ *
+ * Event pushes are sent per category to FCM topics named `events_<categoryId>`.
+ * Every active category is on by default and members mute the ones they don't
+ * want, so a newly added category reaches everyone. The device's topic
+ * subscriptions follow those choices and the main notifications switch.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import messaging from '@react-native-firebase/messaging';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { EventCategory } from '../types';
+import { getCachedData, setCachedData } from '../utils/cache';
+
+const TOPIC_PREFIX = 'events_';
+
+/**
+ * FCM topic for a category; topic names only allow [a-zA-Z0-9-_.~%]
+ */
+export const getEventTopic = (categoryId: string): string => {
+  return `${TOPIC_PREFIX}${categoryId.replace(/[^a-zA-Z0-9\-_.~%]/g, '_')}`;
+};
+
+class EventTopicService {
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Categories the user has turned off
+   */
+  async getMutedCategories(): Promise<string[]> {
+    return (await getCachedData<string[]>(CACHE_KEYS.EVENT_TOPIC_MUTED_CATEGORIES)) || [];
+  }
+
+  /**
+   * Ids of the active categories the user still receives, for syncing to the server
+   */
+  async getEnabledCategoryIds(categories?: EventCategory[] | null): Promise<string[]> {
+    const list = categories ?? (await getCachedData<EventCategory[]>(CACHE_KEYS.EVENT_CATEGORIES)) ?? [];
+    const muted = await this.getMutedCategories();
+    return list.map((category) => category.id).filter((id) => !muted.includes(id));
+  }
+
+  /**
+   * Turn one category's event notifications on or off and update the subscriptions.
+   * Runs in the queue, so quick toggles of different categories don't overwrite each other.
+   */
+  async setCategoryEnabled(categoryId: string, enabled: boolean): Promise<string[]> {
+    const next = await this.enqueue(async () => {
+      const current = await this.getMutedCategories();
+      const muted = enabled ? current.filter((id) => id !== categoryId) : Array.from(new Set([...current, categoryId]));
+      await setCachedData(CACHE_KEYS.EVENT_TOPIC_MUTED_CATEGORIES, muted);
+      return muted;
+    });
+    await this.sync();
+    return next;
+  }
+
+  /**
+   * Subscribe to and unsubscribe from topics so they match the current choices.
+   * Falls back to the cached categories when they aren't passed in.
+   */
+  sync(categories?: EventCategory[] | null): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.runSync(categories))
+      .catch((error) => {
+        console.error('❌ Error syncing event topics:', error);
+      });
+    return this.queue;
+  }
+
+  /**
+   * Run a task after everything already queued. Its errors go to the caller
+   * rather than stopping the queue.
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async runSync(categories?: EventCategory[] | null): Promise<void> {
+    const notificationsEnabled = (await AsyncStorage.getItem(CACHE_KEYS.NOTIFICATIONS_ENABLED)) !== 'false';
+    const list = categories ?? (await getCachedData<EventCategory[]>(CACHE_KEYS.EVENT_CATEGORIES)) ?? [];
+    // Without any categories yet there is nothing to compare against; keep what we have
+    if (notificationsEnabled && list.length === 0) return;
+
+    const wanted = notificationsEnabled
+      ? (await this.getEnabledCategoryIds(list)).map(getEventTopic)
+      : [];
+    const subscribed = (await getCachedData<string[]>(CACHE_KEYS.EVENT_TOPIC_SUBSCRIPTIONS)) || [];
+    const toSubscribe = wanted.filter((topic) => !subscribed.includes(topic));
+    const toUnsubscribe = subscribed.filter((topic) => !wanted.includes(topic));
+    if (toSubscribe.length === 0 && toUnsubscribe.length === 0) return;
+
+    // Record each change as it succeeds, so failed ones are retried on the next sync
+    const current = new Set(subscribed);
+    for (const topic of toSubscribe) {
+      try {
+        await messaging().subscribeToTopic(topic);
+        current.add(topic);
+      } catch (error: any) {
+        console.warn(`⚠️ Could not subscribe to ${topic}:`, error?.message || error);
+      }
+    }
+    for (const topic of toUnsubscribe) {
+      try {
+        await messaging().unsubscribeFromTopic(topic);
+        current.delete(topic);
+      } catch (error: any) {
+        console.warn(`⚠️ Could not unsubscribe from ${topic}:`, error?.message || error);
+      }
+    }
+    await setCachedData(CACHE_KEYS.EVENT_TOPIC_SUBSCRIPTIONS, Array.from(current));
+
+    console.log(`🏷️ Event topics: +${toSubscribe.length} -${toUnsubscribe.length}, now ${current.size}`);
+  }
+}
+
+export default new EventTopicService();
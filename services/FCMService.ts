@@ -2,8 +2,23 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import messaging from '@react-native-firebase/messaging';
 import { Platform } from 'react-native';
 import DeviceInfo from 'react-native-device-info';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import EventTopicService from './EventTopicService';
 import FcmTokenApi from './FcmTokenApi';
 import NotificationService from './NotificationService';
+import PrayerReminderScheduler from './PrayerReminderScheduler';
+
+/**
+ * Server prayer pushes arrive at the same moments as the local adhan and iqama
+ * alerts, so they are only shown while no local prayer reminders are booked.
+ */
+const displayPrayerPush = async (title: string, body: string, data?: Record<string, any>): Promise<void> => {
+  if (await PrayerReminderScheduler.hasBookedReminders()) {
+    console.log('🔕 Prayer push skipped; local prayer reminders are booked');
+    return;
+  }
+  await NotificationService.displayPrayerNotification(title, body, data);
+};
 
 // Background message handler - REQUIRED for data-only messages when app is closed/background
 // This must be at the top level, outside of any class or function
@@ -18,7 +33,7 @@ messaging().setBackgroundMessageHandler(async (remoteMessage) => {
   try {
     switch (notificationType) {
       case 'prayer':
-        await NotificationService.displayPrayerNotification(title, body, data);
+        await displayPrayerPush(title, body, data);
         break;
       case 'event':
         await NotificationService.displayEventNotification(title, body, data);
@@ -81,6 +96,9 @@ class FCMService {
           }
         }
 
+        // Match event topic subscriptions to the saved category choices
+        EventTopicService.sync();
+
         // Listen for token refresh
         this.listenForTokenRefresh();
 
@@ -260,7 +278,7 @@ class FCMService {
       try {
         switch (notificationType) {
           case 'prayer':
-            await NotificationService.displayPrayerNotification(title, body, data);
+            await displayPrayerPush(title, body, data);
             break;
           case 'event':
             await NotificationService.displayEventNotification(title, body, data);
@@ -324,19 +342,24 @@ class FCMService {
   }
 
   /**
-   * Update notification settings for this device
+   * Update notification settings for this device, including which event
+   * categories it receives. Event topic subscriptions follow `enabled`.
    * Note: Caller should update AsyncStorage cache before calling this
    */
   async updateNotificationSettings(enabled: boolean): Promise<void> {
     console.log(`🔔 updateNotificationSettings: ${enabled ? 'ENABLE' : 'DISABLE'}`);
     
     try {
+      // Topics are device-side, so they update even when the server can't be reached
+      await EventTopicService.sync();
+
       const deviceId = await this.getDeviceId();
       console.log('📱 Device ID:', deviceId.substring(0, 8) + '...');
       
       // Update server
   const appVersion = DeviceInfo.getVersion();
-  await FcmTokenApi.setNotificationPreference({ deviceId, enabled, appVersion });
+  const eventCategories = await EventTopicService.getEnabledCategoryIds();
+  await FcmTokenApi.setNotificationPreference({ deviceId, enabled, appVersion, eventCategories });
       console.log(`✅ Notifications ${enabled ? 'enabled' : 'disabled'} on server`);
     } catch (error: any) {
       const code = error?.code;
@@ -366,6 +389,14 @@ class FCMService {
     }
   }
 
+  /**
+   * Sync event category choices to the server with the stored notifications switch
+   */
+  async syncEventCategories(): Promise<void> {
+    const enabled = (await AsyncStorage.getItem(CACHE_KEYS.NOTIFICATIONS_ENABLED)) !== 'false';
+    await this.updateNotificationSettings(enabled);
+  }
+
   /**
    * Update last seen timestamp - call this periodically when app is active
    */
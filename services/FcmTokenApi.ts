@@ -18,6 +18,8 @@ interface SetNotificationPreferenceRequest {
   deviceId: string;
   enabled: boolean;
   appVersion?: string;
+  /** Event categories this device receives pushes for (FCM topics `events_<id>`) */
+  eventCategories?: string[];
 }
 
 interface SetNotificationPreferenceResponse {
@@ -32,6 +34,7 @@ interface GetNotificationPreferenceResponse {
   ok: boolean;
   exists: boolean;
   notificationsEnabled: boolean | null;
+  eventCategories?: string[] | null;
 }
 
 interface TouchLastSeenRequest {
@@ -124,6 +127,7 @@ class FcmTokenApi {
     console.log('🔔 setNotificationPreference called:', {
       deviceId: data.deviceId.substring(0, 8) + '...',
       enabled: data.enabled,
+      eventCategories: data.eventCategories,
     });
     
     return retryWithBackoff(async () => {
@@ -8,16 +8,21 @@
  */
 
 import notifee, { EventType } from '@notifee/react-native';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { setCachedData } from '../utils/cache';
+import { getNotificationPath } from '../utils/deepLinks';
 
 notifee.onBackgroundEvent(async ({ type, detail }) => {
   console.log('📱 Background notification event:', type);
 
   switch (type) {
-    case EventType.PRESS:
+    case EventType.PRESS: {
       console.log('User pressed notification:', detail.notification?.title);
-      // You can add navigation logic here later if needed
-      // For example, navigate to specific screens based on notification data
+      // Navigation isn't available here; the app opens the route once it is in the foreground
+      const path = getNotificationPath(detail.notification?.data);
+      if (path) await setCachedData(CACHE_KEYS.PENDING_NOTIFICATION_LINK, path);
       break;
+    }
 
     case EventType.DISMISSED:
       console.log('User dismissed notification');
@@ -1,4 +1,5 @@
-import notifee, { AndroidStyle } from '@notifee/react-native';
+import notifee, { AlarmType, AndroidStyle, Notification, TimestampTrigger, TriggerType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import { NOTIFICATION_CHANNELS, NotificationChannelId } from '../constants/notificationChannels';
 import { NOTIFICATION_STYLES } from '../constants/notificationStyles';
@@ -12,6 +13,25 @@ export interface DisplayNotificationOptions {
   imageUrl?: string;
 }
 
+/** One trigger notification in a scheduler's plan */
+export interface PlannedNotification extends DisplayNotificationOptions {
+  id: string;
+  timestamp: number;
+}
+
+/**
+ * Most trigger notifications each reminder scheduler may book, keyed by its id prefix.
+ * iOS only keeps the 64 soonest pending local notifications, so together they
+ * stay under that and no scheduler can crowd out another.
+ */
+export const REMINDER_PLAN_LIMITS = {
+  'prayer-reminder:': 40,
+  'event-reminder:': 12,
+  'observance-reminder:': 8,
+} as const;
+
+export type ReminderPrefix = keyof typeof REMINDER_PLAN_LIMITS;
+
 class NotificationService {
   /**
    * Initialize all notification channels
@@ -41,9 +61,9 @@ class NotificationService {
   }
 
   /**
-   * Display a notification with proper styling
+   * Build a styled notifee notification for the given channel
    */
-  async displayNotification(options: DisplayNotificationOptions) {
+  private buildNotification(options: DisplayNotificationOptions, id?: string): Notification {
     const {
       title,
       body,
@@ -53,69 +73,79 @@ class NotificationService {
       imageUrl,
     } = options;
 
-    try {
-      const styleConfig = NOTIFICATION_STYLES[channelId];
+    const styleConfig = NOTIFICATION_STYLES[channelId];
 
-      const channel = NOTIFICATION_CHANNELS[channelId];
+    const channel = NOTIFICATION_CHANNELS[channelId];
 
-      // Fallback: allow image URL to be provided via data.imageUrl when not explicitly passed
-      const effectiveImageUrl = (imageUrl && imageUrl.trim()) || (typeof data?.imageUrl === 'string' && data.imageUrl.trim()) || '';
+    // Fallback: allow image URL to be provided via data.imageUrl when not explicitly passed
+    const effectiveImageUrl = (imageUrl && imageUrl.trim()) || (typeof data?.imageUrl === 'string' && data.imageUrl.trim()) || '';
 
-      const notification: any = {
-        title,
-        body,
-        android: {
-          channelId,
-          importance: channel.importance,
-          color: styleConfig.color,
-          smallIcon: styleConfig.smallIcon || 'ic_launcher',
-          pressAction: {
-            id: 'default',
-          },
+    const notification: any = {
+      id,
+      title,
+      body,
+      android: {
+        channelId,
+        importance: channel.importance,
+        color: styleConfig.color,
+        smallIcon: styleConfig.smallIcon || 'ic_launcher',
+        pressAction: {
+          id: 'default',
         },
-        data,
-      };
+      },
+      data,
+    };
 
-      // Add vibration pattern if defined for this channel
-      if (channel.vibrationPattern) {
-        notification.android.vibrationPattern = channel.vibrationPattern;
-      }
+    // Add vibration pattern if defined for this channel
+    if (channel.vibrationPattern) {
+      notification.android.vibrationPattern = channel.vibrationPattern;
+    }
 
-      // Add sound if defined for this channel
-      if (channel.sound) {
-        notification.android.sound = channel.sound;
-      }
+    // Add sound if defined for this channel
+    if (channel.sound) {
+      notification.android.sound = channel.sound;
+    }
 
-      // Only add largeIcon if it exists
-      const finalLargeIcon = largeIcon || styleConfig.largeIcon;
-      if (finalLargeIcon) {
-        notification.android.largeIcon = finalLargeIcon;
-      }
+    // Only add largeIcon if it exists
+    const finalLargeIcon = largeIcon || styleConfig.largeIcon;
+    if (finalLargeIcon) {
+      notification.android.largeIcon = finalLargeIcon;
+    }
 
-      // Add Big Picture style on Android if image URL is provided
-      if (effectiveImageUrl) {
-        notification.android.style = {
-          type: AndroidStyle.BIGPICTURE,
-          picture: effectiveImageUrl,
-        };
-        // Add iOS attachment so images also display on iOS
-        notification.ios = {
-          attachments: [
-            {
-              url: effectiveImageUrl,
-            },
-          ],
-        };
-      }
-      // Otherwise, add BigText style if enabled
-      else if (styleConfig.useBigTextStyle) {
-        notification.android.style = {
-          type: AndroidStyle.BIGTEXT,
-          text: body,
-        };
-      }
+    // Add Big Picture style on Android if image URL is provided
+    if (effectiveImageUrl) {
+      notification.android.style = {
+        type: AndroidStyle.BIGPICTURE,
+        picture: effectiveImageUrl,
+      };
+      // Add iOS attachment so images also display on iOS
+      notification.ios = {
+        attachments: [
+          {
+            url: effectiveImageUrl,
+          },
+        ],
+      };
+    }
+    // Otherwise, add BigText style if enabled
+    else if (styleConfig.useBigTextStyle) {
+      notification.android.style = {
+        type: AndroidStyle.BIGTEXT,
+        text: body,
+      };
+    }
 
-      await notifee.displayNotification(notification);
+    return notification;
+  }
+
+  /**
+   * Display a notification with proper styling
+   */
+  async displayNotification(options: DisplayNotificationOptions) {
+    const { title, channelId = 'general', imageUrl } = options;
+
+    try {
+      await notifee.displayNotification(this.buildNotification(options));
 
       console.log(`✅ Notification displayed: ${title} (${channelId})${imageUrl ? ' [with image]' : ''}`);
     } catch (error) {
@@ -124,6 +154,80 @@ class NotificationService {
     }
   }
 
+  /**
+   * Schedule a notification to be displayed at a future time.
+   * Re-using an id replaces the previously scheduled notification.
+   */
+  async scheduleNotification(id: string, options: DisplayNotificationOptions, timestamp: number) {
+    const trigger: TimestampTrigger = {
+      type: TriggerType.TIMESTAMP,
+      timestamp,
+      alarmManager: {
+        type: AlarmType.SET_EXACT_AND_ALLOW_WHILE_IDLE,
+      },
+    };
+
+    await notifee.createTriggerNotification(this.buildNotification(options, id), trigger);
+  }
+
+  /**
+   * Get the ids of scheduled notifications, optionally filtered by id prefix
+   */
+  async getScheduledNotificationIds(prefix?: string): Promise<string[]> {
+    try {
+      const ids = await notifee.getTriggerNotificationIds();
+      return prefix ? ids.filter((id) => id.startsWith(prefix)) : ids;
+    } catch (error) {
+      console.warn('Error fetching scheduled notifications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cancel scheduled notifications by id
+   */
+  async cancelScheduledNotifications(ids: string[]) {
+    if (ids.length === 0) return;
+    await notifee.cancelTriggerNotifications(ids);
+  }
+
+  /**
+   * Book a scheduler's plan under its id prefix, replacing what it booked before.
+   * Only the soonest reminders within the prefix's limit are booked; later ones
+   * are picked up as the plan is rebuilt. `planKey` stores the plan's signature.
+   * Returns how many were booked, or null when the booked plan was already current.
+   */
+  async schedulePlan(prefix: ReminderPrefix, planKey: string, plan: PlannedNotification[]): Promise<number | null> {
+    const booked = [...plan].sort((a, b) => a.timestamp - b.timestamp).slice(0, REMINDER_PLAN_LIMITS[prefix]);
+
+    // Skip the native round-trip when nothing has changed since the last plan
+    const signature = booked.map((r) => `${r.id}@${r.timestamp}:${r.channelId}:${r.title}:${r.body}`).join('|');
+    const [previousSignature, existingIds] = await Promise.all([
+      AsyncStorage.getItem(planKey),
+      this.getScheduledNotificationIds(prefix),
+    ]);
+    const bookedIds = new Set(booked.map((r) => r.id));
+    const allBooked = existingIds.length === bookedIds.size && existingIds.every((id) => bookedIds.has(id));
+    if (signature === previousSignature && allBooked) return null;
+
+    await this.cancelScheduledNotifications(existingIds);
+    for (const { id, timestamp, ...options } of booked) {
+      await this.scheduleNotification(id, options, timestamp);
+    }
+    await AsyncStorage.setItem(planKey, signature);
+    return booked.length;
+  }
+
+  /**
+   * Cancel everything booked under a prefix and forget its plan. Returns how many were cancelled.
+   */
+  async cancelPlan(prefix: ReminderPrefix, planKey: string): Promise<number> {
+    const ids = await this.getScheduledNotificationIds(prefix);
+    await this.cancelScheduledNotifications(ids);
+    await AsyncStorage.removeItem(planKey);
+    return ids.length;
+  }
+
   /**
    * Display a prayer time notification
    */
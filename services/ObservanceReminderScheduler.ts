@@ -0,0 +1,115 @@
+/**
+ * Observance Reminder Scheduler
+ *
+ * Books opt-in reminders for Islamic observances (Eid, Arafah, Ashura, ...)
+ * as local notifee trigger notifications on the `general` channel. Each
+ * reminder fires the evening before the observance in the mosque timezone.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { MosqueSettings } from '../types';
+import { getCachedData, setCachedData } from '../utils/cache';
+import { getHijriOffsetDays } from '../utils/hijri';
+import { ObservanceKey, getUpcomingObservances } from '../utils/islamicObservances';
+import { getMosqueTimezone } from '../utils/prayerCalculation';
+import { addDays, getZonedToday, zonedTimeToDate } from '../utils/time';
+import NotificationService, { PlannedNotification, ReminderPrefix } from './NotificationService';
+
+/** Only book reminders this far ahead; the plan is refreshed on app start, on foreground and when mosque settings change */
+const SCHEDULE_DAYS = 45;
+/** Reminders fire at 8:00 PM the day before */
+const REMINDER_MINUTES_OF_DAY = 20 * 60;
+/** All observance reminder trigger ids share this prefix */
+const REMINDER_ID_PREFIX: ReminderPrefix = 'observance-reminder:';
+
+class ObservanceReminderScheduler {
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Observance types the user has opted into
+   */
+  async getEnabledKeys(): Promise<ObservanceKey[]> {
+    return (await getCachedData<ObservanceKey[]>(CACHE_KEYS.OBSERVANCE_REMINDERS)) || [];
+  }
+
+  /**
+   * Opt in or out of reminders for one observance type and re-plan.
+   * Runs in the queue, so quick toggles of different observances don't overwrite each other.
+   */
+  async setEnabled(key: ObservanceKey, enabled: boolean): Promise<ObservanceKey[]> {
+    const next = await this.enqueue(async () => {
+      const current = await this.getEnabledKeys();
+      const keys = enabled ? Array.from(new Set([...current, key])) : current.filter((k) => k !== key);
+      await setCachedData(CACHE_KEYS.OBSERVANCE_REMINDERS, keys);
+      return keys;
+    });
+    this.reschedule();
+    return next;
+  }
+
+  /**
+   * Re-plan the observance reminders.
+   * Falls back to the cached mosque settings when they aren't passed in.
+   */
+  reschedule(mosqueSettings?: MosqueSettings | null): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.runReschedule(mosqueSettings))
+      .catch((error) => {
+        console.error('❌ Error scheduling observance reminders:', error);
+      });
+    return this.queue;
+  }
+
+  /**
+   * Cancel every booked observance reminder
+   */
+  async cancelAll(): Promise<void> {
+    try {
+      await NotificationService.cancelPlan(REMINDER_ID_PREFIX, CACHE_KEYS.OBSERVANCE_REMINDER_PLAN);
+    } catch (error) {
+      console.error('❌ Error cancelling observance reminders:', error);
+    }
+  }
+
+  /**
+   * Run a task after everything already queued. Its errors go to the caller
+   * rather than stopping the queue.
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async runReschedule(source?: MosqueSettings | null): Promise<void> {
+    const enabled = await AsyncStorage.getItem(CACHE_KEYS.NOTIFICATIONS_ENABLED);
+    const keys = await this.getEnabledKeys();
+    if (enabled === 'false' || keys.length === 0) {
+      await this.cancelAll();
+      return;
+    }
+
+    const mosqueSettings = source ?? await getCachedData<MosqueSettings>(CACHE_KEYS.MOSQUE_SETTINGS);
+    const timeZone = getMosqueTimezone(mosqueSettings);
+    const now = Date.now();
+    const today = getZonedToday(timeZone, new Date(now));
+
+    const plan = getUpcomingObservances(today, getHijriOffsetDays(mosqueSettings), SCHEDULE_DAYS)
+      .filter((observance) => keys.includes(observance.key))
+      .map((observance): PlannedNotification => ({
+        id: `${REMINDER_ID_PREFIX}${observance.id}`,
+        timestamp: zonedTimeToDate(addDays(observance.date, -1), REMINDER_MINUTES_OF_DAY, timeZone).getTime(),
+        title: observance.key === 'laylat_al_qadr' ? `Tomorrow evening: ${observance.title}` : `Tomorrow: ${observance.title}`,
+        body: observance.description,
+        channelId: 'general',
+        data: { type: 'observance', observance: observance.key },
+      }))
+      .filter((reminder) => reminder.timestamp > now);
+
+    const booked = await NotificationService.schedulePlan(REMINDER_ID_PREFIX, CACHE_KEYS.OBSERVANCE_REMINDER_PLAN, plan);
+    if (booked !== null) console.log(`🔔 Scheduled ${booked} of ${plan.length} observance reminders`);
+  }
+}
+
+export default new ObservanceReminderScheduler();
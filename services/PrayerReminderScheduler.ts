@@ -0,0 +1,291 @@
+/**
+ * Prayer Reminder Scheduler
+ *
+ * Books adhan and iqama alerts as local notifee trigger notifications on the
+ * `prayer` channel, so alerts still fire when an FCM push is late or the
+ * device is offline. The plan is rebuilt from the cached prayer times and
+ * mosque settings whenever that data changes, and follows the user's
+ * per-prayer reminder settings.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { DEFAULT_PRAYER_REMINDER_SETTINGS } from '../constants/prayerReminders';
+import {
+  JumuahTimes,
+  MosqueSettings,
+  PRAYER_KEYS,
+  PrayerReminderSetting,
+  PrayerReminderSettings,
+  PrayerTimes,
+  RamadanAlertSettings,
+  ReminderPrayerKey,
+} from '../types';
+import { getCachedData, setCachedData } from '../utils/cache';
+import { getStoredTimeFormat } from '../utils/displayPreferences';
+import { TimetableDay, buildTimetableDay, getMosqueTimezone, resolvePrayerDay } from '../utils/prayerCalculation';
+import { getRamadanDay } from '../utils/ramadan';
+import { CalendarDay, TimeFormat, addDays, formatDayKey, formatTime, getZonedToday, parseTimeToMinutes, zonedTimeToDate } from '../utils/time';
+import NotificationService, { PlannedNotification, ReminderPrefix } from './NotificationService';
+
+/** Days of alerts to keep booked; NotificationService caps the total for iOS */
+const SCHEDULE_DAYS = 5;
+/** How long before imsak the suhoor alert fires */
+const SUHOOR_ALERT_MINUTES = 30;
+/** All prayer reminder trigger ids share this prefix */
+const REMINDER_ID_PREFIX: ReminderPrefix = 'prayer-reminder:';
+
+const DEFAULT_RAMADAN_ALERTS: RamadanAlertSettings = { suhoor: false, iftar: false };
+
+/** Data the plan is built from; anything omitted is read from the cache */
+export interface ReminderSourceData {
+  prayerTimes?: PrayerTimes | null;
+  mosqueSettings?: MosqueSettings | null;
+  jumuahTimes?: JumuahTimes | null;
+}
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const isFriday = (day: CalendarDay): boolean =>
+  new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay() === 5;
+
+class PrayerReminderScheduler {
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Re-plan the prayer reminders.
+   * Falls back to the cached Firestore documents when data isn't passed in.
+   * Calls are serialised so overlapping snapshots never interleave.
+   */
+  reschedule(source: ReminderSourceData = {}): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.runReschedule(source))
+      .catch((error) => {
+        console.error('❌ Error scheduling prayer reminders:', error);
+      });
+    return this.queue;
+  }
+
+  /**
+   * Load the per-prayer reminder settings, filling gaps with defaults
+   */
+  async getSettings(): Promise<PrayerReminderSettings> {
+    const saved = await getCachedData<Partial<PrayerReminderSettings>>(CACHE_KEYS.PRAYER_REMINDER_SETTINGS);
+    return { ...DEFAULT_PRAYER_REMINDER_SETTINGS, ...(saved || {}) };
+  }
+
+  /**
+   * Persist one prayer's reminder setting and re-plan from the cache.
+   * Runs in the queue, so quick changes to different prayers don't overwrite each other.
+   */
+  async updateSetting(prayer: ReminderPrayerKey, setting: PrayerReminderSetting): Promise<PrayerReminderSettings> {
+    const next = await this.enqueue(async () => {
+      const updated = { ...(await this.getSettings()), [prayer]: setting };
+      await setCachedData(CACHE_KEYS.PRAYER_REMINDER_SETTINGS, updated);
+      return updated;
+    });
+    this.reschedule();
+    return next;
+  }
+
+  /**
+   * Load the optional Ramadan suhoor / iftar alert settings
+   */
+  async getRamadanAlerts(): Promise<RamadanAlertSettings> {
+    const saved = await getCachedData<Partial<RamadanAlertSettings>>(CACHE_KEYS.RAMADAN_ALERT_SETTINGS);
+    return { ...DEFAULT_RAMADAN_ALERTS, ...(saved || {}) };
+  }
+
+  /**
+   * Persist changes to the Ramadan alert settings and re-plan from the cache.
+   * Changes are merged with the stored settings in the queue, so toggling
+   * suhoor and iftar in quick succession keeps both.
+   */
+  async updateRamadanAlerts(changes: Partial<RamadanAlertSettings>): Promise<RamadanAlertSettings> {
+    const next = await this.enqueue(async () => {
+      const updated = { ...(await this.getRamadanAlerts()), ...changes };
+      await setCachedData(CACHE_KEYS.RAMADAN_ALERT_SETTINGS, updated);
+      return updated;
+    });
+    this.reschedule();
+    return next;
+  }
+
+  /**
+   * Whether local prayer reminders are booked on this device
+   */
+  async hasBookedReminders(): Promise<boolean> {
+    const ids = await NotificationService.getScheduledNotificationIds(REMINDER_ID_PREFIX);
+    return ids.length > 0;
+  }
+
+  /**
+   * Cancel every booked prayer reminder
+   */
+  async cancelAll(): Promise<void> {
+    try {
+      const cancelled = await NotificationService.cancelPlan(REMINDER_ID_PREFIX, CACHE_KEYS.PRAYER_REMINDER_PLAN);
+      console.log(`🗑️ Cancelled ${cancelled} prayer reminders`);
+    } catch (error) {
+      console.error('❌ Error cancelling prayer reminders:', error);
+    }
+  }
+
+  /**
+   * Run a task after everything already queued. Its errors go to the caller
+   * rather than stopping the queue.
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async runReschedule(source: ReminderSourceData): Promise<void> {
+    const enabled = await AsyncStorage.getItem(CACHE_KEYS.NOTIFICATIONS_ENABLED);
+    if (enabled === 'false') {
+      await this.cancelAll();
+      return;
+    }
+
+    const prayerTimes = source.prayerTimes ?? await getCachedData<PrayerTimes>(CACHE_KEYS.PRAYER_TIMES);
+    const mosqueSettings = source.mosqueSettings ?? await getCachedData<MosqueSettings>(CACHE_KEYS.MOSQUE_SETTINGS);
+    const jumuahTimes = source.jumuahTimes ?? await getCachedData<JumuahTimes>(CACHE_KEYS.JUMUAH_TIMES);
+    if (!prayerTimes) return;
+
+    const [settings, ramadanAlerts, timeFormat] = await Promise.all([
+      this.getSettings(),
+      this.getRamadanAlerts(),
+      getStoredTimeFormat(),
+    ]);
+    const plan = this.buildPlan(prayerTimes, mosqueSettings, jumuahTimes, settings, ramadanAlerts, timeFormat, Date.now());
+
+    const booked = await NotificationService.schedulePlan(REMINDER_ID_PREFIX, CACHE_KEYS.PRAYER_REMINDER_PLAN, plan);
+    if (booked !== null) console.log(`🔔 Scheduled ${booked} of ${plan.length} prayer reminders over ${SCHEDULE_DAYS} days`);
+  }
+
+  /**
+   * Build the list of future reminders for the next SCHEDULE_DAYS days, with times in the preferred clock
+   */
+  private buildPlan(
+    prayerTimes: PrayerTimes,
+    mosqueSettings: MosqueSettings | null,
+    jumuahTimes: JumuahTimes | null,
+    settings: PrayerReminderSettings,
+    ramadanAlerts: RamadanAlertSettings,
+    timeFormat: TimeFormat,
+    now: number
+  ): PlannedNotification[] {
+    const timeZone = getMosqueTimezone(mosqueSettings);
+    const today = getZonedToday(timeZone, new Date(now));
+    const mosqueName = mosqueSettings?.name || 'the masjid';
+    const hasJumuah = (jumuahTimes?.times.length ?? 0) > 0;
+    const reminders: PlannedNotification[] = [];
+
+    const addReminder = (
+      day: CalendarDay,
+      prayer: ReminderPrayerKey,
+      slot: string,
+      name: string,
+      adhanTime: string | undefined,
+      iqamaTime: string | undefined
+    ): void => {
+      const setting = settings[prayer];
+      const adhanMinutes = parseTimeToMinutes(adhanTime);
+      const iqamaMinutes = parseTimeToMinutes(iqamaTime);
+      const id = `${REMINDER_ID_PREFIX}${formatDayKey(day)}:${slot}`;
+
+      if (setting.mode === 'adhan' && adhanMinutes !== null) {
+        const iqamaText = iqamaMinutes !== null ? ` Iqama at ${formatTime(iqamaTime, timeFormat)}.` : '';
+        reminders.push({
+          id,
+          timestamp: zonedTimeToDate(day, adhanMinutes, timeZone).getTime(),
+          title: `${name} Adhan`,
+          body: `It's time for ${name} (${formatTime(adhanTime, timeFormat)}).${iqamaText}`,
+          channelId: 'prayer',
+          data: { type: 'prayer', prayer, kind: 'adhan' },
+        });
+      } else if (setting.mode === 'before_iqama' && iqamaMinutes !== null) {
+        reminders.push({
+          id,
+          timestamp: zonedTimeToDate(day, iqamaMinutes - setting.minutesBefore, timeZone).getTime(),
+          title: `${name} in ${setting.minutesBefore} minutes`,
+          body: `${name} is at ${formatTime(iqamaTime, timeFormat)} at ${mosqueName}.`,
+          channelId: 'prayer',
+          data: { type: 'prayer', prayer, kind: 'iqama' },
+        });
+      }
+    };
+
+    for (let offset = 0; offset < SCHEDULE_DAYS; offset++) {
+      const day = addDays(today, offset);
+      const row = this.getTimesForDay(prayerTimes, mosqueSettings, day, offset === 0);
+      if (!row) continue;
+      // Jumu'ah replaces the Dhuhr congregation on Fridays
+      const jumuahDay = hasJumuah && isFriday(day);
+      const ramadan = getRamadanDay(mosqueSettings, row);
+      // The iftar alert already fires at the Maghrib adhan
+      const iftarAlert = !!ramadan && ramadanAlerts.iftar;
+
+      for (const prayer of PRAYER_KEYS) {
+        if (prayer === 'dhuhr' && jumuahDay) continue;
+        if (prayer === 'maghrib' && iftarAlert && settings.maghrib.mode === 'adhan') continue;
+        addReminder(day, prayer, prayer, capitalize(prayer), row.adhan[prayer], row.iqama[prayer]);
+      }
+
+      const imsakMinutes = parseTimeToMinutes(ramadan?.imsak);
+      if (ramadan && ramadanAlerts.suhoor && imsakMinutes !== null) {
+        reminders.push({
+          id: `${REMINDER_ID_PREFIX}${formatDayKey(day)}:suhoor`,
+          timestamp: zonedTimeToDate(day, imsakMinutes - SUHOOR_ALERT_MINUTES, timeZone).getTime(),
+          title: 'Suhoor',
+          body: `Suhoor ends at ${formatTime(ramadan.imsak, timeFormat)} (Ramadan day ${ramadan.dayNumber}).`,
+          channelId: 'prayer',
+          data: { type: 'prayer', prayer: 'fajr', kind: 'suhoor' },
+        });
+      }
+
+      const iftarMinutes = parseTimeToMinutes(ramadan?.iftar);
+      if (ramadan && iftarAlert && iftarMinutes !== null) {
+        reminders.push({
+          id: `${REMINDER_ID_PREFIX}${formatDayKey(day)}:iftar`,
+          timestamp: zonedTimeToDate(day, iftarMinutes, timeZone).getTime(),
+          title: 'Iftar',
+          body: `It's time for iftar and Maghrib (${formatTime(ramadan.iftar, timeFormat)}).`,
+          channelId: 'prayer',
+          data: { type: 'prayer', prayer: 'maghrib', kind: 'iftar' },
+        });
+      }
+
+      if (jumuahDay && jumuahTimes) {
+        jumuahTimes.times.forEach((time, index) => {
+          const name = jumuahTimes.times.length === 1 ? "Jumu'ah" : `Jumu'ah ${index + 1}`;
+          // Jumu'ah has no separate adhan time; both modes are anchored on the khutbah
+          addReminder(day, 'jumuah', `jumuah-${time.id}`, name, time.khutbah, time.khutbah);
+        });
+      }
+    }
+
+    return reminders
+      .filter((r) => r.timestamp > now)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Times come from the same read-only resolution the home screen uses:
+   * calculated adhan with admin overrides. Without coordinates only today's
+   * published times are known.
+   */
+  private getTimesForDay(
+    prayerTimes: PrayerTimes,
+    mosqueSettings: MosqueSettings | null,
+    day: CalendarDay,
+    isToday: boolean
+  ): TimetableDay | null {
+    return isToday
+      ? resolvePrayerDay(mosqueSettings, prayerTimes, day)
+      : buildTimetableDay(mosqueSettings, prayerTimes, day);
+  }
+}
+
+export default new PrayerReminderScheduler();
@@ -0,0 +1,26 @@
+import { regionalFunctions } from '../firebase';
+import { SubmitRegistrationRequest, SubmitRegistrationResponse } from '../types/registration';
+
+/**
+ * Event registration callable. The server checks the answers against the
+ * event's current form before storing them.
+ */
+class RegistrationApi {
+  /**
+   * Submit a filled-in registration form for an event. Safe to repeat with the
+   * same idempotency_key: the server returns the registration it already stored.
+   */
+  async submitRegistration(data: SubmitRegistrationRequest): Promise<SubmitRegistrationResponse> {
+    console.log('📝 submitEventRegistration called:', {
+      deviceId: data.deviceId.substring(0, 8) + '...',
+      event_id: data.event_id,
+      attendees: data.attendees.length,
+    });
+
+    const callable = regionalFunctions.httpsCallable('submitEventRegistration');
+    const result = await callable(data);
+    return result.data as SubmitRegistrationResponse;
+  }
+}
+
+export default new RegistrationApi();
@@ -0,0 +1,54 @@
+import { regionalFunctions } from '../firebase';
+import {
+  CancelRsvpRequest,
+  CancelRsvpResponse,
+  CreateRsvpRequest,
+  CreateRsvpResponse,
+  GetMyRsvpsRequest,
+  GetMyRsvpsResponse,
+} from '../types/rsvp';
+
+/**
+ * Event RSVP callables. Capacity and the waitlist are enforced on the server:
+ * an RSVP that doesn't fit comes back waitlisted, and the server promotes the
+ * waitlist when a confirmed RSVP is cancelled.
+ */
+class RsvpApi {
+  /**
+   * RSVP to an event (or join its waitlist when full). Safe to repeat with the
+   * same idempotency_key: the server returns the RSVP it already booked.
+   */
+  async createRsvp(data: CreateRsvpRequest): Promise<CreateRsvpResponse> {
+    console.log('🎟️ createEventRsvp called:', {
+      deviceId: data.deviceId.substring(0, 8) + '...',
+      event_id: data.event_id,
+      party_size: data.party_size,
+    });
+
+    const callable = regionalFunctions.httpsCallable('createEventRsvp');
+    const result = await callable(data);
+    return result.data as CreateRsvpResponse;
+  }
+
+  /**
+   * Cancel one of this device's RSVPs
+   */
+  async cancelRsvp(data: CancelRsvpRequest): Promise<CancelRsvpResponse> {
+    console.log('🎟️ cancelEventRsvp called:', { rsvp_id: data.rsvp_id });
+
+    const callable = regionalFunctions.httpsCallable('cancelEventRsvp');
+    const result = await callable(data);
+    return result.data as CancelRsvpResponse;
+  }
+
+  /**
+   * RSVPs made from this device, including their current waitlist state
+   */
+  async getMyRsvps(data: GetMyRsvpsRequest): Promise<GetMyRsvpsResponse> {
+    const callable = regionalFunctions.httpsCallable('getMyEventRsvps');
+    const result = await callable(data);
+    return result.data as GetMyRsvpsResponse;
+  }
+}
+
+export default new RsvpApi();
@@ -1,35 +1,63 @@
 // Firebase Data Types
 import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { RegistrationForm } from './registration';
 
+// `*_adhan` holds an admin-entered time only when `*_adhan_override` is true;
+// otherwise the app calculates the adhan from MosqueSettings. Overrides apply
+// to one day only: `adhan_override_date`, or today when it isn't set.
 export interface PrayerTimes {
   fajr_adhan: string;
+  fajr_adhan_override?: boolean;
   fajr_iqama: string;
   fajr_iqama_type: 'fixed' | 'offset';
   fajr_iqama_offset?: number;
   
   dhuhr_adhan: string;
+  dhuhr_adhan_override?: boolean;
   dhuhr_iqama: string;
   dhuhr_iqama_type: 'fixed' | 'offset';
   dhuhr_iqama_offset?: number;
   
   asr_adhan: string;
+  asr_adhan_override?: boolean;
   asr_iqama: string;
   asr_iqama_type: 'fixed' | 'offset';
   asr_iqama_offset?: number;
   
   maghrib_adhan: string;
+  maghrib_adhan_override?: boolean;
   maghrib_iqama: string;
   maghrib_iqama_type: 'fixed' | 'offset';
   maghrib_iqama_offset?: number;
   
   isha_adhan: string;
+  isha_adhan_override?: boolean;
   isha_iqama: string;
   isha_iqama_type: 'fixed' | 'offset';
   isha_iqama_offset?: number;
+
+  adhan_override_date?: string; // 'YYYY-MM-DD' in the mosque timezone
+
+  // Date-ranged iqama rules; the fields above apply on days no range covers
+  iqama_schedule?: IqamaScheduleEntry[];
   
   last_updated?: FirebaseFirestoreTypes.Timestamp;
 }
 
+// The iqama fields of PrayerTimes (fixed time, type and offset per prayer)
+export type IqamaRules = Pick<
+  PrayerTimes,
+  `${PrayerKey}_iqama` | `${PrayerKey}_iqama_type` | `${PrayerKey}_iqama_offset`
+>;
+
+// Iqama rules active for a date range. Dates are 'YYYY-MM-DD' in the mosque
+// timezone and inclusive; a missing end_date leaves the range open.
+// Prayers not set on an entry fall back to the document's own iqama fields.
+export interface IqamaScheduleEntry extends Partial<IqamaRules> {
+  start_date: string;
+  end_date?: string;
+}
+
 export interface JumuahTime {
   id: string;
   khutbah: string;
@@ -53,7 +81,15 @@ export interface MosqueSettings {
   longitude?: number;
   timezone?: string; // IANA timezone identifier (e.g., 'Australia/Sydney')
   calculation_method?: 'MuslimWorldLeague' | 'Egyptian' | 'Karachi' | 'UmmAlQura' | 'Dubai' | 'MoonsightingCommittee' | 'NorthAmerica' | 'Kuwait' | 'Qatar' | 'Singapore' | 'Tehran' | 'Turkey';
+  madhab?: 'Shafi' | 'Hanafi'; // Asr juristic method (Hanafi = later Asr)
+  high_latitude_rule?: 'MiddleOfTheNight' | 'SeventhOfTheNight' | 'TwilightAngle';
+  polar_circle_resolution?: 'AqrabBalad' | 'AqrabYaum' | 'Unresolved';
+  prayer_adjustments?: Partial<Record<'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha', number>>; // Minutes added to each calculated time
   auto_fetch_maghrib?: boolean;
+  imsak_offset_minutes?: number; // Ramadan: minutes before Fajr adhan that suhoor ends (default 10)
+  taraweeh_time?: string; // Ramadan: taraweeh start, e.g. "8:45 PM"
+  hijri_offset_days?: number; // Days added to the Umm al-Qura date to match local moon sighting (e.g. -1, 0, 1)
+  congregation_minutes?: number; // Minutes after iqama a prayer is shown as "in congregation now" (default 10)
   last_updated?: FirebaseFirestoreTypes.Timestamp;
 }
 
@@ -72,6 +108,16 @@ export interface EventCategoriesConfig {
   updated_at: FirebaseFirestoreTypes.Timestamp;
 }
 
+// Repeat rule for an event series. Dates are 'YYYY-MM-DD' in the mosque timezone.
+export interface EventRecurrence {
+  frequency: 'weekly' | 'monthly';
+  interval?: number; // Every N weeks/months (default 1)
+  weekdays?: number[]; // Weekly: 0 = Sunday ... 6 = Saturday (default: the weekday of `date`)
+  monthly_weekday?: { weekday: number; week: 1 | 2 | 3 | 4 | -1 }; // Monthly: e.g. first Friday; -1 = last (default: the day of month of `date`)
+  until?: string; // Last possible occurrence, inclusive
+  exceptions?: string[]; // Occurrences that are cancelled
+}
+
 // Event
 export interface Event {
   id: string;
@@ -86,11 +132,78 @@ export interface Event {
   rsvp_enabled?: boolean;
   rsvp_limit?: number;
   rsvp_count?: number;
+  // Extra questions for programmes that need more than a headcount (camps, courses)
+  registration_form?: RegistrationForm;
   is_active: boolean;
+  // Series documents repeat from `date`; the app expands them into occurrences
+  recurrence?: EventRecurrence;
+  // Set on expanded occurrences only
+  series_id?: string;
+  occurrence_date?: string;
+  is_cancelled?: boolean;
   created_at?: FirebaseFirestoreTypes.Timestamp;
   updated_at?: FirebaseFirestoreTypes.Timestamp;
 }
 
+// 'hour_before' = 1 hour before the start, 'morning_of' = 8:00 AM on the day,
+// 'custom' = a time the user picked, kept as a lead time so it follows the event if it moves
+export type EventReminderMode = 'hour_before' | 'morning_of' | 'custom';
+
+// A local reminder for one event (or one occurrence of a series)
+export interface EventReminder {
+  eventId: string;
+  mode: EventReminderMode;
+  minutesBefore?: number; // Custom mode only
+  // Last known details of the event, for the notification and the reminders list
+  title: string;
+  time: string; // e.g., "7:00 PM"
+  location?: string;
+  startsAt: number; // Epoch ms; midnight for all-day events
+  remindAt: number; // Epoch ms
+  allDay?: boolean; // `time` isn't a clock time (e.g., "After Maghrib"); only "the morning of" applies
+}
+
+// The five daily prayers, in chronological order
+export type PrayerKey = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+export const PRAYER_KEYS: readonly PrayerKey[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+// Prayers that can have a local reminder (Jumu'ah uses the khutbah times)
+export type ReminderPrayerKey = PrayerKey | 'jumuah';
+
+// 'adhan' = alert at adhan time, 'before_iqama' = alert N minutes before iqama
+export type PrayerReminderMode = 'adhan' | 'before_iqama' | 'off';
+
+export interface PrayerReminderSetting {
+  mode: PrayerReminderMode;
+  minutesBefore: number;
+}
+
+export type PrayerReminderSettings = Record<ReminderPrayerKey, PrayerReminderSetting>;
+
+// Optional alerts that only fire during Ramadan
+export interface RamadanAlertSettings {
+  suhoor: boolean;
+  iftar: boolean;
+}
+
+// Donation campaign shown in the app
+export interface Campaign {
+  id: string;
+  title: string;
+  description: string;
+  goal_amount: number; // in cents
+  current_amount: number; // in cents
+  currency: string;
+  start_date: FirebaseFirestoreTypes.Timestamp;
+  end_date: FirebaseFirestoreTypes.Timestamp;
+  status: 'active' | 'completed' | 'paused';
+  image_url?: string;
+  is_visible_in_app: boolean;
+  created_at: FirebaseFirestoreTypes.Timestamp;
+  updated_at: FirebaseFirestoreTypes.Timestamp;
+}
+
 // Component Props Types
 
 export interface Prayer {
@@ -99,56 +212,6 @@ export interface Prayer {
   iqama: string | undefined;
 }
 
-// Utility function to calculate iqama time from adhan + offset
-export const calculateIqamaTime = (
-  adhanTime: string | undefined, 
-  iqamaType: 'fixed' | 'offset' | undefined,
-  fixedIqama: string | undefined,
-  offset: number | undefined
-): string => {
-  // If it's a fixed time, return the fixed iqama
-  if (iqamaType === 'fixed') {
-    return fixedIqama || '--:--';
-  }
-
-  // If it's an offset, calculate from adhan time
-  if (!adhanTime || !offset) return '--:--';
-
-  try {
-    const timeMatch = adhanTime.match(/(\d+):(\d+)\s*(AM|PM)/i);
-    if (!timeMatch) return '--:--';
-
-    let hours = parseInt(timeMatch[1]);
-    const minutes = parseInt(timeMatch[2]);
-    const period = timeMatch[3].toUpperCase();
-
-    // Convert to 24-hour format
-    if (period === 'PM' && hours !== 12) {
-      hours += 12;
-    } else if (period === 'AM' && hours === 12) {
-      hours = 0;
-    }
-
-    // Add offset
-    let totalMinutes = hours * 60 + minutes + offset;
-    let newHours = Math.floor(totalMinutes / 60) % 24;
-    const newMinutes = totalMinutes % 60;
-
-    // Convert back to 12-hour format
-    const newPeriod = newHours >= 12 ? 'PM' : 'AM';
-    if (newHours > 12) {
-      newHours -= 12;
-    } else if (newHours === 0) {
-      newHours = 12;
-    }
-
-    return `${newHours}:${newMinutes.toString().padStart(2, '0')} ${newPeriod}`;
-  } catch (error) {
-    console.error('Error calculating iqama time:', error);
-    return '--:--';
-  }
-};
-
 // Utility function to get category color
 export const getCategoryColor = (categoryId: string) => {
   // Default fallback colors
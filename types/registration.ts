@@ -0,0 +1,80 @@
+// ============================================================================
+// REGISTRATION TYPES
+// Location: types/registration.ts
+// ============================================================================
+
+export type RegistrationFieldType = 'text' | 'number' | 'choice' | 'checkbox';
+
+/** One question on an event's registration form, defined by an admin */
+export interface RegistrationField {
+  /** Key for the answer; unique within its section */
+  id: string;
+  label: string;
+  type: RegistrationFieldType;
+  required?: boolean;
+  /** Hint shown under the label */
+  help?: string;
+  /** Text and number fields */
+  placeholder?: string;
+  /** Number fields */
+  min?: number;
+  max?: number;
+  /** Choice fields */
+  options?: string[];
+}
+
+/** Questions asked again for each attendee, e.g. each child on a camp */
+export interface RegistrationAttendeeSection {
+  /** Singular name for one attendee, e.g. "Child" */
+  label: string;
+  fields: RegistrationField[];
+  /** How many attendees can be registered at once (default 1 to 10) */
+  min?: number;
+  max?: number;
+}
+
+export interface RegistrationForm {
+  /** Asked once per registration, e.g. the parent's details */
+  fields: RegistrationField[];
+  attendees?: RegistrationAttendeeSection;
+}
+
+/** Checkbox answers are booleans, number answers numbers; everything else is text */
+export type RegistrationAnswer = string | number | boolean;
+
+export type RegistrationAnswers = Record<string, RegistrationAnswer>;
+
+export interface RegistrationFormData {
+  answers: RegistrationAnswers;
+  attendees: RegistrationAnswers[];
+}
+
+/** A registration made from this device, kept locally with a copy of the form it answered */
+export interface Registration {
+  id: string;
+  event_id: string;
+  event_title: string;
+  /** Event start as an ISO string, so saved registrations can be sorted offline */
+  event_date: string;
+  form: RegistrationForm;
+  answers: RegistrationAnswers;
+  attendees: RegistrationAnswers[];
+  created_at: string;
+}
+
+// Callable request/response shapes (matching backend)
+
+export interface SubmitRegistrationRequest {
+  deviceId: string;
+  event_id: string;
+  /** Same key for a retry of the same submit, see utils/idempotency */
+  idempotency_key: string;
+  answers: RegistrationAnswers;
+  attendees: RegistrationAnswers[];
+}
+
+export interface SubmitRegistrationResponse {
+  ok: boolean;
+  registration_id: string;
+  created_at: string;
+}
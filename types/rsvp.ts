@@ -0,0 +1,63 @@
+// ============================================================================
+// RSVP TYPES
+// Location: types/rsvp.ts
+// ============================================================================
+
+/** Confirmed RSVPs hold a place; waitlisted ones are promoted by the server when a place frees up */
+export type RsvpStatus = 'confirmed' | 'waitlisted' | 'cancelled';
+
+export interface Rsvp {
+  id: string;
+  event_id: string;
+  event_title: string;
+  /** Event start as an ISO string, so cached RSVPs can be sorted offline */
+  event_date: string;
+  name: string;
+  party_size: number;
+  contact?: string;
+  status: RsvpStatus;
+  /** 1-based place in the waitlist, when waitlisted */
+  waitlist_position?: number;
+  created_at: string;
+}
+
+export interface RsvpFormData {
+  name: string;
+  partySize: number;
+  contact?: string;
+}
+
+// Callable request/response shapes (matching backend)
+
+export interface CreateRsvpRequest {
+  deviceId: string;
+  event_id: string;
+  /** Same key for a retry of the same RSVP, see utils/idempotency */
+  idempotency_key: string;
+  name: string;
+  party_size: number;
+  contact?: string;
+}
+
+export interface CreateRsvpResponse {
+  ok: boolean;
+  rsvp: Rsvp;
+}
+
+export interface CancelRsvpRequest {
+  deviceId: string;
+  rsvp_id: string;
+}
+
+export interface CancelRsvpResponse {
+  ok: boolean;
+}
+
+export interface GetMyRsvpsRequest {
+  deviceId: string;
+}
+
+export interface GetMyRsvpsResponse {
+  ok: boolean;
+  rsvps: Rsvp[];
+}
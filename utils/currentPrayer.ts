@@ -0,0 +1,113 @@
+/**
+ * Current Prayer State
+ *
+ * Works out whether a congregational prayer is underway: between its adhan
+ * and iqama (waiting for the jama'ah), or within the congregation window after
+ * the iqama. Compared as instants in the mosque timezone.
+ */
+
+import { MosqueSettings, PRAYER_KEYS, PrayerKey } from '../types';
+import { TimetableDay } from './prayerCalculation';
+import { parseTimeToMinutes, zonedTimeToDate } from './time';
+
+/** Minutes after iqama a prayer counts as in congregation when the mosque hasn't set one */
+export const DEFAULT_CONGREGATION_MINUTES = 10;
+
+export type PrayerPhase = 'awaiting_iqama' | 'in_congregation';
+
+export interface CurrentPrayerState {
+  prayer: PrayerKey;
+  phase: PrayerPhase;
+  adhanAt: Date;
+  iqamaAt: Date;
+  /** End of the congregation window */
+  endsAt: Date;
+  /** Whole seconds until iqama (0 once it has started) */
+  secondsToIqama: number;
+  /** Share of the adhan-to-iqama wait that has passed, 0-1 */
+  progress: number;
+}
+
+/**
+ * Get the congregation window from mosque settings
+ */
+export const getCongregationMinutes = (settings: MosqueSettings | null | undefined): number => {
+  const minutes = settings?.congregation_minutes;
+  return typeof minutes === 'number' && Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_CONGREGATION_MINUTES;
+};
+
+interface PrayerWindow {
+  prayer: PrayerKey;
+  adhanAt: Date;
+  iqamaAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * Each prayer's adhan-to-end-of-congregation window for the day, skipping unreadable times
+ */
+const getPrayerWindows = (today: TimetableDay, timeZone: string, congregationMinutes: number): PrayerWindow[] => {
+  const windows: PrayerWindow[] = [];
+  for (const prayer of PRAYER_KEYS) {
+    const adhanMinutes = parseTimeToMinutes(today.adhan[prayer]);
+    const iqamaMinutes = parseTimeToMinutes(today.iqama[prayer]);
+    if (adhanMinutes === null || iqamaMinutes === null) continue;
+
+    const adhanAt = zonedTimeToDate(today.date, adhanMinutes, timeZone);
+    // An iqama earlier on the clock than its adhan has wrapped past midnight
+    const iqamaAt = zonedTimeToDate(today.date, iqamaMinutes + (iqamaMinutes < adhanMinutes ? 24 * 60 : 0), timeZone);
+    const endsAt = new Date(iqamaAt.getTime() + congregationMinutes * 60000);
+    windows.push({ prayer, adhanAt, iqamaAt, endsAt });
+  }
+  return windows;
+};
+
+/**
+ * Find the prayer that is currently between adhan and the end of its
+ * congregation window. Returns null when no prayer is underway.
+ */
+export const getCurrentPrayerState = (
+  today: TimetableDay | null,
+  timeZone: string,
+  congregationMinutes: number,
+  now: Date = new Date()
+): CurrentPrayerState | null => {
+  if (!today) return null;
+  const nowMs = now.getTime();
+
+  for (const { prayer, adhanAt, iqamaAt, endsAt } of getPrayerWindows(today, timeZone, congregationMinutes)) {
+    if (nowMs < adhanAt.getTime() || nowMs >= endsAt.getTime()) continue;
+
+    const waitMs = iqamaAt.getTime() - adhanAt.getTime();
+    const awaiting = nowMs < iqamaAt.getTime();
+    return {
+      prayer,
+      phase: awaiting ? 'awaiting_iqama' : 'in_congregation',
+      adhanAt,
+      iqamaAt,
+      endsAt,
+      secondsToIqama: awaiting ? Math.ceil((iqamaAt.getTime() - nowMs) / 1000) : 0,
+      progress: awaiting && waitMs > 0 ? (nowMs - adhanAt.getTime()) / waitMs : 1,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * When the current prayer next changes: the next adhan or end of a
+ * congregation window still to come today, or null if there is none.
+ */
+export const getNextPrayerChange = (
+  today: TimetableDay | null,
+  timeZone: string,
+  congregationMinutes: number,
+  now: Date = new Date()
+): Date | null => {
+  if (!today) return null;
+  const nowMs = now.getTime();
+  const upcoming = getPrayerWindows(today, timeZone, congregationMinutes)
+    .flatMap(({ adhanAt, endsAt }) => [adhanAt.getTime(), endsAt.getTime()])
+    .filter((time) => time > nowMs);
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+};
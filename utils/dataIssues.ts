@@ -0,0 +1,116 @@
+/**
+ * Data Issue Registry
+ *
+ * Hooks report Firestore documents that failed validation here, and screens
+ * subscribe to show a "data issue" banner while the last valid copy is used.
+ * Issues clear as soon as a valid document arrives.
+ */
+
+import { FieldError, formatFieldErrors } from './validation';
+
+export type DataSource =
+  | 'prayerTimes'
+  | 'jumuahTimes'
+  | 'mosqueSettings'
+  | 'events'
+  | 'eventCategories'
+  | 'campaigns'
+  | 'donationSettings';
+
+export interface DataIssue {
+  source: DataSource;
+  /** Document id within the collection, for per-document sources like events */
+  documentId?: string;
+  errors: FieldError[];
+}
+
+type Listener = (issues: DataIssue[]) => void;
+
+const issues = new Map<string, DataIssue>();
+const listeners = new Set<Listener>();
+
+const issueKey = (source: DataSource, documentId?: string) => (documentId ? `${source}/${documentId}` : source);
+
+const notify = () => {
+  const snapshot = getDataIssues();
+  listeners.forEach((listener) => listener(snapshot));
+};
+
+/**
+ * Record a document that failed validation. Logged with every field error in
+ * development so the admin data can be fixed.
+ */
+export const reportDataIssue = (source: DataSource, errors: FieldError[], documentId?: string): void => {
+  if (__DEV__) {
+    console.warn(`Invalid ${issueKey(source, documentId)} document: ${formatFieldErrors(errors)}`);
+  } else {
+    console.warn(`Invalid ${issueKey(source, documentId)} document (${errors.length} field errors)`);
+  }
+  issues.set(issueKey(source, documentId), { source, documentId, errors });
+  notify();
+};
+
+/**
+ * Clear an issue once a valid copy of the document arrives
+ */
+export const clearDataIssue = (source: DataSource, documentId?: string): void => {
+  if (issues.delete(issueKey(source, documentId))) notify();
+};
+
+/**
+ * Clear every per-document issue for a source, e.g. before re-checking a whole collection
+ */
+export const clearDataIssuesForSource = (source: DataSource): void => {
+  let changed = false;
+  for (const [key, issue] of issues) {
+    if (issue.source === source) {
+      issues.delete(key);
+      changed = true;
+    }
+  }
+  if (changed) notify();
+};
+
+/**
+ * Reports issues for the documents of one query and remembers which it
+ * reported, so they can be cleared once the document leaves the query's
+ * results (deleted, deactivated or out of range). Each query keeps its own
+ * tracker, since several can report documents for the same source.
+ */
+export interface DataIssueTracker {
+  report: (errors: FieldError[], documentId: string) => void;
+  clear: (documentId: string) => void;
+  /** Clear the issues this query reported for documents not in its latest results */
+  clearMissing: (documentIds: Iterable<string>) => void;
+}
+
+export const createDataIssueTracker = (source: DataSource): DataIssueTracker => {
+  const reported = new Set<string>();
+  return {
+    report: (errors, documentId) => {
+      reported.add(documentId);
+      reportDataIssue(source, errors, documentId);
+    },
+    clear: (documentId) => {
+      reported.delete(documentId);
+      clearDataIssue(source, documentId);
+    },
+    clearMissing: (documentIds) => {
+      const current = new Set(documentIds);
+      for (const documentId of reported) {
+        if (current.has(documentId)) continue;
+        reported.delete(documentId);
+        clearDataIssue(source, documentId);
+      }
+    },
+  };
+};
+
+export const getDataIssues = (): DataIssue[] => Array.from(issues.values());
+
+export const subscribeToDataIssues = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
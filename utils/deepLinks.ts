@@ -0,0 +1,40 @@
+/**
+ * Deep Link Helpers
+ *
+ * Builds `alansar://` links for sharing and maps notification payloads to
+ * in-app routes, so a tapped notification lands on the matching screen.
+ */
+
+import * as Linking from 'expo-linking';
+
+/** URL scheme registered in app.json */
+export const APP_SCHEME = 'alansar';
+
+/**
+ * In-app route for an event, e.g. "/events/abc123"
+ */
+export const getEventPath = (eventId: string): string => `/events/${encodeURIComponent(eventId)}`;
+
+/**
+ * Shareable link for an event: alansar://events/<id> in builds
+ */
+export const getEventLink = (eventId: string): string => Linking.createURL(getEventPath(eventId));
+
+/**
+ * Route to open for a notification's data payload, or null when it has none.
+ * Payloads may carry a full `url` (alansar://events/<id>) or an event `eventId`.
+ */
+export const getNotificationPath = (data: Record<string, unknown> | undefined): string | null => {
+  if (!data) return null;
+
+  if (typeof data.url === 'string' && data.url.startsWith(`${APP_SCHEME}://`)) {
+    const path = data.url.slice(`${APP_SCHEME}://`.length).replace(/^\/+/, '');
+    return path ? `/${path}` : null;
+  }
+
+  if (typeof data.eventId === 'string' && data.eventId) {
+    return getEventPath(data.eventId);
+  }
+
+  return null;
+};
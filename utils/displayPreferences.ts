@@ -0,0 +1,23 @@
+/**
+ * Stored Display Preferences
+ *
+ * Reads the saved clock preference outside React, for text that services
+ * build ahead of time such as notification bodies. DisplayPreferencesContext
+ * owns and saves the preferences.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_KEYS } from '../constants/cacheKeys';
+import { TimeFormat } from './time';
+
+/**
+ * The preferred clock, or 12-hour when nothing valid is saved
+ */
+export const getStoredTimeFormat = async (): Promise<TimeFormat> => {
+  try {
+    const saved = await AsyncStorage.getItem(CACHE_KEYS.DISPLAY_PREFERENCES);
+    return saved && JSON.parse(saved).timeFormat === '24h' ? '24h' : '12h';
+  } catch {
+    return '12h';
+  }
+};
@@ -0,0 +1,104 @@
+/**
+ * Event Search & Filters
+ *
+ * Filters an already-loaded event list (upcoming or past, from Firestore or
+ * the cache) by free text, categories and a date range, so searching works
+ * offline.
+ */
+
+import { Event } from '../types';
+import { CalendarDay, addDays, daysBetween, getDaysInMonth, getZonedToday, parseDayKey } from './time';
+
+export type EventDateRangeKind = 'any' | 'this-week' | 'this-month' | 'custom';
+
+export interface EventDateRange {
+  kind: EventDateRangeKind;
+  /** Custom range, 'YYYY-MM-DD' inclusive */
+  from?: string;
+  to?: string;
+}
+
+export interface EventFilters {
+  query: string;
+  /** Category ids; empty means every category */
+  categories: string[];
+  dateRange: EventDateRange;
+}
+
+export const EMPTY_EVENT_FILTERS: EventFilters = {
+  query: '',
+  categories: [],
+  dateRange: { kind: 'any' },
+};
+
+/**
+ * Lowercase and strip accents, so "Shaykh" matches "shaykh" and "Mūsā" matches "musa"
+ */
+export const normalizeSearchText = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+/**
+ * Whether every word of the query appears in the title, description, speaker or location
+ */
+export const matchesEventSearch = (event: Event, query: string): boolean => {
+  const words = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = normalizeSearchText(
+    [event.title, event.description, event.speaker, event.location].filter(Boolean).join('\n')
+  );
+  return words.every((word) => haystack.includes(word));
+};
+
+/**
+ * Inclusive calendar days covered by a range, or null for "any time".
+ * Weeks run Monday to Sunday.
+ */
+export const getDateRangeBounds = (
+  range: EventDateRange,
+  today: CalendarDay
+): { from: CalendarDay; to: CalendarDay } | null => {
+  switch (range.kind) {
+    case 'this-week': {
+      const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+      const monday = addDays(today, -((weekday + 6) % 7));
+      return { from: monday, to: addDays(monday, 6) };
+    }
+    case 'this-month':
+      return {
+        from: { year: today.year, month: today.month, day: 1 },
+        to: { year: today.year, month: today.month, day: getDaysInMonth(today.year, today.month) },
+      };
+    case 'custom': {
+      const from = parseDayKey(range.from);
+      const to = parseDayKey(range.to);
+      return from && to ? { from, to } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const hasActiveEventFilters = (filters: EventFilters): boolean => {
+  return filters.query.trim() !== '' || filters.categories.length > 0 || filters.dateRange.kind !== 'any';
+};
+
+/**
+ * Events matching all of the filters. Dates are compared as calendar days in the mosque timezone.
+ */
+export const filterEvents = (
+  events: Event[],
+  filters: EventFilters,
+  timeZone: string,
+  now: Date = new Date()
+): Event[] => {
+  const bounds = getDateRangeBounds(filters.dateRange, getZonedToday(timeZone, now));
+  return events.filter((event) => {
+    if (filters.categories.length > 0 && !filters.categories.includes(event.category)) return false;
+    if (bounds) {
+      const day = getZonedToday(timeZone, event.date.toDate());
+      if (daysBetween(bounds.from, day) < 0 || daysBetween(day, bounds.to) < 0) return false;
+    }
+    return matchesEventSearch(event, filters.query);
+  });
+};
@@ -0,0 +1,159 @@
+/**
+ * Hijri Calendar Utilities
+ *
+ * Self-contained Gregorian <-> Hijri conversion that doesn't depend on the
+ * device's Intl calendar support. Uses the Umm al-Qura month lengths for
+ * 1440-1500 AH (Sep 2018 - Nov 2077) and the tabular (arithmetic) Islamic
+ * calendar outside that range. `hijri_offset_days` in MosqueSettings shifts
+ * the result so the app can follow the masjid's moon-sighting announcement.
+ */
+
+import { MosqueSettings } from '../types';
+import { CalendarDay, getZonedToday } from './time';
+
+export interface HijriDate {
+  year: number;
+  /** 1 = Muharram ... 9 = Ramadan ... 12 = Dhu al-Hijjah */
+  month: number;
+  day: number;
+}
+
+export const HIJRI_MONTH_NAMES = [
+  'Muharram', 'Safar', "Rabi' al-Awwal", "Rabi' al-Thani", 'Jumada al-Ula', 'Jumada al-Akhirah',
+  'Rajab', "Sha'ban", 'Ramadan', 'Shawwal', "Dhu al-Qi'dah", 'Dhu al-Hijjah',
+];
+
+/** Largest moon-sighting correction the admin can apply, in days */
+const MAX_HIJRI_OFFSET_DAYS = 3;
+
+// Umm al-Qura table (as published in CLDR): one 12-bit mask per year,
+// bit n set when month n+1 has 30 days
+const UMM_AL_QURA_FIRST_YEAR = 1440;
+/** Julian Day Number of 1 Muharram 1440 (11 Sep 2018) */
+const UMM_AL_QURA_FIRST_JDN = 2458373;
+const UMM_AL_QURA_MONTHS = [
+  0x2ba, 0x5b5, 0x5aa, 0xd55, 0xa9a, 0x92e, 0x26e, 0x55d, 0xada, 0x6d4, // 1440-1449
+  0x6a5, 0xb27, 0xa4d, 0x4ad, 0x56d, 0xb5a, 0x754, 0xf49, 0xe92, 0xd26, // 1450-1459
+  0xa56, 0x356, 0x6b5, 0xbaa, 0xb92, 0xb25, 0x68b, 0xa9b, 0x55a, 0xada, // 1460-1469
+  0x5b4, 0xda9, 0xb52, 0xa9a, 0x536, 0x276, 0x575, 0xaf2, 0x6d4, 0x6a9, // 1470-1479
+  0x555, 0x2ad, 0x4bd, 0x9ba, 0x574, 0xb69, 0xb52, 0xa95, 0x52d, 0xa5d, // 1480-1489
+  0x4da, 0xad9, 0x6b2, 0xe95, 0xe2a, 0xc96, 0x92e, 0xaad, 0x56a, 0xd65, // 1490-1499
+  0xd4a, // 1500
+];
+const UMM_AL_QURA_LAST_YEAR = UMM_AL_QURA_FIRST_YEAR + UMM_AL_QURA_MONTHS.length - 1;
+
+/** Julian Day Number of the first day of each table month, plus the day after the table ends */
+const monthStarts: number[] = (() => {
+  const starts = [UMM_AL_QURA_FIRST_JDN];
+  UMM_AL_QURA_MONTHS.forEach((mask) => {
+    for (let month = 0; month < 12; month++) {
+      starts.push(starts[starts.length - 1] + ((mask >> month) & 1 ? 30 : 29));
+    }
+  });
+  return starts;
+})();
+
+const gregorianToJdn = ({ year, month, day }: CalendarDay): number => {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+};
+
+const jdnToGregorian = (jdn: number): CalendarDay => {
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  return {
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+    month: m + 3 - 12 * Math.floor(m / 10),
+    year: 100 * b + d - 4800 + Math.floor(m / 10),
+  };
+};
+
+// Tabular Islamic calendar (civil epoch, 16 Jul 622)
+const tabularToJdn = ({ year, month, day }: HijriDate): number => {
+  return day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30) + 1948439;
+};
+
+const jdnToTabular = (jdn: number): HijriDate => {
+  const year = Math.floor((30 * (jdn - 1948440) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((jdn - 29 - tabularToJdn({ year, month: 1, day: 1 })) / 29.5) + 1);
+  return { year, month, day: jdn - tabularToJdn({ year, month, day: 1 }) + 1 };
+};
+
+const hijriToJdn = (hijri: HijriDate): number => {
+  if (hijri.year < UMM_AL_QURA_FIRST_YEAR || hijri.year > UMM_AL_QURA_LAST_YEAR) {
+    return tabularToJdn(hijri);
+  }
+  return monthStarts[(hijri.year - UMM_AL_QURA_FIRST_YEAR) * 12 + hijri.month - 1] + hijri.day - 1;
+};
+
+const jdnToHijri = (jdn: number): HijriDate => {
+  if (jdn < monthStarts[0] || jdn >= monthStarts[monthStarts.length - 1]) {
+    return jdnToTabular(jdn);
+  }
+  // Binary search for the last month starting on or before jdn
+  let low = 0;
+  let high = monthStarts.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (monthStarts[mid] <= jdn) low = mid;
+    else high = mid - 1;
+  }
+  return {
+    year: UMM_AL_QURA_FIRST_YEAR + Math.floor(low / 12),
+    month: (low % 12) + 1,
+    day: jdn - monthStarts[low] + 1,
+  };
+};
+
+/**
+ * Get the admin's moon-sighting correction from mosque settings
+ */
+export const getHijriOffsetDays = (settings: MosqueSettings | null | undefined): number => {
+  const offset = Math.round(settings?.hijri_offset_days ?? 0);
+  if (!Number.isFinite(offset)) return 0;
+  return Math.max(-MAX_HIJRI_OFFSET_DAYS, Math.min(MAX_HIJRI_OFFSET_DAYS, offset));
+};
+
+/**
+ * Convert a Gregorian calendar day to its Hijri date
+ */
+export const gregorianToHijri = (day: CalendarDay, offsetDays: number = 0): HijriDate => {
+  return jdnToHijri(gregorianToJdn(day) + offsetDays);
+};
+
+/**
+ * Convert a Hijri date to the Gregorian calendar day it falls on
+ */
+export const hijriToGregorian = (hijri: HijriDate, offsetDays: number = 0): CalendarDay => {
+  return jdnToGregorian(hijriToJdn(hijri) - offsetDays);
+};
+
+/**
+ * Number of days (29 or 30) in a Hijri month
+ */
+export const getHijriDaysInMonth = (year: number, month: number): number => {
+  const next = month === 12 ? { year: year + 1, month: 1, day: 1 } : { year, month: month + 1, day: 1 };
+  return hijriToJdn(next) - hijriToJdn({ year, month, day: 1 });
+};
+
+/**
+ * Get the Hijri date of an instant's calendar day in the given timezone
+ */
+export const getHijriDate = (date: Date, timeZone: string, offsetDays: number = 0): HijriDate => {
+  return gregorianToHijri(getZonedToday(timeZone, date), offsetDays);
+};
+
+/**
+ * Format a Hijri date, e.g. "27 Rabi' al-Thani 1448 AH"
+ */
+export const formatHijriDate = (hijri: HijriDate, options: { withYear?: boolean } = {}): string => {
+  const { withYear = true } = options;
+  const base = `${hijri.day} ${HIJRI_MONTH_NAMES[hijri.month - 1]}`;
+  return withYear ? `${base} ${hijri.year} AH` : base;
+};
@@ -0,0 +1,228 @@
+/**
+ * iCalendar (RFC 5545) Export
+ *
+ * Builds .ics text for events so members can add them to their own calendars.
+ * Times are written in the mosque's timezone with a VTIMEZONE generated from
+ * the platform's timezone data, so calendars show the right local time even
+ * when the member is elsewhere.
+ */
+
+import { Event } from '../types';
+import {
+  CalendarDay,
+  addDays,
+  getTimezoneOffsetMinutes,
+  getZonedToday,
+  parseTimeToMinutes,
+} from './time';
+
+/** Events have no end time, so calendar entries default to this length */
+export const DEFAULT_EVENT_DURATION_MINUTES = 60;
+
+const PRODUCT_ID = '-//Al Ansar Masjid//Events//EN';
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsOptions {
+  timeZone: string;
+  /** Shown as the calendar name by clients that support X-WR-CALNAME */
+  calendarName?: string;
+  /** App link for an event, added to its description and URL */
+  getEventLink?: (eventId: string) => string;
+  /** DTSTAMP; defaults to now */
+  now?: Date;
+}
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+const formatIcsDate = (day: CalendarDay): string => `${day.year}${pad(day.month)}${pad(day.day)}`;
+
+const formatIcsLocalDateTime = (day: CalendarDay, minutesOfDay: number): string => {
+  return `${formatIcsDate(day)}T${pad(Math.floor(minutesOfDay / 60))}${pad(minutesOfDay % 60)}00`;
+};
+
+const formatIcsUtcDateTime = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/** UTC offset as +hhmm / -hhmm */
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+export const escapeIcsText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 §3.1) without splitting a character
+ */
+export const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines start with a space, which counts toward their length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join(`${CRLF} `);
+};
+
+interface OffsetTransition {
+  /** First instant of the new offset */
+  at: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * Offset changes in a timezone between two instants, found by scanning daily
+ * and narrowing each change to the minute.
+ */
+const findOffsetTransitions = (timeZone: string, start: number, end: number): OffsetTransition[] => {
+  const transitions: OffsetTransition[] = [];
+  const DAY = 24 * 60 * 60 * 1000;
+  let previous = getTimezoneOffsetMinutes(start, timeZone);
+  for (let instant = start + DAY; instant <= end + DAY; instant += DAY) {
+    const offset = getTimezoneOffsetMinutes(instant, timeZone);
+    if (offset === previous) continue;
+    let low = instant - DAY;
+    let high = instant;
+    while (high - low > 60000) {
+      const mid = Math.floor((low + high) / 2 / 60000) * 60000;
+      if (getTimezoneOffsetMinutes(mid, timeZone) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: high, from: previous, to: offset });
+    previous = offset;
+  }
+  return transitions;
+};
+
+/**
+ * VTIMEZONE covering the given years, with one observance per transition
+ */
+export const buildVTimezone = (timeZone: string, fromYear: number, toYear: number): string[] => {
+  const start = Date.UTC(fromYear, 0, 1);
+  const end = Date.UTC(toYear + 1, 0, 1);
+  const initialOffset = getTimezoneOffsetMinutes(start, timeZone);
+  const transitions = findOffsetTransitions(timeZone, start, end);
+  const standardOffset = Math.min(initialOffset, ...transitions.map((t) => t.to));
+
+  const observance = (dtStart: string, from: number, to: number): string[] => {
+    const kind = to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${dtStart}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  // A transition's DTSTART is the wall-clock time in the offset being replaced
+  const localStart = (transition: OffsetTransition): string => {
+    const local = new Date(transition.at + transition.from * 60000);
+    const day = { year: local.getUTCFullYear(), month: local.getUTCMonth() + 1, day: local.getUTCDate() };
+    return formatIcsLocalDateTime(day, local.getUTCHours() * 60 + local.getUTCMinutes());
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(formatIcsLocalDateTime({ year: fromYear, month: 1, day: 1 }, 0), initialOffset, initialOffset),
+    ...transitions.flatMap((t) => observance(localStart(t), t.from, t.to)),
+    'END:VTIMEZONE',
+  ];
+};
+
+const buildEventDescription = (event: Event, link?: string): string => {
+  return [
+    event.description,
+    event.speaker ? `Speaker: ${event.speaker}` : '',
+    link || '',
+  ].filter(Boolean).join('\n\n');
+};
+
+/**
+ * VEVENT for one event. Times that can't be parsed (e.g. "After Maghrib")
+ * become all-day entries with the time kept in the description.
+ */
+const buildVEvent = (event: Event, options: IcsOptions, stamp: string): string[] => {
+  const { timeZone, getEventLink } = options;
+  const day = getZonedToday(timeZone, event.date.toDate());
+  const minutes = parseTimeToMinutes(event.time);
+  const link = getEventLink?.(event.id);
+  const description = minutes === null && event.time
+    ? `${event.time}\n\n${buildEventDescription(event, link)}`
+    : buildEventDescription(event, link);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@alansar-masjid`,
+    `DTSTAMP:${stamp}`,
+  ];
+  if (minutes === null) {
+    lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(day)}`, `DTEND;VALUE=DATE:${formatIcsDate(addDays(day, 1))}`);
+  } else {
+    lines.push(
+      `DTSTART;TZID=${timeZone}:${formatIcsLocalDateTime(day, minutes)}`,
+      `DURATION:PT${DEFAULT_EVENT_DURATION_MINUTES}M`
+    );
+  }
+  lines.push(`SUMMARY:${escapeIcsText(event.title)}`);
+  if (description.trim()) lines.push(`DESCRIPTION:${escapeIcsText(description.trim())}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (link) lines.push(`URL:${link}`);
+  lines.push(`STATUS:${event.is_cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT');
+  return lines;
+};
+
+/**
+ * A complete VCALENDAR for one or more events, with CRLF line endings
+ */
+export const buildEventsCalendar = (events: Event[], options: IcsOptions): string => {
+  const stamp = formatIcsUtcDateTime(options.now ?? new Date());
+  const years = events.map((event) => getZonedToday(options.timeZone, event.date.toDate()).year);
+  const hasTimedEvents = events.some((event) => parseTimeToMinutes(event.time) !== null);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.calendarName ? [`X-WR-CALNAME:${escapeIcsText(options.calendarName)}`] : []),
+    ...(hasTimedEvents ? buildVTimezone(options.timeZone, Math.min(...years), Math.max(...years)) : []),
+    ...events.flatMap((event) => buildVEvent(event, options, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+};
@@ -0,0 +1,15 @@
+/**
+ * Idempotency Keys
+ *
+ * Callables that create something on the server are sent a key made on the
+ * device. The server stores what it created under that key and answers a
+ * repeat of the key with the same result, so a submit whose response was lost
+ * can be sent again without booking or registering twice.
+ */
+
+/**
+ * A new key, unique to this device in practice: the time plus random characters
+ */
+export const createIdempotencyKey = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
@@ -0,0 +1,113 @@
+/**
+ * Islamic Observances
+ *
+ * Significant dates of the Hijri year, converted to Gregorian days with the
+ * mosque's moon-sighting offset applied.
+ */
+
+import { HIJRI_MONTH_NAMES, HijriDate, gregorianToHijri, hijriToGregorian } from './hijri';
+import { CalendarDay, addDays, daysBetween } from './time';
+
+export type ObservanceKey =
+  | 'ramadan_start'
+  | 'laylat_al_qadr'
+  | 'eid_al_fitr'
+  | 'arafah'
+  | 'eid_al_adha'
+  | 'ashura'
+  | 'white_days';
+
+export interface IslamicObservance {
+  /** Unique per occurrence, e.g. "eid_al_fitr:1448-10-1" */
+  id: string;
+  key: ObservanceKey;
+  title: string;
+  description: string;
+  /** Gregorian day of the observance (for night observances, the day whose evening begins it) */
+  date: CalendarDay;
+  hijri: HijriDate;
+  daysRemaining: number;
+}
+
+export const OBSERVANCE_LABELS: Record<ObservanceKey, string> = {
+  ramadan_start: 'Start of Ramadan',
+  laylat_al_qadr: 'Laylat al-Qadr',
+  eid_al_fitr: 'Eid al-Fitr',
+  arafah: 'Day of Arafah',
+  eid_al_adha: 'Eid al-Adha',
+  ashura: 'Ashura',
+  white_days: 'White Days',
+};
+
+/** Odd nights of the last ten of Ramadan */
+const QADR_NIGHTS = [21, 23, 25, 27, 29];
+/** Ayyam al-Bid: the 13th, 14th and 15th of each Hijri month */
+const WHITE_DAYS_START = 13;
+/** Days ahead the calendar looks (a little over one Hijri year) */
+const LOOKAHEAD_DAYS = 370;
+
+const ordinal = (n: number): string => {
+  const suffix = n % 10 === 1 && n % 100 !== 11 ? 'st' : n % 10 === 2 && n % 100 !== 12 ? 'nd' : n % 10 === 3 && n % 100 !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Observances falling in a Hijri year, in no particular order
+ */
+const getObservancesForHijriYear = (year: number): Omit<IslamicObservance, 'date' | 'daysRemaining'>[] => {
+  const item = (key: ObservanceKey, month: number, day: number, description: string, title = OBSERVANCE_LABELS[key]) => ({
+    id: `${key}:${year}-${month}-${day}`,
+    key,
+    title,
+    description,
+    hijri: { year, month, day },
+  });
+
+  const list = [
+    item('ashura', 1, 10, 'Fasting the 10th of Muharram (with the 9th or 11th) is recommended.'),
+    item('ramadan_start', 9, 1, 'First day of fasting, subject to moon sighting.'),
+    // The night of the 21st begins at Maghrib on the 20th
+    ...QADR_NIGHTS.map((night) =>
+      item('laylat_al_qadr', 9, night - 1, `Seek Laylat al-Qadr on the ${ordinal(night)} night of Ramadan, beginning this evening.`, `Laylat al-Qadr (${ordinal(night)} night)`)
+    ),
+    item('eid_al_fitr', 10, 1, 'Eid prayer in the morning. Zakat al-Fitr is due before the prayer.'),
+    item('arafah', 12, 9, 'Fasting the Day of Arafah is recommended for those not on Hajj.'),
+    item('eid_al_adha', 12, 10, 'Eid prayer in the morning, followed by the udhiyah.'),
+  ];
+
+  // Ramadan is fasted in full, and the 13th of Dhu al-Hijjah is a day of Tashriq
+  // when fasting isn't allowed, so neither gets a White Days entry
+  for (let month = 1; month <= 11; month++) {
+    if (month === 9) continue;
+    list.push(item(
+      'white_days',
+      month,
+      WHITE_DAYS_START,
+      `Recommended fasts on the 13th, 14th and 15th of ${HIJRI_MONTH_NAMES[month - 1]}.`,
+      `White Days (${HIJRI_MONTH_NAMES[month - 1]})`
+    ));
+  }
+
+  return list;
+};
+
+/**
+ * Upcoming observances from today (inclusive), soonest first
+ */
+export const getUpcomingObservances = (
+  today: CalendarDay,
+  offsetDays: number = 0,
+  lookaheadDays: number = LOOKAHEAD_DAYS
+): IslamicObservance[] => {
+  const currentYear = gregorianToHijri(today, offsetDays).year;
+  const lastDay = addDays(today, lookaheadDays);
+
+  return [currentYear, currentYear + 1]
+    .flatMap(getObservancesForHijriYear)
+    .map((observance) => {
+      const date = hijriToGregorian(observance.hijri, offsetDays);
+      return { ...observance, date, daysRemaining: daysBetween(today, date) };
+    })
+    .filter((observance) => observance.daysRemaining >= 0 && daysBetween(observance.date, lastDay) >= 0)
+    .sort((a, b) => a.daysRemaining - b.daysRemaining);
+};
@@ -0,0 +1,343 @@
+/**
+ * Prayer Time Calculation Utilities
+ *
+ * Pure helpers around the `adhan` package so that every screen computes
+ * prayer times the same way from `MosqueSettings`. Admin overrides on the
+ * prayerTimes document are layered on top; the client never writes times back.
+ * Times are formatted as wall-clock strings ("5:07 AM") in the mosque timezone;
+ * see ./time for parsing and formatting them.
+ */
+
+import {
+  PrayerTimes as AdhanPrayerTimes,
+  CalculationMethod,
+  CalculationParameters,
+  Coordinates,
+  HighLatitudeRule,
+  Madhab,
+  PolarCircleResolution,
+} from 'adhan';
+import { IqamaScheduleEntry, MosqueSettings, PRAYER_KEYS, PrayerKey, PrayerTimes } from '../types';
+import {
+  CalendarDay,
+  TIME_PLACEHOLDER,
+  addDays,
+  addMinutesToTime,
+  formatDayKey,
+  formatTimeInZone,
+  getDaysInMonth,
+  getZonedToday,
+  isSameCalendarDay,
+  parseDayKey,
+  parseTimeToMinutes,
+} from './time';
+
+export const DEFAULT_TIMEZONE = 'Australia/Sydney';
+export const DEFAULT_CALCULATION_METHOD = 'MuslimWorldLeague';
+
+/** Where a displayed adhan time came from */
+export type AdhanSource = 'computed' | 'override';
+
+export interface TimetableDay {
+  date: CalendarDay;
+  /** Short weekday label, e.g. "Mon" */
+  weekday: string;
+  adhan: Record<PrayerKey, string>;
+  iqama: Record<PrayerKey, string>;
+  adhanSource: Record<PrayerKey, AdhanSource>;
+}
+
+export type MakruhKey = 'sunrise' | 'zawal' | 'sunset';
+
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+/** Sun-based markers that aren't congregational prayers */
+export interface SunTimes {
+  /** End of the Fajr time */
+  sunrise: string;
+  /** Earliest time for Duha, once the sun has fully risen */
+  duha: string;
+  /** Windows in which voluntary prayer is disliked */
+  makruh: Record<MakruhKey, TimeWindow>;
+}
+
+/** Minutes after sunrise before the sun has fully risen (start of Duha) */
+export const SUNRISE_MAKRUH_MINUTES = 15;
+/** Minutes before Dhuhr covering the sun at its zenith (zawal) */
+export const ZAWAL_MAKRUH_MINUTES = 10;
+/** Minutes before sunset once the sun has yellowed */
+export const SUNSET_MAKRUH_MINUTES = 15;
+
+/**
+ * Get the mosque timezone, falling back to the app default
+ */
+export const getMosqueTimezone = (settings: MosqueSettings | null | undefined): string => {
+  return settings?.timezone || DEFAULT_TIMEZONE;
+};
+
+/**
+ * Check whether mosque settings contain usable coordinates
+ */
+export const hasCoordinates = (settings: MosqueSettings | null | undefined): settings is MosqueSettings & { latitude: number; longitude: number } => {
+  return typeof settings?.latitude === 'number' && typeof settings?.longitude === 'number';
+};
+
+/**
+ * Build adhan calculation parameters from mosque settings: the method's defaults,
+ * then the madhab, high-latitude rule, polar circle resolution and per-prayer
+ * minute adjustments when the mosque has set them.
+ */
+export const buildCalculationParams = (settings: MosqueSettings): CalculationParameters => {
+  const methodName = settings.calculation_method || DEFAULT_CALCULATION_METHOD;
+  const factory = CalculationMethod[methodName as keyof typeof CalculationMethod];
+  const params = factory ? factory() : CalculationMethod.MuslimWorldLeague();
+
+  if (settings.madhab && settings.madhab in Madhab) {
+    params.madhab = Madhab[settings.madhab];
+  }
+  if (settings.high_latitude_rule && settings.high_latitude_rule in HighLatitudeRule) {
+    params.highLatitudeRule = HighLatitudeRule[settings.high_latitude_rule];
+  }
+  if (settings.polar_circle_resolution && settings.polar_circle_resolution in PolarCircleResolution) {
+    params.polarCircleResolution = PolarCircleResolution[settings.polar_circle_resolution];
+  }
+  for (const [prayer, minutes] of Object.entries(settings.prayer_adjustments || {})) {
+    if (prayer in params.adjustments && typeof minutes === 'number' && Number.isFinite(minutes)) {
+      params.adjustments[prayer as keyof CalculationParameters['adjustments']] = Math.round(minutes);
+    }
+  }
+
+  return params;
+};
+
+/**
+ * Run the adhan calculation for a calendar day.
+ * Returns null when the mosque has no coordinates configured.
+ */
+export const calculateAdhanTimes = (
+  settings: MosqueSettings | null | undefined,
+  day: CalendarDay
+): AdhanPrayerTimes | null => {
+  if (!settings || !hasCoordinates(settings)) return null;
+
+  const coordinates = new Coordinates(settings.latitude, settings.longitude);
+  // adhan reads the local year/month/day components of the date it is given,
+  // so build the date from the calendar day rather than from an instant.
+  const date = new Date(day.year, day.month - 1, day.day);
+  return new AdhanPrayerTimes(coordinates, date, buildCalculationParams(settings));
+};
+
+/**
+ * Calculate sunrise, Duha and the three makruh windows for a calendar day.
+ * These are always astronomical, so admin adhan overrides don't apply.
+ * Returns null when the mosque has no coordinates configured.
+ */
+export const calculateSunTimes = (
+  settings: MosqueSettings | null | undefined,
+  day: CalendarDay
+): SunTimes | null => {
+  const times = calculateAdhanTimes(settings, day);
+  if (!times) return null;
+
+  const timeZone = getMosqueTimezone(settings);
+  const format = (date: Date, offsetMinutes = 0): string =>
+    formatTimeInZone(new Date(date.getTime() + offsetMinutes * 60000), timeZone);
+
+  return {
+    sunrise: format(times.sunrise),
+    duha: format(times.sunrise, SUNRISE_MAKRUH_MINUTES),
+    makruh: {
+      sunrise: { start: format(times.sunrise), end: format(times.sunrise, SUNRISE_MAKRUH_MINUTES) },
+      zawal: { start: format(times.dhuhr, -ZAWAL_MAKRUH_MINUTES), end: format(times.dhuhr) },
+      sunset: { start: format(times.sunset, -SUNSET_MAKRUH_MINUTES), end: format(times.sunset) },
+    },
+  };
+};
+
+/**
+ * Calculate an iqama time: the fixed time as entered, or the adhan plus the offset
+ */
+export const calculateIqamaTime = (
+  adhanTime: string | undefined,
+  iqamaType: 'fixed' | 'offset' | undefined,
+  fixedIqama: string | undefined,
+  offset: number | undefined
+): string => {
+  if (iqamaType === 'fixed') return fixedIqama || TIME_PLACEHOLDER;
+  if (!offset) return TIME_PLACEHOLDER;
+  return addMinutesToTime(adhanTime, offset);
+};
+
+/**
+ * Resolve the iqama time for a prayer using the `*_iqama_type` / `*_iqama_offset` rules
+ * stored on the prayerTimes document (see getIqamaRulesForDay for dated schedules).
+ */
+export const resolveIqamaTime = (
+  rules: PrayerTimes | null | undefined,
+  prayer: PrayerKey,
+  adhanTime: string | undefined
+): string => {
+  if (!rules) return TIME_PLACEHOLDER;
+
+  const iqamaType = rules[`${prayer}_iqama_type` as const] || 'fixed';
+  const fixedIqama = rules[`${prayer}_iqama` as const];
+  const offset = rules[`${prayer}_iqama_offset` as const];
+
+  return calculateIqamaTime(adhanTime, iqamaType, fixedIqama, offset);
+};
+
+/**
+ * Find the iqama schedule entry covering a day.
+ * When ranges overlap, the one that started most recently wins.
+ */
+export const getActiveIqamaEntry = (
+  prayerTimes: PrayerTimes | null | undefined,
+  day: CalendarDay
+): IqamaScheduleEntry | null => {
+  const key = formatDayKey(day);
+  let active: IqamaScheduleEntry | null = null;
+
+  for (const entry of prayerTimes?.iqama_schedule || []) {
+    if (!parseDayKey(entry.start_date)) continue;
+    if (entry.start_date > key) continue;
+    if (entry.end_date && entry.end_date < key) continue;
+    if (!active || entry.start_date > active.start_date) active = entry;
+  }
+
+  return active;
+};
+
+/**
+ * Get the iqama rules for a day: the active schedule entry over the document defaults
+ */
+export const getIqamaRulesForDay = (
+  prayerTimes: PrayerTimes | null | undefined,
+  day: CalendarDay
+): PrayerTimes | null => {
+  if (!prayerTimes) return null;
+  const entry = getActiveIqamaEntry(prayerTimes, day);
+  return entry ? { ...prayerTimes, ...entry } : prayerTimes;
+};
+
+/**
+ * Find the first day within `withinDays` after `today` on which a different
+ * iqama schedule entry applies. Returns null when nothing changes.
+ */
+export const getUpcomingIqamaChange = (
+  prayerTimes: PrayerTimes | null | undefined,
+  today: CalendarDay,
+  withinDays: number = 7
+): CalendarDay | null => {
+  if (!prayerTimes?.iqama_schedule?.length) return null;
+  const current = getActiveIqamaEntry(prayerTimes, today);
+
+  for (let offset = 1; offset <= withinDays; offset++) {
+    const day = addDays(today, offset);
+    if (getActiveIqamaEntry(prayerTimes, day) !== current) return day;
+  }
+
+  return null;
+};
+
+/**
+ * Get the admin-entered adhan time for a prayer on a day, if one is set and valid.
+ * The override flags carry no date of their own, so they only apply on
+ * `adhan_override_date`, or on today (in the mosque timezone) when that isn't set.
+ */
+export const getAdhanOverride = (
+  prayerTimes: PrayerTimes | null | undefined,
+  prayer: PrayerKey,
+  day: CalendarDay,
+  timeZone: string
+): string | null => {
+  if (!prayerTimes?.[`${prayer}_adhan_override` as const]) return null;
+  const overrideDay = parseDayKey(prayerTimes.adhan_override_date) ?? getZonedToday(timeZone);
+  if (!isSameCalendarDay(day, overrideDay)) return null;
+  const time = prayerTimes[`${prayer}_adhan` as const];
+  return parseTimeToMinutes(time) !== null ? time.trim() : null;
+};
+
+const formatWeekday = (day: CalendarDay): string => {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).toLocaleDateString('en-US', {
+    weekday: 'short',
+    timeZone: 'UTC',
+  });
+};
+
+/**
+ * Build a single timetable row: adhan calculated from the mosque settings,
+ * replaced by admin overrides from the prayerTimes document on the day they apply to.
+ * Returns null when the mosque has no coordinates configured.
+ */
+export const buildTimetableDay = (
+  settings: MosqueSettings | null | undefined,
+  prayerTimes: PrayerTimes | null | undefined,
+  day: CalendarDay
+): TimetableDay | null => {
+  const times = calculateAdhanTimes(settings, day);
+  if (!times) return null;
+
+  const timeZone = getMosqueTimezone(settings);
+  const adhan = {} as Record<PrayerKey, string>;
+  const iqama = {} as Record<PrayerKey, string>;
+  const adhanSource = {} as Record<PrayerKey, AdhanSource>;
+  const iqamaRules = getIqamaRulesForDay(prayerTimes, day);
+
+  for (const prayer of PRAYER_KEYS) {
+    const override = getAdhanOverride(prayerTimes, prayer, day, timeZone);
+    adhan[prayer] = override ?? formatTimeInZone(times[prayer], timeZone);
+    adhanSource[prayer] = override ? 'override' : 'computed';
+    iqama[prayer] = resolveIqamaTime(iqamaRules, prayer, adhan[prayer]);
+  }
+
+  return { date: day, weekday: formatWeekday(day), adhan, iqama, adhanSource };
+};
+
+/**
+ * Resolve the prayer times shown for a day. Without coordinates nothing can be
+ * calculated, so the times published on the prayerTimes document are used as-is.
+ */
+export const resolvePrayerDay = (
+  settings: MosqueSettings | null | undefined,
+  prayerTimes: PrayerTimes | null | undefined,
+  day: CalendarDay
+): TimetableDay | null => {
+  const computed = buildTimetableDay(settings, prayerTimes, day);
+  if (computed || !prayerTimes) return computed;
+
+  const adhan = {} as Record<PrayerKey, string>;
+  const iqama = {} as Record<PrayerKey, string>;
+  const adhanSource = {} as Record<PrayerKey, AdhanSource>;
+  const iqamaRules = getIqamaRulesForDay(prayerTimes, day);
+
+  for (const prayer of PRAYER_KEYS) {
+    adhan[prayer] = prayerTimes[`${prayer}_adhan` as const];
+    adhanSource[prayer] = 'override';
+    iqama[prayer] = resolveIqamaTime(iqamaRules, prayer, adhan[prayer]);
+  }
+
+  return { date: day, weekday: formatWeekday(day), adhan, iqama, adhanSource };
+};
+
+/**
+ * Build timetable rows for every day of a month (month is 1-12)
+ */
+export const buildMonthTimetable = (
+  settings: MosqueSettings | null | undefined,
+  prayerTimes: PrayerTimes | null | undefined,
+  year: number,
+  month: number
+): TimetableDay[] => {
+  const rows: TimetableDay[] = [];
+  const daysInMonth = getDaysInMonth(year, month);
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const row = buildTimetableDay(settings, prayerTimes, { year, month, day });
+    if (row) rows.push(row);
+  }
+
+  return rows;
+};
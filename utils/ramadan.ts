@@ -0,0 +1,60 @@
+/**
+ * Ramadan Utilities
+ *
+ * Suhoor (imsak), iftar and taraweeh times for a day of Ramadan, derived from
+ * the resolved prayer times and the mosque's Ramadan settings.
+ */
+
+import { MosqueSettings } from '../types';
+import { getHijriOffsetDays, gregorianToHijri } from './hijri';
+import { TimetableDay } from './prayerCalculation';
+import { formatMinutesOfDay, parseTimeToMinutes } from './time';
+
+export const RAMADAN_MONTH = 9;
+/** Minutes before the Fajr adhan that suhoor ends when the mosque hasn't set one */
+export const DEFAULT_IMSAK_OFFSET_MINUTES = 10;
+
+export interface RamadanDay {
+  /** Day of Ramadan, 1-30 */
+  dayNumber: number;
+  /** End of suhoor */
+  imsak: string;
+  /** Maghrib adhan */
+  iftar: string;
+  /** Taraweeh start, or null when the mosque hasn't published one */
+  taraweeh: string | null;
+}
+
+/**
+ * Get the imsak offset from mosque settings
+ */
+export const getImsakOffsetMinutes = (settings: MosqueSettings | null | undefined): number => {
+  const offset = settings?.imsak_offset_minutes;
+  return typeof offset === 'number' && Number.isFinite(offset) && offset >= 0 ? offset : DEFAULT_IMSAK_OFFSET_MINUTES;
+};
+
+/**
+ * Build the Ramadan times for a resolved day.
+ * Returns null outside Ramadan or when the Fajr / Maghrib times are unknown.
+ */
+export const getRamadanDay = (
+  settings: MosqueSettings | null | undefined,
+  times: TimetableDay | null
+): RamadanDay | null => {
+  if (!times) return null;
+
+  const hijri = gregorianToHijri(times.date, getHijriOffsetDays(settings));
+  if (hijri.month !== RAMADAN_MONTH) return null;
+
+  const fajrMinutes = parseTimeToMinutes(times.adhan.fajr);
+  if (fajrMinutes === null || parseTimeToMinutes(times.adhan.maghrib) === null) return null;
+
+  const taraweeh = settings?.taraweeh_time?.trim();
+
+  return {
+    dayNumber: hijri.day,
+    imsak: formatMinutesOfDay(fajrMinutes - getImsakOffsetMinutes(settings)),
+    iftar: times.adhan.maghrib,
+    taraweeh: taraweeh && parseTimeToMinutes(taraweeh) !== null ? taraweeh : null,
+  };
+};
@@ -0,0 +1,120 @@
+/**
+ * Event Recurrence
+ *
+ * Expands an event series (weekly or monthly, see EventRecurrence) into the
+ * calendar days it occurs on. Occurrences get ids of the form
+ * `<seriesId>__<YYYY-MM-DD>` so a single session can be linked to directly.
+ */
+
+import { EventRecurrence } from '../types';
+import { CalendarDay, addDays, daysBetween, formatDayKey, getDaysInMonth, parseDayKey } from './time';
+
+/** How far ahead series are expanded for the events list */
+export const RECURRENCE_WINDOW_DAYS = 90;
+
+const OCCURRENCE_ID_SEPARATOR = '__';
+
+/** Upper bound on generated occurrences, guarding against bad admin data */
+const MAX_OCCURRENCES = 400;
+
+export const getWeekday = (day: CalendarDay): number => new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+
+export const getOccurrenceId = (seriesId: string, day: CalendarDay): string => {
+  return `${seriesId}${OCCURRENCE_ID_SEPARATOR}${formatDayKey(day)}`;
+};
+
+/**
+ * Split an occurrence id into its series id and day, or null for a plain event id
+ */
+export const parseOccurrenceId = (id: string): { seriesId: string; day: CalendarDay } | null => {
+  const index = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (index <= 0) return null;
+  const day = parseDayKey(id.slice(index + OCCURRENCE_ID_SEPARATOR.length));
+  return day ? { seriesId: id.slice(0, index), day } : null;
+};
+
+/**
+ * The nth weekday of a month (week -1 = last), or null when the month has no such day
+ */
+const getNthWeekdayOfMonth = (year: number, month: number, weekday: number, week: number): CalendarDay | null => {
+  const daysInMonth = getDaysInMonth(year, month);
+  if (week === -1) {
+    const last = { year, month, day: daysInMonth };
+    return addDays(last, -((getWeekday(last) - weekday + 7) % 7));
+  }
+  const first = { year, month, day: 1 };
+  const day = 1 + ((weekday - getWeekday(first) + 7) % 7) + (week - 1) * 7;
+  return day <= daysInMonth ? { year, month, day } : null;
+};
+
+const compareDays = (a: CalendarDay, b: CalendarDay): number => daysBetween(b, a);
+
+/**
+ * Days a series occurs on between `from` and `to` (inclusive), starting no
+ * earlier than the series' first day. Cancelled days are included; check
+ * them with isCancelledOccurrence.
+ */
+export const getRecurrenceDays = (
+  recurrence: EventRecurrence,
+  start: CalendarDay,
+  from: CalendarDay,
+  to: CalendarDay
+): CalendarDay[] => {
+  const until = parseDayKey(recurrence.until);
+  const last = until && compareDays(until, to) < 0 ? until : to;
+  const first = compareDays(start, from) > 0 ? start : from;
+  if (compareDays(first, last) > 0) return [];
+
+  const interval = Math.max(1, Math.floor(recurrence.interval || 1));
+  const days: CalendarDay[] = [];
+
+  if (recurrence.frequency === 'weekly') {
+    const weekdays = recurrence.weekdays?.length ? recurrence.weekdays : [getWeekday(start)];
+    // Weeks are counted from the Sunday on or before the series start
+    const startWeek = addDays(start, -getWeekday(start));
+    for (let day = first; compareDays(day, last) <= 0 && days.length < MAX_OCCURRENCES; day = addDays(day, 1)) {
+      const week = Math.floor(daysBetween(startWeek, day) / 7);
+      if (week % interval === 0 && weekdays.includes(getWeekday(day))) days.push(day);
+    }
+    return days;
+  }
+
+  // Monthly
+  for (
+    let year = first.year, month = first.month;
+    (year < last.year || (year === last.year && month <= last.month)) && days.length < MAX_OCCURRENCES;
+    month === 12 ? (year += 1, month = 1) : (month += 1)
+  ) {
+    const monthsSinceStart = (year - start.year) * 12 + (month - start.month);
+    if (monthsSinceStart % interval !== 0) continue;
+
+    const day = recurrence.monthly_weekday
+      ? getNthWeekdayOfMonth(year, month, recurrence.monthly_weekday.weekday, recurrence.monthly_weekday.week)
+      : start.day <= getDaysInMonth(year, month) ? { year, month, day: start.day } : null;
+    if (day && compareDays(day, first) >= 0 && compareDays(day, last) <= 0) days.push(day);
+  }
+  return days;
+};
+
+export const isCancelledOccurrence = (recurrence: EventRecurrence, day: CalendarDay): boolean => {
+  return !!recurrence.exceptions?.includes(formatDayKey(day));
+};
+
+/**
+ * Short description of a series for display, e.g. "Weekly on Tue", "Monthly, first Fri"
+ */
+export const describeRecurrence = (recurrence: EventRecurrence, start: CalendarDay): string => {
+  const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const interval = Math.max(1, Math.floor(recurrence.interval || 1));
+  if (recurrence.frequency === 'weekly') {
+    const weekdays = recurrence.weekdays?.length ? recurrence.weekdays : [getWeekday(start)];
+    const every = interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+    return `${every} on ${[...weekdays].sort().map((day) => names[day]).join(', ')}`;
+  }
+  const every = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+  if (recurrence.monthly_weekday) {
+    const ordinals: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+    return `${every}, ${ordinals[recurrence.monthly_weekday.week]} ${names[recurrence.monthly_weekday.weekday]}`;
+  }
+  return `${every} on day ${start.day}`;
+};
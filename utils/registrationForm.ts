@@ -0,0 +1,139 @@
+/**
+ * Registration Forms
+ *
+ * Client-side checks for the registration forms admins attach to events.
+ * While the form is being filled in, number answers are held as the typed
+ * text; validation trims and converts them, so only clean answers are
+ * submitted. The server checks the same rules again.
+ */
+
+import {
+  RegistrationAnswer,
+  RegistrationAnswers,
+  RegistrationField,
+  RegistrationForm,
+  RegistrationFormData,
+} from '../types/registration';
+
+/** Attendee limits when the form doesn't set them */
+const DEFAULT_MIN_ATTENDEES = 1;
+const DEFAULT_MAX_ATTENDEES = 10;
+/** Longest text answer accepted */
+export const MAX_TEXT_ANSWER_LENGTH = 500;
+
+export type RegistrationErrors = Record<string, string>;
+
+/**
+ * Key for a field's error: the field id, or `attendees.<index>.<id>` inside an attendee
+ */
+export const getRegistrationErrorKey = (fieldId: string, attendeeIndex?: number): string => {
+  return attendeeIndex === undefined ? fieldId : `attendees.${attendeeIndex}.${fieldId}`;
+};
+
+/**
+ * How many attendees the form allows, or zero for forms without an attendee section
+ */
+export const getAttendeeLimits = (form: RegistrationForm): { min: number; max: number } => {
+  if (!form.attendees) return { min: 0, max: 0 };
+  const min = form.attendees.min ?? DEFAULT_MIN_ATTENDEES;
+  return { min, max: Math.max(min, form.attendees.max ?? DEFAULT_MAX_ATTENDEES) };
+};
+
+/**
+ * Blank answers: unticked checkboxes and empty text
+ */
+export const createEmptyAnswers = (fields: RegistrationField[]): RegistrationAnswers => {
+  return Object.fromEntries(fields.map((field) => [field.id, field.type === 'checkbox' ? false : '']));
+};
+
+/**
+ * A blank form with the smallest allowed number of attendees (at least one when there is a section)
+ */
+export const createEmptyRegistration = (form: RegistrationForm): RegistrationFormData => {
+  const { min } = getAttendeeLimits(form);
+  const count = form.attendees ? Math.max(min, 1) : 0;
+  return {
+    answers: createEmptyAnswers(form.fields),
+    attendees: Array.from({ length: count }, () => createEmptyAnswers(form.attendees!.fields)),
+  };
+};
+
+/**
+ * Clean one answer, or explain what is wrong with it. Blank optional answers are left out.
+ */
+const readAnswer = (
+  field: RegistrationField,
+  raw: RegistrationAnswer | undefined
+): { value?: RegistrationAnswer; error?: string } => {
+  if (field.type === 'checkbox') {
+    const checked = raw === true;
+    if (field.required && !checked) return { error: 'Please tick to continue' };
+    return { value: checked };
+  }
+
+  const text = typeof raw === 'string' ? raw.trim() : raw === undefined ? '' : String(raw);
+  if (!text) return field.required ? { error: field.type === 'choice' ? 'Please choose one' : 'Required' } : {};
+
+  switch (field.type) {
+    case 'number': {
+      const value = Number(text);
+      if (!Number.isFinite(value)) return { error: 'Enter a number' };
+      if (field.min !== undefined && value < field.min) return { error: `Must be at least ${field.min}` };
+      if (field.max !== undefined && value > field.max) return { error: `Must be at most ${field.max}` };
+      return { value };
+    }
+    case 'choice':
+      return field.options?.includes(text) ? { value: text } : { error: 'Please choose one of the options' };
+    default:
+      if (text.length > MAX_TEXT_ANSWER_LENGTH) return { error: `Keep this under ${MAX_TEXT_ANSWER_LENGTH} characters` };
+      return { value: text };
+  }
+};
+
+const readSection = (
+  fields: RegistrationField[],
+  answers: RegistrationAnswers,
+  errors: RegistrationErrors,
+  attendeeIndex?: number
+): RegistrationAnswers => {
+  const clean: RegistrationAnswers = {};
+  fields.forEach((field) => {
+    const { value, error } = readAnswer(field, answers[field.id]);
+    if (error) errors[getRegistrationErrorKey(field.id, attendeeIndex)] = error;
+    else if (value !== undefined) clean[field.id] = value;
+  });
+  return clean;
+};
+
+/**
+ * Check a filled-in form. Returns the cleaned answers, or the errors keyed by
+ * getRegistrationErrorKey (plus `attendees` for a wrong attendee count).
+ */
+export const validateRegistration = (
+  form: RegistrationForm,
+  data: RegistrationFormData
+): { valid: true; value: RegistrationFormData } | { valid: false; errors: RegistrationErrors } => {
+  const errors: RegistrationErrors = {};
+  const answers = readSection(form.fields, data.answers, errors);
+
+  let attendees: RegistrationAnswers[] = [];
+  if (form.attendees) {
+    const { min, max } = getAttendeeLimits(form);
+    const label = form.attendees.label.toLowerCase();
+    if (data.attendees.length < min) errors.attendees = `Add at least ${min} ${label}${min === 1 ? '' : 's'}`;
+    if (data.attendees.length > max) errors.attendees = `Register at most ${max} ${label}${max === 1 ? '' : 's'}`;
+    attendees = data.attendees.map((attendee, index) => readSection(form.attendees!.fields, attendee, errors, index));
+  }
+
+  return Object.keys(errors).length === 0
+    ? { valid: true, value: { answers, attendees } }
+    : { valid: false, errors };
+};
+
+/**
+ * An answer as shown back to the user, e.g. "Yes" for a ticked checkbox
+ */
+export const formatRegistrationAnswer = (field: RegistrationField, value: RegistrationAnswer | undefined): string => {
+  if (field.type === 'checkbox') return value === true ? 'Yes' : 'No';
+  return value === undefined || value === '' ? '—' : String(value);
+};
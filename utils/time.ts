@@ -0,0 +1,248 @@
+/**
+ * Time Utilities
+ *
+ * One place to parse, format and compare prayer times. Stored times are
+ * wall-clock strings ("5:07 AM") in the mosque timezone; they only become
+ * instants through zonedTimeToDate, which accounts for DST-transition days.
+ * Wall-clock arithmetic wraps around midnight.
+ */
+
+export type TimeFormat = '12h' | '24h';
+
+/** 'numeric' = "19/10/2026", 'long' = "Monday 19 October 2026" */
+export type DateStyle = 'numeric' | 'long';
+
+/** A calendar day (month is 1-12) independent of any timezone */
+export interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** Shown wherever a time is missing or can't be parsed */
+export const TIME_PLACEHOLDER = '--:--';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse a wall-clock time into minutes since midnight.
+ * Accepts 12-hour ("5:30 PM") and 24-hour ("17:30") strings.
+ */
+export const parseTimeToMinutes = (timeString: string | undefined | null): number | null => {
+  if (!timeString) return null;
+  const match = timeString.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const period = match[3]?.toUpperCase();
+  if (minutes > 59) return null;
+
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'PM' && hours !== 12) hours += 12;
+    if (period === 'AM' && hours === 12) hours = 0;
+  } else if (hours > 23) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+/**
+ * Format minutes since midnight as "5:07 AM" (12h) or "05:07" (24h), wrapping around midnight
+ */
+export const formatMinutesOfDay = (minutes: number, format: TimeFormat = '12h'): string => {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const mins = String(wrapped % 60).padStart(2, '0');
+  if (format === '24h') return `${String(hours).padStart(2, '0')}:${mins}`;
+  return `${hours % 12 || 12}:${mins} ${hours >= 12 ? 'PM' : 'AM'}`;
+};
+
+/**
+ * Re-format a stored time string for display; unparseable input is returned as-is
+ */
+export const formatTime = (timeString: string | undefined | null, format: TimeFormat = '12h'): string => {
+  const minutes = parseTimeToMinutes(timeString);
+  if (minutes === null) return timeString?.trim() || TIME_PLACEHOLDER;
+  return formatMinutesOfDay(minutes, format);
+};
+
+/**
+ * Add minutes to a wall-clock time string, wrapping around midnight.
+ * Returns the placeholder when the time can't be parsed.
+ */
+export const addMinutesToTime = (timeString: string | undefined | null, minutes: number): string => {
+  const base = parseTimeToMinutes(timeString);
+  return base === null ? TIME_PLACEHOLDER : formatMinutesOfDay(base + minutes);
+};
+
+/**
+ * Minutes from one wall-clock time forward to another, wrapping past midnight (0-1439)
+ */
+export const minutesBetween = (fromMinutes: number, toMinutes: number): number => {
+  return (((toMinutes - fromMinutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+};
+
+/**
+ * Number of days in a month (month is 1-12)
+ */
+export const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+/**
+ * Compare two calendar days for equality
+ */
+export const isSameCalendarDay = (a: CalendarDay, b: CalendarDay): boolean => {
+  return a.year === b.year && a.month === b.month && a.day === b.day;
+};
+
+/**
+ * Add (or subtract) whole days to a calendar day
+ */
+export const addDays = (day: CalendarDay, amount: number): CalendarDay => {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + amount));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+/**
+ * Whole days from one calendar day to another (negative when `to` is earlier)
+ */
+export const daysBetween = (from: CalendarDay, to: CalendarDay): number => {
+  return Math.round((Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / 86400000);
+};
+
+/**
+ * Format a calendar day as a 'YYYY-MM-DD' key
+ */
+export const formatDayKey = (day: CalendarDay): string => {
+  return `${day.year}-${String(day.month).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+};
+
+/**
+ * Parse a 'YYYY-MM-DD' key back into a calendar day
+ */
+export const parseDayKey = (key: string | undefined): CalendarDay | null => {
+  const match = key?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) };
+};
+
+/**
+ * Format a calendar day for display. Weekday and year are included unless turned off.
+ */
+export const formatCalendarDate = (
+  day: CalendarDay,
+  style: DateStyle = 'long',
+  options: { weekday?: boolean; year?: boolean } = {}
+): string => {
+  const { weekday = true, year = true } = options;
+  // Noon UTC keeps the calendar day intact whatever the device timezone
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day, 12));
+
+  if (style === 'numeric') {
+    const base = `${String(day.day).padStart(2, '0')}/${String(day.month).padStart(2, '0')}${year ? `/${day.year}` : ''}`;
+    if (!weekday) return base;
+    return `${date.toLocaleDateString('en-AU', { weekday: 'short', timeZone: 'UTC' })} ${base}`;
+  }
+
+  return date.toLocaleDateString('en-AU', {
+    weekday: weekday ? 'long' : undefined,
+    day: 'numeric',
+    month: 'long',
+    year: year ? 'numeric' : undefined,
+    timeZone: 'UTC',
+  });
+};
+
+/**
+ * Wall-clock parts of an instant in the given timezone
+ */
+const getZonedParts = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+
+  const get = (type: string): number => parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    // Some engines report midnight as 24 even with h23
+    hour: get('hour') % 24,
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+/**
+ * Get today's calendar day in the given timezone
+ */
+export const getZonedToday = (timeZone: string, now: Date = new Date()): CalendarDay => {
+  const { year, month, day } = getZonedParts(now.getTime(), timeZone);
+  return { year, month, day };
+};
+
+/**
+ * Get the calendar day and wall-clock time of an instant in the given timezone
+ */
+export const getZonedNow = (
+  timeZone: string,
+  now: Date = new Date()
+): { day: CalendarDay; minutes: number; seconds: number } => {
+  const parts = getZonedParts(now.getTime(), timeZone);
+  return {
+    day: { year: parts.year, month: parts.month, day: parts.day },
+    minutes: parts.hour * 60 + parts.minute,
+    seconds: parts.second,
+  };
+};
+
+/**
+ * Offset (in minutes) of a timezone from UTC at the given instant
+ */
+export const getTimezoneOffsetMinutes = (instant: number, timeZone: string): number => {
+  const parts = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((asUtc - Math.floor(instant / 60000) * 60000) / 60000);
+};
+
+/**
+ * Convert a wall-clock time on a calendar day in the given timezone into an instant
+ */
+export const zonedTimeToDate = (day: CalendarDay, minutesOfDay: number, timeZone: string): Date => {
+  const wallAsUtc = Date.UTC(day.year, day.month - 1, day.day, 0, minutesOfDay);
+  // Two passes settle the offset on DST transition days
+  let offset = getTimezoneOffsetMinutes(wallAsUtc, timeZone);
+  offset = getTimezoneOffsetMinutes(wallAsUtc - offset * 60000, timeZone);
+  return new Date(wallAsUtc - offset * 60000);
+};
+
+/**
+ * Real minutes until the next occurrence of a wall-clock time in the given timezone.
+ * Measured between instants, so a DST change in between is accounted for.
+ */
+export const getMinutesUntil = (minutesOfDay: number, timeZone: string, now: Date = new Date()): number => {
+  const { day } = getZonedNow(timeZone, now);
+  let target = zonedTimeToDate(day, minutesOfDay, timeZone).getTime();
+  if (target <= now.getTime()) {
+    target = zonedTimeToDate(addDays(day, 1), minutesOfDay, timeZone).getTime();
+  }
+  return Math.ceil((target - now.getTime()) / 60000);
+};
+
+/**
+ * Format an instant as wall-clock time in the given timezone
+ */
+export const formatTimeInZone = (date: Date, timeZone: string, format: TimeFormat = '12h'): string => {
+  const { hour, minute } = getZonedParts(date.getTime(), timeZone);
+  return formatMinutesOfDay(hour * 60 + minute, format);
+};
@@ -0,0 +1,78 @@
+/**
+ * Travel Mode Utilities
+ *
+ * Builds calculation settings for the device's own location so a travelling
+ * member can see adhan times where they are. These are calculated times only;
+ * none of the masjid's iqama rules or local adjustments apply.
+ */
+
+import { MosqueSettings } from '../types';
+import { hasCoordinates } from './prayerCalculation';
+
+/** Distance from the masjid beyond which travel mode is suggested (roughly the qasr distance) */
+export const TRAVEL_SUGGEST_DISTANCE_KM = 80;
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine)
+ */
+export const getDistanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Distance from the masjid, or null when either location is unknown
+ */
+export const getDistanceFromMosqueKm = (
+  settings: MosqueSettings | null | undefined,
+  location: GeoPoint | null
+): number | null => {
+  if (!location || !hasCoordinates(settings)) return null;
+  return getDistanceKm(settings, location);
+};
+
+/**
+ * The device's IANA timezone, e.g. "Australia/Perth"
+ */
+export const getDeviceTimezone = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Calculation settings for the traveller's location. The masjid's method,
+ * madhab and high-latitude rules carry over; its minute adjustments don't,
+ * since they are tuned to the masjid's horizon.
+ */
+export const buildTravelSettings = (
+  settings: MosqueSettings | null | undefined,
+  location: GeoPoint,
+  placeName?: string | null
+): MosqueSettings => {
+  return {
+    name: placeName || 'Your location',
+    latitude: location.latitude,
+    longitude: location.longitude,
+    timezone: getDeviceTimezone(),
+    calculation_method: settings?.calculation_method,
+    madhab: settings?.madhab,
+    high_latitude_rule: settings?.high_latitude_rule,
+    polar_circle_resolution: settings?.polar_circle_resolution,
+    imsak_offset_minutes: settings?.imsak_offset_minutes,
+    hijri_offset_days: settings?.hijri_offset_days,
+  };
+};
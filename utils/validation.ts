@@ -0,0 +1,507 @@
+/**
+ * Firestore Document Validation
+ *
+ * Runtime checks for documents written by the admin dashboard. Each validator
+ * returns the typed document or the list of fields that are wrong, so hooks can
+ * keep showing the last valid copy instead of rendering broken rows.
+ */
+
+import { Campaign, Event, EventCategoriesConfig, JumuahTimes, MosqueSettings, PRAYER_KEYS, PrayerTimes } from '../types';
+import { DonationSettings } from '../types/donation';
+import { parseDayKey, parseTimeToMinutes } from './time';
+
+export interface FieldError {
+  /** Dotted path to the field, e.g. "iqama_schedule.0.start_date" */
+  field: string;
+  message: string;
+  value?: unknown;
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: FieldError[] };
+
+type Doc = Record<string, unknown>;
+
+const CALCULATION_METHODS = [
+  'MuslimWorldLeague', 'Egyptian', 'Karachi', 'UmmAlQura', 'Dubai', 'MoonsightingCommittee',
+  'NorthAmerica', 'Kuwait', 'Qatar', 'Singapore', 'Tehran', 'Turkey',
+] as const;
+
+/** Longest iqama offset accepted, in minutes */
+const MAX_IQAMA_OFFSET_MINUTES = 180;
+
+const isObject = (value: unknown): value is Doc => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null;
+
+const isTimestamp = (value: unknown): boolean => {
+  if (!isObject(value)) return false;
+  return typeof value.toDate === 'function' || typeof value.seconds === 'number';
+};
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+interface Checker {
+  doc: Doc;
+  errors: FieldError[];
+  fail: (field: string, message: string) => false;
+  string: (field: string, optional?: boolean) => boolean;
+  time: (field: string, optional?: boolean) => boolean;
+  dayKey: (field: string, optional?: boolean) => boolean;
+  number: (field: string, options?: { optional?: boolean; min?: number; max?: number }) => boolean;
+  boolean: (field: string, optional?: boolean) => boolean;
+  oneOf: (field: string, values: readonly string[], optional?: boolean) => boolean;
+  timestamp: (field: string, optional?: boolean) => boolean;
+  array: (field: string, optional?: boolean) => unknown[] | null;
+  /** Run a checker over each object in a list, prefixing errors with the item index */
+  each: (field: string, items: unknown[], check: (item: Checker) => void) => void;
+}
+
+/**
+ * Collects field errors for one document. Each check records an error and
+ * returns false when the field is wrong; optional fields may be missing.
+ */
+const createChecker = (doc: Doc, prefix = ''): Checker => {
+  const errors: FieldError[] = [];
+  const path = (field: string) => (prefix ? `${prefix}.${field}` : field);
+  const fail = (field: string, message: string): false => {
+    errors.push({ field: path(field), message, value: doc[field] });
+    return false;
+  };
+  const present = (field: string, optional: boolean): boolean | null => {
+    if (!isMissing(doc[field])) return true;
+    return optional ? null : fail(field, 'is required');
+  };
+
+  return {
+    errors,
+    fail,
+    string(field: string, optional = false): boolean {
+      const has = present(field, optional);
+      if (has !== true) return has === null;
+      return typeof doc[field] === 'string' || fail(field, 'must be text');
+    },
+    time(field: string, optional = false): boolean {
+      const has = present(field, optional);
+      if (has !== true) return has === null;
+      const value = doc[field];
+      if (optional && value === '') return true;
+      return (typeof value === 'string' && parseTimeToMinutes(value) !== null)
+        || fail(field, 'must be a time like "5:30 AM" or "17:30"');
+    },
+    dayKey(field: string, optional = false): boolean {
+      const has = present(field, optional);
+      if (has !== true) return has === null;
+      return (typeof doc[field] === 'string' && parseDayKey(doc[field] as string) !== null)
+        || fail(field, 'must be a date like "2026-03-01"');
+    },
+    number(field: string, options: { optional?: boolean; min?: number; max?: number } = {}): boolean {
+      const has = present(field, !!options.optional);
+      if (has !== true) return has === null;
+      const value = doc[field];
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail(field, 'must be a number');
+      if (options.min !== undefined && value < options.min) return fail(field, `must be at least ${options.min}`);
+      if (options.max !== undefined && value > options.max) return fail(field, `must be at most ${options.max}`);
+      return true;
+    },
+    boolean(field: string, optional = false): boolean {
+      const has = present(field, optional);
+      if (has !== true) return has === null;
+      return typeof doc[field] === 'boolean' || fail(field, 'must be true or false');
+    },
+    oneOf(field: string, values: readonly string[], optional = false): boolean {
+      const has = present(field, optional);
+      if (has !== true) return has === null;
+      return values.includes(doc[field] as string) || fail(field, `must be one of ${values.join(', ')}`);
+    },
+    timestamp(field: string, optional = false): boolean {
+      const has = present(field, optional);
+      if (has !== true) return has === null;
+      return isTimestamp(doc[field]) || fail(field, 'must be a date/time');
+    },
+    array(field: string, optional = false): unknown[] | null {
+      const has = present(field, optional);
+      if (has !== true) return null;
+      if (!Array.isArray(doc[field])) {
+        fail(field, 'must be a list');
+        return null;
+      }
+      return doc[field] as unknown[];
+    },
+    each(field: string, items: unknown[], check: (item: Checker) => void): void {
+      items.forEach((item, index) => {
+        if (!isObject(item)) {
+          errors.push({ field: `${path(field)}.${index}`, message: 'must be an object', value: item });
+          return;
+        }
+        const itemChecker = createChecker(item, `${path(field)}.${index}`);
+        check(itemChecker);
+        errors.push(...itemChecker.errors);
+      });
+    },
+    doc,
+  };
+};
+
+const result = <T>(checker: Checker): ValidationResult<T> => {
+  return checker.errors.length === 0
+    ? { valid: true, value: checker.doc as unknown as T }
+    : { valid: false, errors: checker.errors };
+};
+
+const notAnObject = <T>(data: unknown): ValidationResult<T> => ({
+  valid: false,
+  errors: [{ field: '(document)', message: 'must be an object', value: data }],
+});
+
+/**
+ * Iqama rules for each prayer; `partial` for schedule entries, where a prayer may be left out
+ */
+const checkIqamaRules = (check: Checker, partial: boolean): void => {
+  for (const prayer of PRAYER_KEYS) {
+    const type = check.doc[`${prayer}_iqama_type`];
+    check.oneOf(`${prayer}_iqama_type`, ['fixed', 'offset'], true);
+    if (type === 'offset') {
+      check.number(`${prayer}_iqama_offset`, { min: 0, max: MAX_IQAMA_OFFSET_MINUTES });
+      check.time(`${prayer}_iqama`, true);
+    } else {
+      check.number(`${prayer}_iqama_offset`, { optional: true, min: 0, max: MAX_IQAMA_OFFSET_MINUTES });
+      check.time(`${prayer}_iqama`, partial || type === undefined);
+    }
+  }
+};
+
+/**
+ * Validate the prayerTimes/current document
+ */
+export const validatePrayerTimes = (data: unknown): ValidationResult<PrayerTimes> => {
+  if (!isObject(data)) return notAnObject(data);
+  const check = createChecker(data);
+
+  for (const prayer of PRAYER_KEYS) {
+    check.boolean(`${prayer}_adhan_override`, true);
+    // An overridden adhan must be set; otherwise it is only used without coordinates
+    check.time(`${prayer}_adhan`, data[`${prayer}_adhan_override`] !== true);
+  }
+  check.dayKey('adhan_override_date', true);
+  checkIqamaRules(check, false);
+
+  const schedule = check.array('iqama_schedule', true);
+  if (schedule) {
+    check.each('iqama_schedule', schedule, (entry) => {
+      const hasStart = entry.dayKey('start_date');
+      const hasEnd = entry.dayKey('end_date', true);
+      const { start_date: start, end_date: end } = entry.doc;
+      if (hasStart && hasEnd && typeof end === 'string' && (end as string) < (start as string)) {
+        entry.fail('end_date', 'must not be before start_date');
+      }
+      checkIqamaRules(entry, true);
+    });
+  }
+
+  check.timestamp('last_updated', true);
+  return result<PrayerTimes>(check);
+};
+
+/**
+ * Validate the jumuahTimes/current document
+ */
+export const validateJumuahTimes = (data: unknown): ValidationResult<JumuahTimes> => {
+  if (!isObject(data)) return notAnObject(data);
+  const check = createChecker(data);
+
+  const times = check.array('times');
+  if (times) {
+    check.each('times', times, (slot) => {
+      slot.string('id');
+      slot.time('khutbah');
+    });
+  }
+
+  check.timestamp('last_updated', true);
+  return result<JumuahTimes>(check);
+};
+
+/**
+ * Validate the mosqueSettings/info document
+ */
+export const validateMosqueSettings = (data: unknown): ValidationResult<MosqueSettings> => {
+  if (!isObject(data)) return notAnObject(data);
+  const check = createChecker(data);
+
+  check.string('name');
+  for (const field of ['address', 'phone', 'email', 'website', 'facebook', 'instagram', 'imam']) {
+    check.string(field, true);
+  }
+  check.number('latitude', { optional: true, min: -90, max: 90 });
+  check.number('longitude', { optional: true, min: -180, max: 180 });
+  if (isMissing(data.latitude) !== isMissing(data.longitude)) {
+    check.fail(isMissing(data.latitude) ? 'latitude' : 'longitude', 'must be set together with the other coordinate');
+  }
+  if (check.string('timezone', true) && typeof data.timezone === 'string' && !isValidTimeZone(data.timezone)) {
+    check.fail('timezone', 'must be an IANA timezone like "Australia/Sydney"');
+  }
+  check.oneOf('calculation_method', CALCULATION_METHODS, true);
+  check.oneOf('madhab', ['Shafi', 'Hanafi'], true);
+  check.oneOf('high_latitude_rule', ['MiddleOfTheNight', 'SeventhOfTheNight', 'TwilightAngle'], true);
+  check.oneOf('polar_circle_resolution', ['AqrabBalad', 'AqrabYaum', 'Unresolved'], true);
+
+  if (!isMissing(data.prayer_adjustments)) {
+    if (!isObject(data.prayer_adjustments)) {
+      check.fail('prayer_adjustments', 'must be an object of minutes per prayer');
+    } else {
+      const adjustments = createChecker(data.prayer_adjustments, 'prayer_adjustments');
+      for (const prayer of ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha']) {
+        adjustments.number(prayer, { optional: true, min: -60, max: 60 });
+      }
+      check.errors.push(...adjustments.errors);
+    }
+  }
+
+  check.boolean('auto_fetch_maghrib', true);
+  check.number('imsak_offset_minutes', { optional: true, min: 0, max: 60 });
+  check.time('taraweeh_time', true);
+  check.number('hijri_offset_days', { optional: true, min: -3, max: 3 });
+  check.number('congregation_minutes', { optional: true, min: 0, max: 60 });
+  check.timestamp('last_updated', true);
+  return result<MosqueSettings>(check);
+};
+
+/**
+ * Validate an events document (with its id merged in)
+ */
+export const validateEvent = (data: unknown): ValidationResult<Event> => {
+  if (!isObject(data)) return notAnObject(data);
+  const check = createChecker(data);
+
+  check.string('id');
+  check.string('title');
+  check.string('description');
+  check.timestamp('date');
+  check.string('time');
+  check.string('category');
+  check.boolean('is_active');
+  check.string('location', true);
+  check.string('speaker', true);
+  check.string('image_url', true);
+  check.boolean('rsvp_enabled', true);
+  check.number('rsvp_limit', { optional: true, min: 0 });
+  check.number('rsvp_count', { optional: true, min: 0 });
+  checkRecurrence(check);
+  checkRegistrationForm(check);
+  check.timestamp('created_at', true);
+  check.timestamp('updated_at', true);
+  return result<Event>(check);
+};
+
+/**
+ * Repeat rule on an event series; see EventRecurrence
+ */
+const checkRecurrence = (check: Checker): void => {
+  const recurrence = check.doc.recurrence;
+  if (isMissing(recurrence)) return;
+  if (!isObject(recurrence)) {
+    check.fail('recurrence', 'must be an object');
+    return;
+  }
+
+  const rule = createChecker(recurrence, 'recurrence');
+  rule.oneOf('frequency', ['weekly', 'monthly']);
+  rule.number('interval', { optional: true, min: 1, max: 52 });
+  rule.dayKey('until', true);
+
+  const weekdays = rule.array('weekdays', true);
+  weekdays?.forEach((weekday, index) => {
+    if (typeof weekday !== 'number' || !Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      rule.errors.push({ field: `recurrence.weekdays.${index}`, message: 'must be a weekday from 0 (Sunday) to 6', value: weekday });
+    }
+  });
+
+  const exceptions = rule.array('exceptions', true);
+  exceptions?.forEach((day, index) => {
+    if (typeof day !== 'string' || parseDayKey(day) === null) {
+      rule.errors.push({ field: `recurrence.exceptions.${index}`, message: 'must be a date like "2026-03-01"', value: day });
+    }
+  });
+
+  const monthlyWeekday = recurrence.monthly_weekday;
+  if (!isMissing(monthlyWeekday)) {
+    if (!isObject(monthlyWeekday)) {
+      rule.fail('monthly_weekday', 'must be an object');
+    } else {
+      const nth = createChecker(monthlyWeekday, 'recurrence.monthly_weekday');
+      nth.number('weekday', { min: 0, max: 6 });
+      if (![1, 2, 3, 4, -1].includes(monthlyWeekday.week as number)) {
+        nth.fail('week', 'must be 1, 2, 3, 4 or -1 (last)');
+      }
+      rule.errors.push(...nth.errors);
+    }
+  }
+
+  check.errors.push(...rule.errors);
+};
+
+const REGISTRATION_FIELD_TYPES = ['text', 'number', 'choice', 'checkbox'] as const;
+
+/**
+ * One question on a registration form; see RegistrationField
+ */
+const checkRegistrationField = (field: Checker): void => {
+  field.string('id');
+  field.string('label');
+  field.oneOf('type', REGISTRATION_FIELD_TYPES);
+  field.boolean('required', true);
+  field.string('help', true);
+  field.string('placeholder', true);
+  field.number('min', { optional: true });
+  field.number('max', { optional: true });
+
+  // Choices need at least one option to pick from
+  const options = field.array('options', field.doc.type !== 'choice');
+  if (options && (options.length === 0 || options.some((option) => typeof option !== 'string' || !option))) {
+    field.fail('options', 'must be a list of choices');
+  }
+};
+
+/**
+ * A list of registration questions, whose ids must be unique
+ */
+const checkRegistrationFields = (section: Checker): void => {
+  const fields = section.array('fields');
+  if (!fields) return;
+  section.each('fields', fields, checkRegistrationField);
+  const ids = fields.map((field) => (isObject(field) ? field.id : undefined));
+  if (new Set(ids).size !== ids.length) section.fail('fields', 'must have unique ids');
+};
+
+/**
+ * Admin-defined registration form on an event; see RegistrationForm
+ */
+const checkRegistrationForm = (check: Checker): void => {
+  const form = check.doc.registration_form;
+  if (isMissing(form)) return;
+  if (!isObject(form)) {
+    check.fail('registration_form', 'must be an object');
+    return;
+  }
+
+  const rules = createChecker(form, 'registration_form');
+  checkRegistrationFields(rules);
+
+  const attendees = form.attendees;
+  if (!isMissing(attendees)) {
+    if (!isObject(attendees)) {
+      rules.fail('attendees', 'must be an object');
+    } else {
+      const section = createChecker(attendees, 'registration_form.attendees');
+      section.string('label');
+      section.number('min', { optional: true, min: 0, max: 50 });
+      section.number('max', { optional: true, min: 1, max: 50 });
+      checkRegistrationFields(section);
+      rules.errors.push(...section.errors);
+    }
+  }
+
+  check.errors.push(...rules.errors);
+};
+
+/**
+ * Validate the eventCategories/default document
+ */
+export const validateEventCategories = (data: unknown): ValidationResult<EventCategoriesConfig> => {
+  if (!isObject(data)) return notAnObject(data);
+  const check = createChecker(data);
+
+  const categories = check.array('categories');
+  if (categories) {
+    check.each('categories', categories, (category) => {
+      category.string('id');
+      category.string('label');
+      category.string('color_bg');
+      category.string('color_text');
+      category.number('order');
+      category.boolean('is_active');
+    });
+  }
+
+  check.timestamp('updated_at', true);
+  return result<EventCategoriesConfig>(check);
+};
+
+/**
+ * Validate a campaigns document (with its id merged in)
+ */
+export const validateCampaign = (data: unknown): ValidationResult<Campaign> => {
+  if (!isObject(data)) return notAnObject(data);
+  const check = createChecker(data);
+
+  check.string('id');
+  check.string('title');
+  check.string('description');
+  check.number('goal_amount', { min: 0 });
+  check.number('current_amount', { min: 0 });
+  check.string('currency');
+  check.timestamp('start_date');
+  check.timestamp('end_date');
+  check.oneOf('status', ['active', 'completed', 'paused']);
+  check.string('image_url', true);
+  check.boolean('is_visible_in_app');
+  check.timestamp('created_at');
+  check.timestamp('updated_at');
+  return result<Campaign>(check);
+};
+
+/**
+ * Validate the donationSettings/config document
+ */
+export const validateDonationSettings = (data: unknown): ValidationResult<DonationSettings> => {
+  if (!isObject(data)) return notAnObject(data);
+  const check = createChecker(data);
+
+  const types = check.array('donation_types');
+  if (types) {
+    check.each('donation_types', types, (type) => {
+      type.string('id');
+      type.string('label');
+      type.string('description', true);
+      type.boolean('enabled');
+    });
+  }
+
+  const amounts = check.array('preset_amounts');
+  amounts?.forEach((amount, index) => {
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      check.errors.push({ field: `preset_amounts.${index}`, message: 'must be a positive number', value: amount });
+    }
+  });
+
+  check.number('minimum_amount', { min: 0 });
+
+  const frequencies = check.array('recurring_frequencies');
+  if (frequencies) {
+    check.each('recurring_frequencies', frequencies, (frequency) => {
+      frequency.string('id');
+      frequency.string('label');
+      frequency.boolean('enabled');
+    });
+  }
+
+  check.boolean('receipt_enabled');
+  check.string('receipt_prefix');
+  return result<DonationSettings>(check);
+};
+
+/**
+ * One-line summary of field errors for logs, e.g. `fajr_adhan must be a time...`
+ */
+export const formatFieldErrors = (errors: FieldError[]): string => {
+  return errors.map((error) => `${error.field} ${error.message} (got ${JSON.stringify(error.value)})`).join('; ');
+};